@@ -1,4 +1,17 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { EmailChannel } from "./email.js";
+import { AgentRegistry, createAgentFromDefinition, createDefaultAgents } from "../core/agents.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+import { ConversationStore } from "../conversation/store.js";
+import { ProcessedStore } from "../conversation/processedStore.js";
+import { AttachmentStore } from "../conversation/attachments.js";
+import { WorkspaceFS } from "../core/workspaceFs.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { createAttachToolDefinition } from "../tools/attachTool.js";
+import type { AppConfig } from "../config.js";
 
 // Access the private sanitizeHeader via a test-only subclass
 class TestableEmailChannel {
@@ -22,3 +35,153 @@ describe("EmailChannel.sanitizeHeader", () => {
     expect(ch.sanitizeHeader(ref)).toBe(ref);
   });
 });
+
+describe("EmailChannel inbound flow with a mock LLM", () => {
+  it("routes by @agent subject, replies with an MBCTX footer and continues the conversation", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-email-"));
+    const cfg = {
+      dataDir,
+      defaultAgent: "default",
+      pollIntervalMs: 60000,
+      mail: {
+        user: "me@example.com",
+        pass: "x",
+        imap: { host: "127.0.0.1", port: 993, secure: true },
+        smtp: { host: "127.0.0.1", port: 465, secure: true },
+      },
+    } as unknown as AppConfig;
+    const provider = new MockProvider([
+      { match: { system: "files agent" }, response: { text: "Here are your files." } },
+    ]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "m", files: "m", scheduler: "m" } }))
+      agents.register(a);
+    const convStore = new ConversationStore(dataDir);
+
+    const channel = new EmailChannel(cfg, agents, convStore, new ProcessedStore(dataDir), null);
+    const sent: Array<{ subject: string; text: string; headers: Record<string, string> }> = [];
+    const internals = channel as unknown as {
+      smtpTransport: { sendMail: (m: unknown) => Promise<void> };
+      handleInbound: (inb: unknown) => Promise<void>;
+    };
+    internals.smtpTransport = { sendMail: vi.fn(async (m) => void sent.push(m as (typeof sent)[number])) };
+
+    try {
+      await internals.handleInbound({
+        messageId: "<m1@example.com>",
+        subject: "@files list my workspace",
+        from: "me@example.com",
+        text: "list my workspace",
+        rawTextForCtxScan: "list my workspace",
+        references: null,
+        hasBotHeader: false,
+      });
+      expect(sent).toHaveLength(1);
+      expect(sent[0].subject).toBe("#1 [files] list my workspace");
+      const convId = sent[0].headers["X-Moltbot-Conv"];
+      expect(sent[0].text).toContain(`MBCTX v1 | c=${convId} | m=1 | a=files`);
+
+      await internals.handleInbound({
+        messageId: "<m2@example.com>",
+        subject: "Re: #1 [files] list my workspace",
+        from: "me@example.com",
+        text: "thanks",
+        rawTextForCtxScan: "thanks\n> " + sent[0].text,
+        references: ["<m1@example.com>"],
+        hasBotHeader: false,
+      });
+      expect(sent[1].subject).toBe("#2 [files] thanks");
+      expect((await convStore.getThread(convId)).map((t) => t.text)).toEqual([
+        "list my workspace",
+        "Here are your files.",
+        "thanks",
+        "Here are your files.",
+      ]);
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it("stores mail attachments, shows their text to the agent and mails back attached workspace files", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-email-"));
+    const cfg = {
+      dataDir,
+      defaultAgent: "files",
+      pollIntervalMs: 60000,
+      mail: { user: "me@example.com", pass: "x", imap: {}, smtp: {} },
+    } as unknown as AppConfig;
+    const workspace = path.join(dataDir, "workspace");
+    await fs.mkdir(workspace, { recursive: true });
+    await fs.writeFile(path.join(workspace, "report.md"), "# Totals");
+    const attachments = new AttachmentStore(dataDir, new WorkspaceFS(workspace), {
+      maxBytes: 1000,
+      maxTextChars: 1000,
+    });
+    const tools = new ToolRegistry();
+    tools.register(createAttachToolDefinition(attachments));
+    const provider = new MockProvider([
+      {
+        match: { user: "^sum this" },
+        response: {
+          text: "",
+          toolCalls: [
+            { id: "a1", type: "function", function: { name: "file_attach", arguments: '{"path":"report.md"}' } },
+          ],
+        },
+        times: 1,
+      },
+      { response: { text: "Report attached." } },
+    ]);
+    const agents = new AgentRegistry();
+    agents.register(
+      createAgentFromDefinition(
+        { id: "files", description: "", modelSlot: "default", systemPrompt: "files agent", tools: ["file.attach"] },
+        { provider, models: { default: "m" }, tools }
+      )
+    );
+    const convStore = new ConversationStore(dataDir);
+    const channel = new EmailChannel(
+      cfg,
+      agents,
+      convStore,
+      new ProcessedStore(dataDir),
+      null,
+      null,
+      null,
+      attachments
+    );
+    const sent: Array<{ attachments?: Array<{ filename: string; content: Buffer; contentType: string }> }> = [];
+    const internals = channel as unknown as {
+      smtpTransport: { sendMail: (m: unknown) => Promise<void> };
+      toInbound: (parsed: unknown) => unknown;
+      handleInbound: (inb: unknown) => Promise<void>;
+    };
+    internals.smtpTransport = { sendMail: vi.fn(async (m) => void sent.push(m as (typeof sent)[number])) };
+
+    try {
+      const inbound = internals.toInbound({
+        subject: "numbers",
+        text: "sum this",
+        from: { value: [{ address: "me@example.com" }] },
+        attachments: [
+          { filename: "data.csv", contentType: "text/csv", content: Buffer.from("a,b\n1,2\n") },
+          { filename: "logo.png", contentType: "image/png", content: Buffer.from([1]), related: true },
+        ],
+      });
+      await internals.handleInbound(inbound);
+
+      expect(provider.requests[0].messages.filter((m) => m.role === "user").at(-1)?.content).toBe(
+        "sum this\n\n[Attachment: data.csv (text/csv, 8 bytes)]\na,b\n1,2\n"
+      );
+      const convId = (await convStore.listConversations())[0].convId;
+      const [userTurn, botTurn] = await convStore.getThread(convId);
+      expect(userTurn.attachments).toEqual([expect.objectContaining({ name: "data.csv", source: "conversation" })]);
+      expect(botTurn.attachments).toEqual([expect.objectContaining({ path: "report.md", source: "workspace" })]);
+      expect(sent[0].attachments).toEqual([
+        { filename: "report.md", content: Buffer.from("# Totals"), contentType: "text/markdown" },
+      ]);
+    } finally {
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
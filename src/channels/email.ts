@@ -10,6 +10,13 @@ import { parseLatestMbCtx, formatMbCtxFooter } from "../core/mbctx.js";
 import { ConversationStore } from "../conversation/store.js";
 import { ProcessedStore } from "../conversation/processedStore.js";
 import type { MemoryEngine } from "../memory/memoryEngine.js";
+import type { ToolStep } from "../tools/registry.js";
+import { participatingAgents } from "../tools/delegateTool.js";
+import type { UsageLedger } from "../usage/usageLedger.js";
+import type { IntentRouter, RoutingDecision } from "../core/intentRouter.js";
+import type { AttachmentStore, IncomingFile } from "../conversation/attachments.js";
+import type { Attachment } from "../conversation/types.js";
+import { replyAttachments } from "../tools/attachTool.js";
 
 type Inbound = {
   messageId: string | null;
@@ -20,8 +27,12 @@ type Inbound = {
   inReplyTo?: string | null;
   references?: string[] | null;
   hasBotHeader: boolean;
+  /** Attached files; inline images of the HTML body are left out. */
+  attachments: IncomingFile[];
 };
 
+type ParsedAttachment = { filename?: string; contentType?: string; content?: Buffer; related?: boolean };
+
 export class EmailChannel {
   private log = pino({ name: "EmailChannel" });
   private imap: ImapFlow;
@@ -34,7 +45,10 @@ export class EmailChannel {
     private agents: AgentRegistry,
     private convStore: ConversationStore,
     private processed: ProcessedStore,
-    private memoryEngine: MemoryEngine | null = null
+    private memoryEngine: MemoryEngine | null = null,
+    private usageLedger: UsageLedger | null = null,
+    private intentRouter: IntentRouter | null = null,
+    private attachments: AttachmentStore | null = null
   ) {
     this.imap = new ImapFlow({
       host: cfg.mail.imap.host,
@@ -126,7 +140,7 @@ export class EmailChannel {
     }
   }
 
-  private toInbound(parsed: { headers?: Map<string, unknown>; from?: { value?: Array<{ address?: string }> }; subject?: string; text?: string; html?: string; messageId?: string; inReplyTo?: string; references?: unknown }): Inbound {
+  private toInbound(parsed: { headers?: Map<string, unknown>; from?: { value?: Array<{ address?: string }> }; subject?: string; text?: string; html?: string; messageId?: string; inReplyTo?: string; references?: unknown; attachments?: ParsedAttachment[] }): Inbound {
     const headers = parsed.headers;
     const hasBotHeader = (() => {
       const v = headers?.get("x-moltbot-out");
@@ -152,60 +166,106 @@ export class EmailChannel {
       inReplyTo: parsed.inReplyTo ? String(parsed.inReplyTo) : null,
       references: Array.isArray(parsed.references) ? parsed.references.map(String) : null,
       hasBotHeader,
+      attachments: (parsed.attachments ?? [])
+        .filter((a) => a.content && !a.related)
+        .map((a) => ({ name: a.filename || "attachment", mimeType: a.contentType, data: a.content! })),
     };
   }
 
   private async handleInbound(inb: Inbound): Promise<void> {
     const { defaultAgent } = this.cfg;
 
+    const budget = this.usageLedger?.checkBudget();
+    if (budget && !budget.ok && budget.message) {
+      await this.sendMail({
+        to: this.cfg.mail.user,
+        subject: `[EveryBot] ${firstLineSummary(inb.subject || inb.text || "reply")}`,
+        text: budget.message,
+        inReplyTo: inb.messageId ?? undefined,
+        references: inb.references ?? undefined,
+      });
+      this.log.warn({ day: budget.day, month: budget.month }, "Token budget exceeded; refused");
+      return;
+    }
+
     const subjectAgent = parseAgentFromSubject(inb.subject);
     const ctxFromBody = parseLatestMbCtx(inb.rawTextForCtxScan);
 
     const convId = ctxFromBody?.convId ?? null;
     const agentFromCtx = ctxFromBody?.agentId ?? null;
 
-    const meta = convId
-      ? await this.convStore.ensureConversation(convId, defaultAgent)
-      : await this.convStore.createConversation(defaultAgent);
-
-    let agentId = subjectAgent ?? agentFromCtx ?? meta.agentId ?? defaultAgent;
-    if (!this.agents.has(agentId)) agentId = defaultAgent;
-
-    if (subjectAgent && subjectAgent !== meta.agentId) {
-      meta.agentId = agentId;
-      await this.convStore.saveMeta(meta);
-    }
-
-    await this.convStore.append(meta.convId, {
-      role: "user",
-      text: inb.text,
-      at: new Date().toISOString(),
-      emailId: inb.messageId ?? undefined,
-    });
-
-    const memory: MemoryPack = this.memoryEngine
-      ? await this.memoryEngine.buildMemoryPack(meta.convId)
-      : { summary: "", facts: {}, recentTurns: (await this.convStore.getThread(meta.convId)).map((t) => ({ role: t.role, text: t.text })) };
+    const target = convId ?? (await this.convStore.createConversation(defaultAgent)).convId;
+    // One turn at a time per conversation, shared with the web UI.
+    const { meta, agentId, msgNo, replyText, outFiles } = await this.convStore.withLock(target, async () => {
+      const meta = await this.convStore.ensureConversation(target, defaultAgent);
+      const files = await this.saveAttachments(meta.convId, inb.attachments ?? []);
+
+      let agentId = subjectAgent ?? agentFromCtx ?? meta.agentId ?? defaultAgent;
+      if (!this.agents.has(agentId)) agentId = defaultAgent;
+
+      // An @agent subject always wins; otherwise the router may move the thread, falling back to its current agent.
+      let routing: RoutingDecision | undefined;
+      if (this.intentRouter) {
+        const current = agentFromCtx ?? meta.agentId;
+        routing = await this.intentRouter.route(inb.text, {
+          convId: meta.convId,
+          requestedAgent: subjectAgent,
+          fallbackAgent: current && this.agents.has(current) ? current : defaultAgent,
+        });
+        agentId = routing.agentId;
+      }
 
-    const agent = this.agents.get(agentId);
-    const replyText = await agent.handle(inb.text, { convId: meta.convId, agentId }, memory);
+      if ((subjectAgent || routing) && agentId !== meta.agentId) {
+        await this.convStore.mutateMeta(meta.convId, (m) => {
+          m.agentId = agentId;
+        });
+      }
 
-    const msgNo = await this.convStore.nextBotMsgNo(meta.convId);
-    await this.convStore.append(meta.convId, {
-      role: "bot",
-      text: replyText,
-      at: new Date().toISOString(),
-      msgNo,
-      agentId,
+      await this.convStore.append(meta.convId, {
+        role: "user",
+        text: inb.text,
+        at: new Date().toISOString(),
+        emailId: inb.messageId ?? undefined,
+        channel: "mail",
+        ...(routing ? { routing } : {}),
+        ...(files.length ? { attachments: files } : {}),
+      });
+
+      const agent = this.agents.get(agentId);
+      const memory: MemoryPack = this.memoryEngine
+        ? await this.memoryEngine.buildMemoryPack(meta.convId, agent.definition?.memory)
+        : { summary: "", facts: {}, recentTurns: (await this.convStore.getThread(meta.convId)).map((t) => ({ role: t.role, text: t.text })) };
+
+      const input = this.attachments ? await this.attachments.agentInput(meta.convId, inb.text, files) : inb.text;
+      const toolSteps: ToolStep[] = [];
+      const replyText = await agent.handle(input, { convId: meta.convId, agentId }, memory, {
+        onToolStep: (step) => toolSteps.push(step),
+      });
+
+      const agentsUsed = participatingAgents(agentId, toolSteps);
+      const outFiles = replyAttachments(toolSteps);
+      const msgNo = await this.convStore.nextBotMsgNo(meta.convId);
+      await this.convStore.append(meta.convId, {
+        role: "bot",
+        text: replyText,
+        at: new Date().toISOString(),
+        msgNo,
+        agentId,
+        channel: "mail",
+        ...(toolSteps.length ? { tools: toolSteps } : {}),
+        ...(agentsUsed.length > 1 ? { agents: agentsUsed } : {}),
+        ...(outFiles.length ? { attachments: outFiles } : {}),
+      });
+
+      if (this.memoryEngine) {
+        await this.memoryEngine.afterReply(meta.convId, [
+          { role: "user", text: input, at: new Date().toISOString(), emailId: inb.messageId },
+          { role: "bot", text: replyText, at: new Date().toISOString(), msgNo, agentId },
+        ]);
+      }
+      return { meta, agentId, msgNo, replyText, outFiles };
     });
 
-    if (this.memoryEngine) {
-      await this.memoryEngine.afterReply(meta.convId, [
-        { role: "user", text: inb.text, at: new Date().toISOString(), emailId: inb.messageId },
-        { role: "bot", text: replyText, at: new Date().toISOString(), msgNo, agentId },
-      ]);
-    }
-
     const summary = firstLineSummary(inb.text || "reply");
     const outSubject = `#${msgNo} [${agentId}] ${summary}`;
     const footer = formatMbCtxFooter({
@@ -222,11 +282,45 @@ export class EmailChannel {
       inReplyTo: inb.messageId ?? undefined,
       references: inb.references ?? undefined,
       convId: meta.convId,
+      attachments: await this.readAttachments(meta.convId, outFiles),
     });
 
     this.log.info({ convId: meta.convId, msgNo, agentId }, "Replied");
   }
 
+  /** Stores the mail's files with the conversation; one that cannot be stored (e.g. too large) is skipped. */
+  private async saveAttachments(convId: string, files: IncomingFile[]): Promise<Attachment[]> {
+    const saved: Attachment[] = [];
+    if (!files.length) return saved;
+    if (!this.attachments) {
+      this.log.warn({ convId, count: files.length }, "Attachments not stored; no attachment store");
+      return saved;
+    }
+    for (const file of files) {
+      try {
+        saved.push(await this.attachments.save(convId, file));
+      } catch (e) {
+        this.log.warn({ convId, name: file.name, err: e instanceof Error ? e.message : String(e) }, "Attachment skipped");
+      }
+    }
+    return saved;
+  }
+
+  private async readAttachments(
+    convId: string,
+    files: Attachment[]
+  ): Promise<Array<{ filename: string; content: Buffer; contentType: string }>> {
+    const out: Array<{ filename: string; content: Buffer; contentType: string }> = [];
+    for (const att of files) {
+      try {
+        out.push({ filename: att.name, content: await this.attachments!.read(convId, att), contentType: att.mimeType });
+      } catch (e) {
+        this.log.warn({ convId, path: att.path, err: e instanceof Error ? e.message : String(e) }, "Attachment not sent");
+      }
+    }
+    return out;
+  }
+
   /** Strip CR and LF to prevent email header injection. */
   private sanitizeHeader(value: string): string {
     return value.replace(/[\r\n]/g, "");
@@ -238,12 +332,11 @@ export class EmailChannel {
     text: string;
     inReplyTo?: string;
     references?: string[];
-    convId: string;
+    convId?: string;
+    attachments?: Array<{ filename: string; content: Buffer; contentType: string }>;
   }): Promise<void> {
-    const headers: Record<string, string> = {
-      "X-Moltbot-Out": "1",
-      "X-Moltbot-Conv": args.convId,
-    };
+    const headers: Record<string, string> = { "X-Moltbot-Out": "1" };
+    if (args.convId) headers["X-Moltbot-Conv"] = args.convId;
     const extraHeaders: Record<string, string> = { ...headers };
     if (args.inReplyTo) extraHeaders["In-Reply-To"] = this.sanitizeHeader(args.inReplyTo);
     if (args.references?.length) extraHeaders["References"] = this.sanitizeHeader(args.references.join(" "));
@@ -254,6 +347,7 @@ export class EmailChannel {
       subject: args.subject,
       text: args.text,
       headers: extraHeaders,
+      ...(args.attachments?.length ? { attachments: args.attachments } : {}),
     });
   }
 }
@@ -0,0 +1,37 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { loadConfig } from "./config.js";
+
+describe("loadConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("takes 0 for the token budgets: unlimited", () => {
+    vi.stubEnv("TOKEN_BUDGET_DAILY", "0");
+    vi.stubEnv("TOKEN_BUDGET_MONTHLY", "0");
+    expect(loadConfig().usage).toEqual({ dailyTokenBudget: 0, monthlyTokenBudget: 0 });
+
+    vi.stubEnv("TOKEN_BUDGET_DAILY", "-1");
+    expect(() => loadConfig()).toThrow("Invalid non-negative int env: TOKEN_BUDGET_DAILY");
+  });
+
+  it("takes 0 for RETRIEVAL_TOP_K: retrieval off", () => {
+    vi.stubEnv("RETRIEVAL_TOP_K", "0");
+    expect(loadConfig().memory.retrieval.topK).toBe(0);
+  });
+
+  it("takes 0 for WORKSPACE_INDEX_TOP_K: the index off", () => {
+    vi.stubEnv("WORKSPACE_INDEX_TOP_K", "0");
+    expect(loadConfig().memory.documents.topK).toBe(0);
+  });
+
+  it("takes 0 for retention limits: no limit", () => {
+    vi.stubEnv("RETENTION_THREAD_MAX_AGE_DAYS", "0");
+    vi.stubEnv("RETENTION_THREAD_MAX_BYTES", "0");
+    vi.stubEnv("RETENTION_PROCESSED_MAX_AGE_DAYS", "0");
+    expect(loadConfig().retention).toMatchObject({
+      threads: { maxAgeDays: 0, maxBytes: 0, mode: "archive" },
+      processedMaxAgeDays: 0,
+    });
+  });
+});
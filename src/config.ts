@@ -1,4 +1,10 @@
 import path from "node:path";
+import { LLM_BACKENDS } from "./core/providerMux.js";
+import type { LlmBackend } from "./core/providerMux.js";
+import type { IntentRoutingMode } from "./core/intentRouter.js";
+import type { StorageBackend } from "./storage/types.js";
+import type { RetentionConfig, RetentionMode, RetentionPolicy } from "./storage/retention.js";
+import type { AttachmentLimits } from "./conversation/attachments.js";
 
 function env(name: string, fallback?: string): string {
   const v = process.env[name] ?? fallback;
@@ -18,17 +24,101 @@ function envInt(name: string, fallback: number): number {
   return n;
 }
 
+/** Like `envInt`, but 0 is valid: for limits where 0 means unlimited or off. */
+function envNonNegInt(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (!raw) return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`Invalid non-negative int env: ${name}`);
+  return n;
+}
+
+/** Parses "from=to,from2=to2" into a model alias map. */
+function envModelMap(name: string): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const pair of (process.env[name] ?? "").split(",")) {
+    const i = pair.indexOf("=");
+    if (i <= 0) continue;
+    const from = pair.slice(0, i).trim();
+    const to = pair.slice(i + 1).trim();
+    if (from && to) out[from] = to;
+  }
+  return out;
+}
+
+function envBackend(name: string, fallback: LlmBackend): LlmBackend {
+  const raw = (process.env[name] ?? "").trim().toLowerCase();
+  if (!raw) return fallback;
+  if (!LLM_BACKENDS.includes(raw as LlmBackend)) {
+    throw new Error(`Invalid LLM backend in ${name}: ${raw} (expected ${LLM_BACKENDS.join("|")})`);
+  }
+  return raw as LlmBackend;
+}
+
 function envBool(name: string, fallback: boolean): boolean {
   const raw = process.env[name];
   if (!raw) return fallback;
   return ["1", "true", "yes", "on"].includes(raw.toLowerCase());
 }
 
+/** <PREFIX>_MAX_AGE_DAYS, <PREFIX>_MAX_BYTES (unset or 0: no limit) and <PREFIX>_MODE (archive|delete). */
+function envRetention(prefix: string): RetentionPolicy {
+  const mode = envOptional(`${prefix}_MODE`, "archive").toLowerCase() as RetentionMode;
+  if (mode !== "archive" && mode !== "delete") {
+    throw new Error(`Invalid ${prefix}_MODE: ${mode} (expected archive|delete)`);
+  }
+  return {
+    maxAgeDays: envNonNegInt(`${prefix}_MAX_AGE_DAYS`, 0),
+    maxBytes: envNonNegInt(`${prefix}_MAX_BYTES`, 0),
+    mode,
+  };
+}
+
+export type LlmProviderConfig = {
+  id: string;
+  baseUrl: string;
+  apiKey: string;
+  /** Requested model -> provider model; "*" maps everything not listed. */
+  models: Record<string, string>;
+};
+
+export type LlmMode = "live" | "record" | "replay" | "mock";
+
+export type ModelSlot = "default" | "files" | "scheduler" | "memorySummary" | "memoryFacts" | "routing" | "judge" | "title";
+
 export type AppConfig = {
   dataDir: string;
+  /** Where conversations, tasks, processed mail and the audit log live; memory files stay under dataDir. */
+  storage: { backend: StorageBackend; sqlitePath: string };
+  /** Limits on threads, task runs, the audit log and mail dedupe keys; nothing is compacted by default. */
+  retention: RetentionConfig;
   workspaceRoot: string;
+  /**
+   * `profileExtraction`: replies update the global user profile (MEMORY_PROFILE).
+   * `retrieval`: passages from past conversations per message (0 turns it off); BM25, plus the embedding
+   * model when one is set.
+   * `documents`: chunks of workspace text files per message (0 turns the workspace index off).
+   * `maxFactDeletions`: extraction updates removing more facts are refused; API updates need confirmation.
+   * `queue`: replies queue their memory updates, which run in the background after `debounceMs` and are
+   * retried with backoff; off, replies wait for the update.
+   */
+  memory: {
+    profileExtraction: boolean;
+    maxFactDeletions: number;
+    queue: { enabled: boolean; debounceMs: number; maxBatchTurns: number; retryMs: number; maxAttempts: number };
+    retrieval: { topK: number; maxChars: number; embedModel: string; embedBackend: LlmBackend };
+    documents: { topK: number; chunkLines: number };
+  };
+  /** Files of uploads and mail: size limit and how much extracted text goes into the agent's context. */
+  attachments: AttachmentLimits;
+  /** Agent definition files (*.json / *.md), reloaded on change. */
+  agentsDir: string;
+  /** Eval suites (*.json) runnable by name through POST /api/evals/run. */
+  evalsDir: string;
   pollIntervalMs: number;
   defaultAgent: string;
+  /** Agent selection for messages that do not name an agent. */
+  routing: { mode: IntentRoutingMode; minConfidence: number };
   port: number;
   mail: {
     user: string;
@@ -37,27 +127,125 @@ export type AppConfig = {
     smtp: { host: string; port: number; secure: boolean };
   };
   llm: {
+    /** "live" calls the backends; "record" also writes fixtures; "replay" and "mock" never touch the network. */
+    mode: LlmMode;
+    fixturesDir: string;
+    /** Optional JSON file with MockProvider rules. */
+    mockScript: string;
     baseUrl: string;
     apiKey: string;
-    models: {
-      default: string;
-      files: string;
-      scheduler: string;
-      memorySummary: string;
-      memoryFacts: string;
+    models: Record<ModelSlot, string>;
+    /** Which backend serves each slot; SiliconFlow slots go through the failover chain below. */
+    slotBackends: Record<ModelSlot, LlmBackend>;
+    ollama: { baseUrl: string; numCtx: number; keepAlive: string };
+    llamacpp: { baseUrl: string; apiKey: string };
+    /** Context window (tokens) overrides by model name; "*" applies to unknown models. */
+    contextWindows: Record<string, number>;
+    /** Ordered failover chain; the first entry is the SiliconFlow provider above. */
+    providers: LlmProviderConfig[];
+    router: {
+      failureThreshold: number;
+      cooldownMs: number;
+      timeoutMs: number;
+      /** Retries inside one provider before the router moves on. */
+      maxAttempts: number;
     };
   };
+  usage: {
+    /** Token budgets; 0 disables the limit. */
+    dailyTokenBudget: number;
+    monthlyTokenBudget: number;
+  };
 };
 
+function loadProviders(baseUrl: string, apiKey: string): LlmProviderConfig[] {
+  const providers: LlmProviderConfig[] = [
+    { id: "siliconflow", baseUrl, apiKey, models: envModelMap("SILICONFLOW_MODELS") },
+  ];
+  const ids = envOptional("LLM_FALLBACK_PROVIDERS", "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  for (const id of ids) {
+    const key = id.toUpperCase().replace(/[^A-Z0-9]/g, "_");
+    providers.push({
+      id,
+      baseUrl: env(`LLM_${key}_BASE_URL`),
+      apiKey: envOptional(`LLM_${key}_API_KEY`, ""),
+      models: envModelMap(`LLM_${key}_MODELS`),
+    });
+  }
+  return providers;
+}
+
 export function loadConfig(): AppConfig {
   const dataDir = path.resolve(envOptional("DATA_DIR", "./data"));
   const workspaceRoot = path.join(dataDir, "workspace");
+  const llmBaseUrl = envOptional("SILICONFLOW_BASE_URL", "https://api.siliconflow.com/v1");
+  const llmApiKey = envOptional("SILICONFLOW_API_KEY", "");
+  const defaultBackend = envBackend("MODEL_DEFAULT_BACKEND", "siliconflow");
+  const llmMode = envOptional("LLM_PROVIDER", "live").toLowerCase() as LlmMode;
+  if (!["live", "record", "replay", "mock"].includes(llmMode)) {
+    throw new Error(`Invalid LLM_PROVIDER: ${llmMode} (expected live|record|replay|mock)`);
+  }
+  const routingMode = envOptional("INTENT_ROUTING", "keywords").toLowerCase() as IntentRoutingMode;
+  if (!["off", "keywords", "llm"].includes(routingMode)) {
+    throw new Error(`Invalid INTENT_ROUTING: ${routingMode} (expected off|keywords|llm)`);
+  }
+  const minConfidence = Number(envOptional("INTENT_MIN_CONFIDENCE", "0.6"));
+  if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+    throw new Error("Invalid INTENT_MIN_CONFIDENCE (expected 0..1)");
+  }
+
+  const storageBackend = envOptional("STORAGE_BACKEND", "files").toLowerCase() as StorageBackend;
+  if (!["files", "sqlite"].includes(storageBackend)) {
+    throw new Error(`Invalid STORAGE_BACKEND: ${storageBackend} (expected files|sqlite)`);
+  }
 
   return {
     dataDir,
+    storage: {
+      backend: storageBackend,
+      sqlitePath: path.resolve(envOptional("SQLITE_PATH", path.join(dataDir, "everybot.db"))),
+    },
+    retention: {
+      intervalMs: envInt("RETENTION_INTERVAL_MS", 6 * 60 * 60 * 1000),
+      threads: envRetention("RETENTION_THREAD"),
+      runs: envRetention("RETENTION_RUNS"),
+      audit: envRetention("RETENTION_AUDIT"),
+      processedMaxAgeDays: envNonNegInt("RETENTION_PROCESSED_MAX_AGE_DAYS", 0),
+    },
     workspaceRoot,
+    memory: {
+      profileExtraction: envBool("MEMORY_PROFILE", true),
+      maxFactDeletions: envInt("MEMORY_FACTS_MAX_DELETIONS", 3),
+      queue: {
+        enabled: envBool("MEMORY_QUEUE", true),
+        debounceMs: envInt("MEMORY_QUEUE_DEBOUNCE_MS", 2000),
+        maxBatchTurns: envInt("MEMORY_QUEUE_MAX_BATCH_TURNS", 8),
+        retryMs: envInt("MEMORY_QUEUE_RETRY_MS", 5000),
+        maxAttempts: envInt("MEMORY_QUEUE_MAX_ATTEMPTS", 8),
+      },
+      retrieval: {
+        topK: envNonNegInt("RETRIEVAL_TOP_K", 5),
+        maxChars: envInt("RETRIEVAL_MAX_CHARS", 800),
+        embedModel: envOptional("RETRIEVAL_EMBED_MODEL", ""),
+        embedBackend: envBackend("RETRIEVAL_EMBED_BACKEND", "ollama"),
+      },
+      documents: {
+        topK: envNonNegInt("WORKSPACE_INDEX_TOP_K", 4),
+        chunkLines: envInt("WORKSPACE_INDEX_CHUNK_LINES", 40),
+      },
+    },
+    attachments: {
+      maxBytes: envInt("ATTACHMENT_MAX_BYTES", 10 * 1024 * 1024),
+      maxTextChars: envInt("ATTACHMENT_TEXT_MAX_CHARS", 20000),
+    },
+    agentsDir: path.resolve(envOptional("AGENTS_DIR", path.join(dataDir, "agents"))),
+    evalsDir: path.resolve(envOptional("EVALS_DIR", path.join(dataDir, "evals"))),
     pollIntervalMs: envInt("POLL_INTERVAL_MS", 15000),
     defaultAgent: envOptional("DEFAULT_AGENT", "default"),
+    routing: { mode: routingMode, minConfidence },
     port: envInt("PORT", 3000),
     mail: {
       user: envOptional("MAIL_USER", ""),
@@ -74,15 +262,56 @@ export function loadConfig(): AppConfig {
       },
     },
     llm: {
-      baseUrl: envOptional("SILICONFLOW_BASE_URL", "https://api.siliconflow.com/v1"),
-      apiKey: envOptional("SILICONFLOW_API_KEY", ""),
+      mode: llmMode,
+      fixturesDir: path.resolve(envOptional("LLM_FIXTURES_DIR", path.join(dataDir, "llm-fixtures"))),
+      mockScript: envOptional("LLM_MOCK_SCRIPT", ""),
+      baseUrl: llmBaseUrl,
+      apiKey: llmApiKey,
       models: {
         default: envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3"),
         files: envOptional("MODEL_FILES", envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3")),
         scheduler: envOptional("MODEL_SCHEDULER", envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3")),
         memorySummary: envOptional("MODEL_MEMORY_SUMMARY", envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3")),
         memoryFacts: envOptional("MODEL_MEMORY_FACTS", envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3")),
+        routing: envOptional("MODEL_ROUTING", envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3")),
+        judge: envOptional("MODEL_JUDGE", envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3")),
+        title: envOptional("MODEL_TITLE", envOptional("MODEL_DEFAULT", "deepseek-ai/DeepSeek-V3")),
+      },
+      slotBackends: {
+        default: defaultBackend,
+        files: envBackend("MODEL_FILES_BACKEND", defaultBackend),
+        scheduler: envBackend("MODEL_SCHEDULER_BACKEND", defaultBackend),
+        memorySummary: envBackend("MODEL_MEMORY_SUMMARY_BACKEND", defaultBackend),
+        memoryFacts: envBackend("MODEL_MEMORY_FACTS_BACKEND", defaultBackend),
+        routing: envBackend("MODEL_ROUTING_BACKEND", defaultBackend),
+        judge: envBackend("MODEL_JUDGE_BACKEND", defaultBackend),
+        title: envBackend("MODEL_TITLE_BACKEND", defaultBackend),
       },
+      ollama: {
+        baseUrl: envOptional("OLLAMA_BASE_URL", "http://127.0.0.1:11434"),
+        numCtx: envInt("OLLAMA_NUM_CTX", 8192),
+        keepAlive: envOptional("OLLAMA_KEEP_ALIVE", ""),
+      },
+      llamacpp: {
+        baseUrl: envOptional("LLAMACPP_BASE_URL", "http://127.0.0.1:8080/v1"),
+        apiKey: envOptional("LLAMACPP_API_KEY", ""),
+      },
+      contextWindows: Object.fromEntries(
+        Object.entries(envModelMap("MODEL_CONTEXT_WINDOWS"))
+          .map(([model, n]) => [model, Number(n)] as const)
+          .filter(([, n]) => Number.isFinite(n) && n > 0)
+      ),
+      providers: loadProviders(llmBaseUrl, llmApiKey),
+      router: {
+        failureThreshold: envInt("LLM_FAILURE_THRESHOLD", 3),
+        cooldownMs: envInt("LLM_COOLDOWN_MS", 30000),
+        timeoutMs: envInt("LLM_TIMEOUT_MS", 60000),
+        maxAttempts: envInt("LLM_MAX_ATTEMPTS", 2),
+      },
+    },
+    usage: {
+      dailyTokenBudget: envNonNegInt("TOKEN_BUDGET_DAILY", 0),
+      monthlyTokenBudget: envNonNegInt("TOKEN_BUDGET_MONTHLY", 0),
     },
   };
 }
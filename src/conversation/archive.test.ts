@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { ConversationArchive, validateBundle } from "./archive.js";
+import { ConversationStore } from "./store.js";
+import { MemoryEngine } from "../memory/memoryEngine.js";
+
+describe("ConversationArchive", () => {
+  let dataDir: string;
+  let convStore: ConversationStore;
+  let memory: MemoryEngine;
+  let archive: ConversationArchive;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-archive-"));
+    convStore = new ConversationStore(dataDir);
+    memory = new MemoryEngine(dataDir, convStore, null, { summary: "m", facts: "m" });
+    archive = new ConversationArchive(convStore, memory, { userAddress: "lin@example.com" });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  async function seed(): Promise<string> {
+    const { convId } = await convStore.createConversation("default", "trip");
+    await convStore.append(convId, { role: "user", text: "Plan a trip to 京都", at: "2026-03-01T08:00:00Z" });
+    await convStore.append(convId, {
+      role: "bot",
+      text: "Day 1: temples.\nFrom there, take the train.",
+      at: "2026-03-01T08:00:04Z",
+      msgNo: 1,
+      agentId: "default",
+    });
+    await memory.writeSummary(convId, "Planning a Kyoto trip.");
+    await memory.writeFacts(convId, { destination: "Kyoto" }, { source: "api" });
+    return convId;
+  }
+
+  it("exports Markdown and threaded mbox", async () => {
+    const convId = await seed();
+
+    const md = await archive.export(convId, "md");
+    expect(md).toContain("# Conversation trip");
+    expect(md).toContain("- destination: Kyoto");
+    expect(md).toContain("### default · 2026-03-01T08:00:04Z #1");
+
+    const mbox = await archive.export(convId, "mbox");
+    const messages = mbox.split(/^From (?=\S+ \w{3} \w{3} )/m).filter(Boolean);
+    expect(messages).toHaveLength(2);
+    expect(messages[0]).toContain("Subject: =?UTF-8?B?");
+    expect(messages[0]).not.toContain("In-Reply-To");
+    expect(messages[1]).toContain("In-Reply-To: <trip.0@everybot.local>");
+    expect(messages[1]).toContain("References: <trip.0@everybot.local>");
+    expect(messages[1]).toContain("\n>From there, take the train.");
+    expect(messages[1]).toContain("To: lin@example.com");
+
+    await expect(archive.export("nope", "md")).rejects.toThrow("Unknown conversation: nope");
+  });
+
+  it("round-trips a JSON bundle, renaming on collision", async () => {
+    const convId = await seed();
+    const bundle = JSON.parse(await archive.export(convId, "json"));
+
+    const copy = await archive.import(bundle);
+    expect(copy.renamed).toBe(true);
+    expect(copy.convId).not.toBe(convId);
+    expect(await convStore.getThread(copy.convId, Infinity)).toEqual(await convStore.getThread(convId, Infinity));
+    expect((await convStore.loadMeta(copy.convId)).nextMsgNo).toBe((await convStore.loadMeta(convId)).nextMsgNo);
+    expect(await memory.readFacts(copy.convId)).toEqual({ destination: "Kyoto" });
+    expect(await memory.readSummary(copy.convId)).toBe(await memory.readSummary(convId));
+
+    await expect(archive.import(bundle, { onConflict: "fail" })).rejects.toThrow("Conversation already exists: trip");
+    await fs.rm(path.join(dataDir, "conv", convId), { recursive: true });
+    expect(await archive.import(bundle, { onConflict: "fail" })).toEqual({ convId, renamed: false });
+  });
+
+  it("rejects malformed bundles", () => {
+    expect(() =>
+      validateBundle({ format: "everybot.conversation", version: 1, meta: { convId: "../x" }, thread: [{}] })
+    ).toThrow(/meta.convId.*meta.agentId is required.*thread\[0\]/);
+  });
+
+  it("streams every conversation as tar entries", async () => {
+    await seed();
+    const chunks: Buffer[] = [];
+    for await (const chunk of archive.exportAll()) chunks.push(chunk);
+    const tar = Buffer.concat(chunks);
+    expect(tar.length % 512).toBe(0);
+
+    const header = tar.subarray(0, 512);
+    expect(header.toString("ascii", 0, 100).replace(/\0+$/, "")).toBe("everybot-export/trip.json");
+    const stored = parseInt(header.toString("ascii", 148, 155), 8);
+    const blank = Buffer.concat([header.subarray(0, 148), Buffer.from("        "), header.subarray(156)]);
+    expect(stored).toBe(blank.reduce((sum, b) => sum + b, 0));
+    const size = parseInt(header.toString("ascii", 124, 135), 8);
+    expect(JSON.parse(tar.toString("utf-8", 512, 512 + size)).meta.convId).toBe("trip");
+    expect(tar.subarray(-1024).every((b) => b === 0)).toBe(true);
+  });
+});
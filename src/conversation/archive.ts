@@ -0,0 +1,261 @@
+import { firstLineSummary } from "../core/text.js";
+import type { MemoryEngine } from "../memory/memoryEngine.js";
+import { MAIN_BRANCH, branchPath, resolveTurns } from "./branches.js";
+import type { ConversationStore } from "./store.js";
+import type { ConvMeta, ThreadItem } from "./types.js";
+
+/** Everything stored for one conversation; the unit of export and import. */
+export type ConversationBundle = {
+  format: "everybot.conversation";
+  version: 1;
+  exportedAt: string;
+  meta: ConvMeta;
+  /** Every turn on every branch, in the order written. */
+  thread: ThreadItem[];
+  summary: string;
+  facts: Record<string, unknown>;
+};
+
+export type ExportFormat = "md" | "json" | "mbox";
+/** What importing a conversation whose id is taken does: import under a new id, or refuse. */
+export type ImportConflict = "rename" | "fail";
+
+type MemoryFiles = Pick<MemoryEngine, "readSummary" | "readFacts" | "writeSummary" | "writeFacts">;
+
+const CONV_ID_RE = /^[A-Za-z0-9_-]{1,64}$/;
+const BOT_ADDRESS = "everybot@localhost";
+
+/** Checks an uploaded bundle, or throws with every problem found. */
+export function validateBundle(raw: unknown): ConversationBundle {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("Bundle must be an object");
+  const b = raw as Record<string, unknown>;
+  const problems: string[] = [];
+  if (b.format !== "everybot.conversation" || b.version !== 1) {
+    problems.push('format must be "everybot.conversation" version 1');
+  }
+  const meta = (b.meta ?? {}) as Record<string, unknown>;
+  if (typeof meta.convId !== "string" || !CONV_ID_RE.test(meta.convId)) {
+    problems.push("meta.convId must be 1-64 letters, digits, '-' or '_'");
+  }
+  if (typeof meta.agentId !== "string" || !meta.agentId) problems.push("meta.agentId is required");
+  if (!Array.isArray(b.thread)) {
+    problems.push("thread must be a list");
+  } else {
+    b.thread.forEach((t: unknown, i) => {
+      const item = (t ?? {}) as Record<string, unknown>;
+      if (
+        (item.role !== "user" && item.role !== "bot") ||
+        typeof item.text !== "string" ||
+        typeof item.at !== "string"
+      ) {
+        problems.push(`thread[${i}] needs role (user|bot), text and at`);
+      }
+    });
+  }
+  if (b.summary != null && typeof b.summary !== "string") problems.push("summary must be a string");
+  if (b.facts != null && (typeof b.facts !== "object" || Array.isArray(b.facts)))
+    problems.push("facts must be an object");
+
+  if (problems.length) throw new Error(problems.join("; "));
+  return {
+    ...(b as ConversationBundle),
+    summary: (b.summary as string) ?? "",
+    facts: (b.facts as Record<string, unknown>) ?? {},
+  };
+}
+
+/** Turns of the bundle's active branch; Markdown and mbox show only those. */
+function activeTurns({ meta, thread }: ConversationBundle): ThreadItem[] {
+  return branchPath(resolveTurns(thread, meta), meta, meta.activeBranch ?? MAIN_BRANCH);
+}
+
+function speaker(item: ThreadItem): string {
+  if (item.role === "user") return "User";
+  const agent = item.agentId ?? "bot";
+  return item.delegation ? `${agent} (asked by ${item.delegation.from})` : agent;
+}
+
+/** RFC 2047 encoded-word for non-ASCII header values. */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+/** asctime-style date for the mbox "From " separator line, e.g. "Sat Jan 10 08:00:00 2026". */
+function mboxDate(d: Date): string {
+  const [wd, day, mon, year, time] = d.toUTCString().replace(",", "").split(" ");
+  return `${wd} ${mon} ${day.padStart(2, " ")} ${time} ${year}`;
+}
+
+/** One ustar header block plus the content padded to 512 bytes. */
+function tarEntry(name: string, content: Buffer, mtime: Date): Buffer {
+  const header = Buffer.alloc(512);
+  const field = (value: string, offset: number, length: number) => header.write(value, offset, length, "ascii");
+  const octal = (n: number, length: number) => n.toString(8).padStart(length - 1, "0");
+  field(name, 0, 100);
+  field(octal(0o644, 8), 100, 8);
+  field(octal(0, 8), 108, 8);
+  field(octal(0, 8), 116, 8);
+  field(octal(content.length, 12), 124, 12);
+  field(octal(Math.floor(mtime.getTime() / 1000), 12), 136, 12);
+  field("        ", 148, 8);
+  field("0", 156, 1);
+  field("ustar\u000000", 257, 8);
+  let sum = 0;
+  for (const byte of header) sum += byte;
+  field(`${octal(sum, 7)}\u0000`, 148, 8);
+  const padding = Buffer.alloc((512 - (content.length % 512)) % 512);
+  return Buffer.concat([header, content, padding]);
+}
+
+/** Exports conversations as Markdown, JSON bundles or mbox, and imports JSON bundles. */
+export class ConversationArchive {
+  constructor(
+    private convStore: ConversationStore,
+    private memory: MemoryFiles | null,
+    private opts: { userAddress?: string } = {}
+  ) {}
+
+  async bundle(convId: string): Promise<ConversationBundle> {
+    if (!CONV_ID_RE.test(convId) || !(await this.convStore.exists(convId))) {
+      throw new Error(`Unknown conversation: ${convId}`);
+    }
+    return {
+      format: "everybot.conversation",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      meta: await this.convStore.loadMeta(convId),
+      thread: await this.convStore.allTurns(convId),
+      summary: (await this.memory?.readSummary(convId)) ?? "",
+      facts: (await this.memory?.readFacts(convId)) ?? {},
+    };
+  }
+
+  async export(convId: string, format: ExportFormat): Promise<string> {
+    const bundle = await this.bundle(convId);
+    if (format === "json") return JSON.stringify(bundle, null, 2);
+    return format === "md" ? this.toMarkdown(bundle) : this.toMbox(bundle);
+  }
+
+  toMarkdown(bundle: ConversationBundle): string {
+    const { meta, summary, facts } = bundle;
+    const thread = activeTurns(bundle);
+    const lines = [
+      `# Conversation ${meta.convId}`,
+      "",
+      `- Agent: ${meta.agentId}`,
+      `- Created: ${meta.createdAt}`,
+      `- Updated: ${meta.updatedAt}`,
+      "",
+    ];
+    if (summary.trim()) lines.push("## Summary", "", summary.trim(), "");
+    const factEntries = Object.entries(facts);
+    if (factEntries.length) {
+      lines.push(
+        "## Facts",
+        "",
+        ...factEntries.map(([k, v]) => `- ${k}: ${typeof v === "string" ? v : JSON.stringify(v)}`),
+        ""
+      );
+    }
+    lines.push("## Transcript", "");
+    for (const item of thread) {
+      const no = item.msgNo != null ? ` #${item.msgNo}` : "";
+      lines.push(
+        `### ${speaker(item)} · ${item.at}${no}${item.partial ? " (interrupted)" : ""}`,
+        "",
+        item.text.trim(),
+        ""
+      );
+      for (const step of item.tools ?? []) lines.push(`> tool \`${step.tool}\`: ${step.result}`);
+      if (item.tools?.length) lines.push("");
+    }
+    return lines.join("\n");
+  }
+
+  /** One message per turn, threaded with Message-ID / In-Reply-To / References (mboxrd quoting). */
+  toMbox(bundle: ConversationBundle): string {
+    const { meta } = bundle;
+    const thread = activeTurns(bundle);
+    const user = this.opts.userAddress || "user@localhost";
+    const firstUser = thread.find((t) => t.role === "user");
+    const subject = firstLineSummary(firstUser?.text || `Conversation ${meta.convId}`);
+    const ids: string[] = [];
+    const out: string[] = [];
+
+    thread.forEach((item, i) => {
+      const id = item.emailId ? `<${item.emailId.replace(/^<|>$/g, "")}>` : `<${meta.convId}.${i}@everybot.local>`;
+      const bot = `"EveryBot${item.agentId ? ` (${item.agentId})` : ""}" <${BOT_ADDRESS}>`;
+      const date = new Date(item.at);
+      const headers = [
+        `From ${item.role === "user" ? user : BOT_ADDRESS} ${mboxDate(date)}`,
+        `From: ${item.role === "user" ? user : bot}`,
+        `To: ${item.role === "user" ? bot : user}`,
+        `Subject: ${encodeHeader(i === 0 ? subject : `Re: ${subject}`)}`,
+        `Date: ${date.toUTCString()}`,
+        `Message-ID: ${id}`,
+        ...(ids.length ? [`In-Reply-To: ${ids[ids.length - 1]}`, `References: ${ids.join(" ")}`] : []),
+        "MIME-Version: 1.0",
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: 8bit",
+        `X-EveryBot-Conversation: ${meta.convId}`,
+      ];
+      const body = item.text.replace(/\r\n/g, "\n").replace(/^(>*From )/gm, ">$1");
+      out.push(...headers, "", body, "");
+      ids.push(id);
+    });
+    return out.join("\n");
+  }
+
+  /**
+   * Imports a bundle as a new conversation. Turns go through `ConversationStore.append`, so listeners
+   * such as the search index see them. A taken id is replaced by a fresh one unless `onConflict` is "fail".
+   */
+  async import(
+    raw: unknown,
+    opts: { onConflict?: ImportConflict } = {}
+  ): Promise<{ convId: string; renamed: boolean }> {
+    const bundle = validateBundle(raw);
+    const taken = await this.convStore.exists(bundle.meta.convId);
+    if (taken && opts.onConflict === "fail") throw new Error(`Conversation already exists: ${bundle.meta.convId}`);
+
+    const created = await this.convStore.createConversation(
+      bundle.meta.agentId,
+      taken ? undefined : bundle.meta.convId
+    );
+    const meta: ConvMeta = {
+      ...created,
+      ...(typeof bundle.meta.nextMsgNo === "number" ? { nextMsgNo: bundle.meta.nextMsgNo } : {}),
+      ...(typeof bundle.meta.createdAt === "string" ? { createdAt: bundle.meta.createdAt } : {}),
+      ...(typeof bundle.meta.title === "string"
+        ? { title: bundle.meta.title, titleSource: bundle.meta.titleSource }
+        : {}),
+      ...(Array.isArray(bundle.meta.tags) ? { tags: bundle.meta.tags } : {}),
+      ...(bundle.meta.pinned === true ? { pinned: true } : {}),
+      ...(bundle.meta.archived === true ? { archived: true } : {}),
+      ...(Array.isArray(bundle.meta.branches) ? { branches: bundle.meta.branches } : {}),
+      ...(typeof bundle.meta.activeBranch === "string" ? { activeBranch: bundle.meta.activeBranch } : {}),
+    };
+    // Turns keep their own branch ids, so the branches only become active once every turn is in.
+    for (const item of bundle.thread) await this.convStore.append(meta.convId, item);
+    await this.convStore.saveMeta(meta);
+    if (this.memory && bundle.summary.trim()) await this.memory.writeSummary(meta.convId, bundle.summary);
+    if (this.memory && Object.keys(bundle.facts).length) {
+      await this.memory.writeFacts(meta.convId, bundle.facts, { source: "import" });
+    }
+    return { convId: meta.convId, renamed: taken };
+  }
+
+  /** Every conversation as `everybot-export/<convId>.json`, yielded as tar blocks one conversation at a time. */
+  async *exportAll(): AsyncGenerator<Buffer> {
+    for (const { convId } of await this.convStore.listConversations()) {
+      const bundle = await this.bundle(convId);
+      const mtime = new Date(bundle.meta.updatedAt);
+      yield tarEntry(
+        `everybot-export/${convId}.json`,
+        Buffer.from(JSON.stringify(bundle, null, 2), "utf-8"),
+        Number.isNaN(mtime.getTime()) ? new Date() : mtime
+      );
+    }
+    yield Buffer.alloc(1024);
+  }
+}
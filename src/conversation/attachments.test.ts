@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createHash } from "node:crypto";
+import { WorkspaceFS } from "../core/workspaceFs.js";
+import { AttachmentStore, extractText, parseUploads } from "./attachments.js";
+
+describe("extractText", () => {
+  it("reads text, Markdown, CSV and JSON by type or extension, and nothing else", () => {
+    const data = Buffer.from("\uFEFFa,b\n1,2\n");
+    expect(extractText({ name: "t.csv", mimeType: "text/csv; charset=utf-8" }, data)).toBe("a,b\n1,2\n");
+    expect(extractText({ name: "notes.md", mimeType: "application/octet-stream" }, Buffer.from("# Hi"))).toBe("# Hi");
+    expect(extractText({ name: "x", mimeType: "application/json" }, Buffer.from("{}"))).toBe("{}");
+    expect(extractText({ name: "p.pdf", mimeType: "application/pdf" }, Buffer.from("%PDF"))).toBeNull();
+    expect(extractText({ name: "b.txt", mimeType: "text/plain" }, Buffer.from([0x61, 0, 0x62]))).toBeNull();
+  });
+});
+
+describe("parseUploads", () => {
+  it("decodes base64 files and rejects bad or oversized ones", () => {
+    expect(parseUploads(undefined, 10)).toEqual([]);
+    expect(parseUploads([{ name: "a.txt", data: Buffer.from("hi").toString("base64") }], 10)).toEqual([
+      { name: "a.txt", mimeType: undefined, data: Buffer.from("hi") },
+    ]);
+    expect(() => parseUploads({}, 10)).toThrow("attachments must be a list");
+    expect(() => parseUploads([{ data: "" }], 10)).toThrow("attachments[0].name");
+    expect(() => parseUploads([{ name: "a", data: Buffer.alloc(11).toString("base64") }], 10)).toThrow(
+      "Attachment too large"
+    );
+  });
+});
+
+describe("AttachmentStore", () => {
+  let dataDir: string;
+  let store: AttachmentStore;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-attachments-"));
+    store = new AttachmentStore(dataDir, new WorkspaceFS(path.join(dataDir, "workspace")), {
+      maxBytes: 1000,
+      maxTextChars: 8,
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("stores files under the conversation by content hash and gives the agent their text", async () => {
+    const data = Buffer.from("line one\nline two\n");
+    const att = await store.save("C1", { name: "../../notes.txt", mimeType: "text/plain", data });
+    const sha256 = createHash("sha256").update(data).digest("hex");
+    expect(att).toEqual({
+      name: "notes.txt",
+      mimeType: "text/plain",
+      size: data.byteLength,
+      sha256,
+      source: "conversation",
+      path: `attachments/${sha256.slice(0, 12)}-notes.txt`,
+    });
+    expect(await fs.readFile(path.join(dataDir, "conv", "C1", att.path), "utf-8")).toBe("line one\nline two\n");
+    expect(await store.save("C1", { name: "notes.txt", data })).toMatchObject({ path: att.path });
+
+    const image = await store.save("C1", { name: "cat.png", data: Buffer.from([1, 2, 3]) });
+    expect(image.mimeType).toBe("image/png");
+    expect(await store.agentInput("C1", "see files", [att, image])).toBe(
+      [
+        "see files",
+        `[Attachment: notes.txt (text/plain, ${data.byteLength} bytes)]\nline one\n[truncated]`,
+        "[Attachment: cat.png (image/png, 3 bytes)]",
+      ].join("\n\n")
+    );
+
+    await expect(store.save("C1", { name: "big.bin", data: Buffer.alloc(1001) })).rejects.toThrow("too large");
+    await expect(store.read("C1", { ...att, path: "../meta.json" })).rejects.toThrow("Invalid attachment path");
+  });
+
+  it("references workspace files without copying them", async () => {
+    await fs.mkdir(path.join(dataDir, "workspace", "out"), { recursive: true });
+    await fs.writeFile(path.join(dataDir, "workspace", "out", "report.md"), "# Report");
+    const att = await store.fromWorkspace("out/report.md");
+    expect(att).toMatchObject({ name: "report.md", mimeType: "text/markdown", size: 8, source: "workspace" });
+    expect((await store.read("C1", att)).toString()).toBe("# Report");
+    await expect(store.fromWorkspace("../secret.txt")).rejects.toThrow("Path escapes workspace");
+  });
+});
@@ -0,0 +1,154 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { WorkspaceFS } from "../core/workspaceFs.js";
+import type { Attachment } from "./types.js";
+
+/** A file as it arrives from mail or a web upload. */
+export type IncomingFile = { name: string; mimeType?: string; data: Buffer };
+
+export type AttachmentLimits = {
+  /** Larger files are refused. */
+  maxBytes: number;
+  /** Extracted text per file that goes into the agent's context. */
+  maxTextChars: number;
+};
+
+const MIME_TYPES: Record<string, string> = {
+  ".txt": "text/plain",
+  ".md": "text/markdown",
+  ".markdown": "text/markdown",
+  ".csv": "text/csv",
+  ".json": "application/json",
+  ".html": "text/html",
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".zip": "application/zip",
+};
+
+const TEXT_TYPES = new Set(["text/plain", "text/markdown", "text/x-markdown", "text/csv", "application/json"]);
+/** Mail clients often send these as application/octet-stream. */
+const TEXT_EXTENSIONS = new Set([".txt", ".md", ".markdown", ".csv", ".json"]);
+
+export function mimeTypeFor(name: string): string {
+  return MIME_TYPES[path.extname(name).toLowerCase()] ?? "application/octet-stream";
+}
+
+/** The file name without directories or characters that are awkward on disk; never empty. */
+function safeName(name: string): string {
+  const base = path.posix
+    .basename(name.replace(/\\/g, "/"))
+    .replace(/[^\w.\- ]+/g, "_")
+    .replace(/^[.\s]+/, "")
+    .slice(-100);
+  return base || "file";
+}
+
+function sha256Of(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Text of a plain-text, Markdown, CSV or JSON file; null for other types and for binary content. */
+export function extractText(att: Pick<Attachment, "name" | "mimeType">, data: Buffer): string | null {
+  const type = att.mimeType.split(";")[0].trim().toLowerCase();
+  if (!TEXT_TYPES.has(type) && !TEXT_EXTENSIONS.has(path.extname(att.name).toLowerCase())) return null;
+  if (data.includes(0)) return null;
+  return data.toString("utf-8").replace(/^\uFEFF/, "");
+}
+
+/** Checks the `attachments` of a chat body: `[{ name, mimeType?, data }]` with base64 data. */
+export function parseUploads(raw: unknown, maxBytes: number): IncomingFile[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) throw new Error("attachments must be a list");
+  return raw.map((a: unknown, i) => {
+    const f = (a && typeof a === "object" ? a : {}) as Record<string, unknown>;
+    if (typeof f.name !== "string" || !f.name.trim())
+      throw new Error(`attachments[${i}].name must be a non-empty string`);
+    if (f.mimeType !== undefined && typeof f.mimeType !== "string") {
+      throw new Error(`attachments[${i}].mimeType must be a string`);
+    }
+    if (typeof f.data !== "string") throw new Error(`attachments[${i}].data must be a base64 string`);
+    const data = Buffer.from(f.data, "base64");
+    if (data.byteLength > maxBytes) throw new Error(`Attachment too large: ${f.name} (${data.byteLength} bytes)`);
+    return { name: f.name, mimeType: f.mimeType || undefined, data };
+  });
+}
+
+/**
+ * Files of conversations: uploads and inbound mail attachments are stored under
+ * data/conv/<convId>/attachments (named by content hash, so a resent file is stored once);
+ * workspace files are only referenced, e.g. when a reply attaches one.
+ */
+export class AttachmentStore {
+  constructor(
+    private dataDir: string,
+    private workspaceFs: WorkspaceFS,
+    readonly limits: AttachmentLimits
+  ) {}
+
+  private convDir(convId: string): string {
+    return path.join(this.dataDir, "conv", convId);
+  }
+
+  async save(convId: string, file: IncomingFile): Promise<Attachment> {
+    const size = file.data.byteLength;
+    if (size > this.limits.maxBytes) throw new Error(`Attachment too large: ${file.name} (${size} bytes)`);
+    const sha256 = sha256Of(file.data);
+    const name = safeName(file.name);
+    const rel = `attachments/${sha256.slice(0, 12)}-${name}`;
+    await fs.mkdir(path.join(this.convDir(convId), "attachments"), { recursive: true });
+    await fs.writeFile(path.join(this.convDir(convId), rel), file.data);
+    return { name, mimeType: file.mimeType || mimeTypeFor(name), size, sha256, source: "conversation", path: rel };
+  }
+
+  /** References a workspace file; throws when it is missing, outside the workspace or too large. */
+  async fromWorkspace(userPath: string): Promise<Attachment> {
+    const data = await this.workspaceFs.readBytes(userPath, this.limits.maxBytes);
+    const rel = path.posix.normalize(userPath.replace(/\\/g, "/"));
+    const name = path.posix.basename(rel);
+    return {
+      name,
+      mimeType: mimeTypeFor(name),
+      size: data.byteLength,
+      sha256: sha256Of(data),
+      source: "workspace",
+      path: rel,
+    };
+  }
+
+  async read(convId: string, att: Attachment): Promise<Buffer> {
+    if (att.source === "workspace") return this.workspaceFs.readBytes(att.path, this.limits.maxBytes);
+    const dir = path.join(this.convDir(convId), "attachments");
+    const file = path.resolve(this.convDir(convId), att.path);
+    const rel = path.relative(dir, file);
+    if (!rel || rel.startsWith("..") || path.isAbsolute(rel)) throw new Error(`Invalid attachment path: ${att.path}`);
+    return fs.readFile(file);
+  }
+
+  /**
+   * The message as the agent gets it: the user's text, then a header per file and the extracted text of
+   * text files (cut at `maxTextChars`). Other files are only named.
+   */
+  async agentInput(convId: string, text: string, attachments: Attachment[] = []): Promise<string> {
+    const parts = text ? [text] : [];
+    for (const att of attachments) {
+      const head = `[Attachment: ${att.name} (${att.mimeType}, ${att.size} bytes)]`;
+      let content: string | null;
+      try {
+        content = extractText(att, await this.read(convId, att));
+      } catch {
+        content = null;
+      }
+      if (content === null) {
+        parts.push(head);
+        continue;
+      }
+      const max = this.limits.maxTextChars;
+      parts.push(`${head}\n${content.length > max ? content.slice(0, max) + "\n[truncated]" : content}`);
+    }
+    return parts.join("\n\n");
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { ConversationStore } from "./store.js";
+
+describe("conversation branches", () => {
+  let dataDir: string;
+  let convStore: ConversationStore;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-branches-"));
+    convStore = new ConversationStore(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  async function say(convId: string, role: "user" | "bot", text: string): Promise<string> {
+    await convStore.append(convId, { role, text, at: new Date().toISOString() });
+    return (await convStore.getThread(convId, 1))[0].id!;
+  }
+
+  it("reads turns written before branching as a chain on main", async () => {
+    const { convId } = await convStore.createConversation("default", "old");
+    const lines = ["hi", "hello", "bye"].map((text, i) =>
+      JSON.stringify({ role: i % 2 ? "bot" : "user", text, at: "2026-01-01T00:00:00Z" })
+    );
+    await fs.writeFile(path.join(dataDir, "conv", convId, "thread.jsonl"), lines.join("\n") + "\n");
+    await say(convId, "bot", "see you");
+
+    const thread = await convStore.getThread(convId);
+    expect(thread.map((t) => [t.id?.startsWith("L") ? t.id : "new", t.parentId, t.branchId])).toEqual([
+      ["L0", null, "main"],
+      ["L1", "L0", "main"],
+      ["L2", "L1", "main"],
+      ["new", "L2", "main"],
+    ]);
+  });
+
+  it("regenerates and edits on new branches and switches between them", async () => {
+    const { convId } = await convStore.createConversation("default");
+    const q1 = await say(convId, "user", "q1");
+    await say(convId, "bot", "a1");
+    await say(convId, "user", "q2");
+    const bad = await say(convId, "bot", "bad answer");
+
+    const regen = await convStore.startBranch(convId, bad, "regenerate");
+    expect(regen).toMatchObject({ previous: "main", userTurn: { text: "q2" }, branch: { from: "main" } });
+    expect((await convStore.getThread(convId)).map((t) => t.text)).toEqual(["q1", "a1", "q2"]);
+    await say(convId, "bot", "good answer");
+    expect((await convStore.getThread(convId)).map((t) => t.text)).toEqual(["q1", "a1", "q2", "good answer"]);
+
+    const edit = await convStore.startBranch(convId, q1, "edit");
+    expect(edit.branch.parentId).toBeNull();
+    expect(await convStore.getThread(convId)).toEqual([]);
+    await say(convId, "user", "q1 reworded");
+    expect((await convStore.getThread(convId)).map((t) => t.text)).toEqual(["q1 reworded"]);
+
+    await convStore.setActiveBranch(convId, "main");
+    await say(convId, "user", "q3");
+    expect((await convStore.getThread(convId)).map((t) => t.text)).toEqual(["q1", "a1", "q2", "bad answer", "q3"]);
+    expect((await convStore.getThread(convId, 50, regen.branch.id)).at(-1)?.text).toBe("good answer");
+
+    const { activeBranch, branches } = await convStore.listBranches(convId);
+    expect(activeBranch).toBe("main");
+    expect(branches.map((b) => [b.id === "main" ? "main" : b.reason, b.turns, b.preview, b.active])).toEqual([
+      ["main", 5, "q3", true],
+      ["regenerate", 4, "good answer", false],
+      ["edit", 1, "q1 reworded", false],
+    ]);
+    expect((await convStore.allTurns(convId)).length).toBe(7);
+
+    await expect(convStore.startBranch(convId, q1, "regenerate")).rejects.toThrow("Only bot turns");
+    await expect(convStore.startBranch(convId, "nope", "edit")).rejects.toThrow("Unknown turn: nope");
+    await expect(convStore.setActiveBranch(convId, "b123")).rejects.toThrow("Unknown branch: b123");
+  });
+});
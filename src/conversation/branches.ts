@@ -0,0 +1,37 @@
+import type { ConvMeta, ThreadItem } from "./types.js";
+
+export const MAIN_BRANCH = "main";
+
+/**
+ * Fills in `id`, `branchId` and `parentId` for the lines of a thread file, the first of them being line
+ * `firstLine`. A turn follows the previous turn of its branch, or the branch's fork point when it is the
+ * branch's first turn.
+ */
+export function resolveTurns(items: ThreadItem[], meta: Pick<ConvMeta, "branches">, firstLine = 0): ThreadItem[] {
+  const heads = new Map<string, string | null>();
+  for (const b of meta.branches ?? []) heads.set(b.id, b.parentId);
+  return items.map((item, i) => {
+    const id = item.id ?? `L${firstLine + i}`;
+    const branchId = item.branchId ?? MAIN_BRANCH;
+    const parentId = item.parentId !== undefined ? item.parentId : (heads.get(branchId) ?? null);
+    heads.set(branchId, id);
+    return { ...item, id, branchId, parentId };
+  });
+}
+
+/** Resolved turns from the start of the conversation to the newest turn of `branchId`. */
+export function branchPath(turns: ThreadItem[], meta: Pick<ConvMeta, "branches">, branchId: string): ThreadItem[] {
+  const byId = new Map(turns.map((t) => [t.id, t]));
+  const own = turns.filter((t) => t.branchId === branchId);
+  let headId = own.length ? own[own.length - 1].id : meta.branches?.find((b) => b.id === branchId)?.parentId;
+  const path: ThreadItem[] = [];
+  const seen = new Set<string>();
+  while (headId && !seen.has(headId)) {
+    seen.add(headId);
+    const turn = byId.get(headId);
+    if (!turn) break;
+    path.push(turn);
+    headId = turn.parentId;
+  }
+  return path.reverse();
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { ConversationTitler, validateMetaPatch } from "./metadata.js";
+import { ConversationStore } from "./store.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+
+describe("validateMetaPatch", () => {
+  it("normalizes titles and tags and reports every problem at once", () => {
+    expect(validateMetaPatch({ title: "  Trip   plans ", tags: ["travel", " travel", "2026"], pinned: true })).toEqual({
+      title: "Trip plans",
+      tags: ["travel", "2026"],
+      pinned: true,
+    });
+    expect(validateMetaPatch({ title: "" })).toEqual({ title: null });
+    expect(() => validateMetaPatch({ title: 3, tags: [""], archived: "yes", color: "red" })).toThrow(
+      /unknown field "color".*title must be a string or null.*tags must be.*archived must be true or false/
+    );
+  });
+});
+
+describe("conversation metadata", () => {
+  let dataDir: string;
+  let convStore: ConversationStore;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-meta-"));
+    convStore = new ConversationStore(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  async function chat(text: string, reply = "ok"): Promise<string> {
+    const { convId } = await convStore.createConversation("default");
+    await convStore.append(convId, { role: "user", text, at: new Date().toISOString() });
+    await convStore.append(convId, { role: "bot", text: reply, at: new Date().toISOString() });
+    return convId;
+  }
+
+  it("titles from the model, falls back to the first line and keeps user titles", async () => {
+    const provider = new MockProvider([
+      { match: { system: "short titles" }, response: { text: '"Kyoto itinerary."' } },
+    ]);
+    const titler = new ConversationTitler(convStore, provider, "title");
+    const trip = await chat("Plan three days in Kyoto for me", "Day 1: ...");
+    expect(await titler.ensureTitle(trip)).toBe("Kyoto itinerary");
+    expect(await convStore.loadMeta(trip)).toMatchObject({ title: "Kyoto itinerary", titleSource: "auto" });
+    expect(provider.requests.at(-1)?.attribution?.purpose).toBe("title");
+
+    const offline = new ConversationTitler(convStore, null, "title");
+    const notes = await chat("Shopping list\nmilk, eggs");
+    expect(await offline.ensureTitle(notes)).toBe("Shopping list");
+
+    await convStore.updateMeta(notes, { title: "Groceries" });
+    expect(await offline.ensureTitle(notes)).toBe("Groceries");
+    expect((await convStore.loadMeta(notes)).titleSource).toBe("user");
+  });
+
+  it("filters and sorts the conversation list and deletes conversations", async () => {
+    const a = await chat("alpha");
+    const b = await chat("beta");
+    const c = await chat("gamma");
+    await convStore.updateMeta(a, { title: "Zebra facts", tags: ["Work"] });
+    await convStore.updateMeta(b, { title: "Apple pie", archived: true });
+    await convStore.updateMeta(c, { title: "Mango", pinned: true, tags: ["work", "home"] });
+    // explicit times: back-to-back writes often share a millisecond
+    const stamp = async (convId: string, at: string) => {
+      const file = path.join(dataDir, "conv", convId, "meta.json");
+      const meta = JSON.parse(await fs.readFile(file, "utf-8"));
+      await fs.writeFile(file, JSON.stringify({ ...meta, createdAt: at, updatedAt: at }));
+    };
+    await stamp(a, "2026-03-01T10:00:00.000Z");
+    await stamp(b, "2026-03-01T11:00:00.000Z");
+    await stamp(c, "2026-03-01T12:00:00.000Z");
+
+    const ids = async (q: Parameters<ConversationStore["listConversations"]>[0]) =>
+      (await convStore.listConversations(q)).map((m) => m.title);
+    expect(await ids({ archived: false })).toEqual(["Mango", "Zebra facts"]);
+    expect(await ids({ sort: "title" })).toEqual(["Apple pie", "Mango", "Zebra facts"]);
+    expect(await ids({ sort: "title", archived: false, pinnedFirst: true })).toEqual(["Mango", "Zebra facts"]);
+    expect(await ids({ tag: "WORK", sort: "created", order: "asc" })).toEqual(["Zebra facts", "Mango"]);
+    expect(await ids({ q: "pie" })).toEqual(["Apple pie"]);
+
+    // equal times fall back to the conversation id
+    for (const convId of [a, b, c]) await stamp(convId, "2026-03-02T00:00:00.000Z");
+    const byId = [a, b, c].sort().reverse();
+    expect((await convStore.listConversations({})).map((m) => m.convId)).toEqual(byId);
+
+    const deleted: string[] = [];
+    convStore.onDelete((convId) => deleted.push(convId));
+    expect(await convStore.deleteConversation(b)).toBe(true);
+    expect(await convStore.deleteConversation(b)).toBe(false);
+    expect(deleted).toEqual([b]);
+    await expect(fs.access(path.join(dataDir, "conv", b))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,113 @@
+import type { LLMProvider } from "../core/llmProvider.js";
+import { firstLineSummary } from "../core/text.js";
+import type { ConversationStore, MetaUpdate } from "./store.js";
+
+const MAX_TITLE = 120;
+const MAX_TAG = 40;
+const MAX_TAGS = 20;
+const FIELDS = ["title", "tags", "pinned", "archived"];
+
+/** Checks a metadata update from the API, or throws with every problem found. */
+export function validateMetaPatch(raw: unknown): MetaUpdate {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("Body must be an object");
+  const b = raw as Record<string, unknown>;
+  const problems: string[] = [];
+  const update: MetaUpdate = {};
+
+  for (const key of Object.keys(b)) {
+    if (!FIELDS.includes(key)) problems.push(`unknown field "${key}" (expected ${FIELDS.join(", ")})`);
+  }
+  if (b.title !== undefined) {
+    const title = typeof b.title === "string" ? b.title.replace(/\s+/g, " ").trim() : b.title;
+    if (title !== null && typeof title !== "string") problems.push("title must be a string or null");
+    else if (title && title.length > MAX_TITLE) problems.push(`title must be at most ${MAX_TITLE} characters`);
+    else update.title = title || null;
+  }
+  if (b.tags !== undefined) {
+    const tags = Array.isArray(b.tags) ? b.tags : null;
+    if (!tags || tags.some((t) => typeof t !== "string" || !t.trim() || t.trim().length > MAX_TAG)) {
+      problems.push(`tags must be a list of non-empty strings of at most ${MAX_TAG} characters`);
+    } else {
+      const unique = [...new Set((tags as string[]).map((t) => t.trim()))];
+      if (unique.length > MAX_TAGS) problems.push(`at most ${MAX_TAGS} tags`);
+      else update.tags = unique;
+    }
+  }
+  for (const key of ["pinned", "archived"] as const) {
+    if (b[key] === undefined) continue;
+    if (typeof b[key] !== "boolean") problems.push(`${key} must be true or false`);
+    else update[key] = b[key];
+  }
+
+  if (problems.length) throw new Error(problems.join("; "));
+  return update;
+}
+
+/**
+ * Titles conversations after their first exchange: a few words from the title model, or the first line of
+ * the first message when there is no model or it fails. Titles the user set are never replaced.
+ */
+export class ConversationTitler {
+  private running = new Set<string>();
+
+  constructor(
+    private convStore: ConversationStore,
+    private provider: LLMProvider | null,
+    private model: string
+  ) {}
+
+  /** Returns the conversation's title, writing one first if it has none; null before the first user turn. */
+  async ensureTitle(convId: string): Promise<string | null> {
+    const meta = await this.convStore.loadMeta(convId);
+    if (meta.title) return meta.title;
+    if (this.running.has(convId)) return null;
+    this.running.add(convId);
+    try {
+      const thread = await this.convStore.getThread(convId, Infinity);
+      const firstUser = thread.find((t) => t.role === "user");
+      if (!firstUser) return null;
+      const firstBot = thread.find((t) => t.role === "bot");
+      let title = "";
+      try {
+        title = await this.fromModel(convId, firstUser.text, firstBot?.text);
+      } catch {
+        // a failed title call falls back to the first line
+      }
+      title ||= firstLineSummary(firstUser.text);
+      if (!title) return null;
+
+      // the user may have named it while the model was thinking
+      const latest = await this.convStore.loadMeta(convId);
+      if (latest.title) return latest.title;
+      await this.convStore.updateMeta(convId, { title }, "auto");
+      return title;
+    } finally {
+      this.running.delete(convId);
+    }
+  }
+
+  private async fromModel(convId: string, user: string, bot?: string): Promise<string> {
+    if (!this.provider) return "";
+    const res = await this.provider.chat({
+      model: this.model,
+      attribution: { convId, purpose: "title" },
+      messages: [
+        {
+          role: "system",
+          content: [
+            "You write short titles for chat conversations.",
+            "Reply with the title only: at most 8 words, no quotes, in the language of the conversation.",
+          ].join("\n"),
+        },
+        {
+          role: "user",
+          content: [`User: ${user.slice(0, 1000)}`, bot ? `Assistant: ${bot.slice(0, 1000)}` : ""].join("\n"),
+        },
+      ],
+      temperature: 0.2,
+      max_tokens: 30,
+    });
+    const line = firstLineSummary(res.text.replace(/^(title:\s*)/i, ""), 80);
+    return line.replace(/^["'“「]+|["'”」.。]+$/g, "").trim();
+  }
+}
@@ -1,29 +1,17 @@
-import fs from "node:fs/promises";
-import path from "node:path";
+import { FileProcessedRepo } from "../storage/fileStorage.js";
+import type { ProcessedRepo } from "../storage/types.js";
 
 export class ProcessedStore {
-  private seen = new Set<string>();
-  private filePath: string;
+  /** Key -> when it was added. */
+  private seen = new Map<string, string>();
 
-  constructor(dataDir: string) {
-    this.filePath = path.join(dataDir, "inbox_processed.jsonl");
-  }
+  constructor(
+    dataDir: string,
+    private repo: ProcessedRepo = new FileProcessedRepo(dataDir)
+  ) {}
 
   async load(): Promise<void> {
-    try {
-      const raw = await fs.readFile(this.filePath, "utf-8");
-      for (const line of raw.split(/\r?\n/)) {
-        if (!line.trim()) continue;
-        try {
-          const obj = JSON.parse(line) as { key?: string };
-          if (obj && typeof obj.key === "string") this.seen.add(obj.key);
-        } catch {
-          // skip malformed
-        }
-      }
-    } catch {
-      // first run
-    }
+    for (const { key, at } of await this.repo.load()) this.seen.set(key, at);
   }
 
   has(key: string): boolean {
@@ -32,11 +20,14 @@ export class ProcessedStore {
 
   async add(key: string): Promise<void> {
     if (this.seen.has(key)) return;
-    this.seen.add(key);
-    await fs.appendFile(
-      this.filePath,
-      JSON.stringify({ key, at: new Date().toISOString() }) + "\n",
-      "utf-8"
-    );
+    const at = new Date().toISOString();
+    this.seen.set(key, at);
+    await this.repo.addKey(key, at);
+  }
+
+  /** Forgets keys added before `before` (ISO time), which the mailbox no longer holds; returns how many. */
+  async prune(before: string): Promise<number> {
+    for (const [key, at] of this.seen) if (at < before) this.seen.delete(key);
+    return this.repo.pruneBefore(before);
   }
 }
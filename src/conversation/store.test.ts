@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { ConversationStore } from "./store.js";
+
+describe("ConversationStore under concurrent writers", () => {
+  let dataDir: string;
+  let convStore: ConversationStore;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-store-"));
+    convStore = new ConversationStore(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("hands out every msgNo once and loses no meta update", async () => {
+    const { convId } = await convStore.createConversation("default");
+    const [numbers] = await Promise.all([
+      Promise.all(Array.from({ length: 20 }, () => convStore.nextBotMsgNo(convId))),
+      convStore.updateMeta(convId, { title: "Busy" }),
+      convStore.updateMeta(convId, { tags: ["load"] }),
+      convStore.mutateMeta(convId, (m) => {
+        m.agentId = "files";
+      }),
+    ]);
+    expect([...numbers].sort((a, b) => a - b)).toEqual(Array.from({ length: 20 }, (_, i) => i + 1));
+    expect(await convStore.loadMeta(convId)).toMatchObject({
+      nextMsgNo: 21,
+      title: "Busy",
+      tags: ["load"],
+      agentId: "files",
+    });
+    expect((await fs.readdir(path.join(dataDir, "conv", convId))).filter((f) => f.endsWith(".tmp"))).toEqual([]);
+  });
+
+  it("appends whole lines and reports them in file order", async () => {
+    const { convId } = await convStore.createConversation("default");
+    const seen: string[] = [];
+    convStore.onAppend((_, item) => seen.push(item.text));
+    const texts = Array.from({ length: 30 }, (_, i) => `turn ${i} ${"x".repeat(2000)}`);
+    await Promise.all(
+      texts.map((text) => convStore.append(convId, { role: "user", text, at: "2026-01-01T00:00:00Z" }))
+    );
+
+    const thread = await convStore.getThread(convId, Infinity);
+    expect(thread.map((t) => t.text)).toEqual(seen);
+    expect(new Set(seen)).toEqual(new Set(texts));
+  });
+
+  it("runs turns of one conversation one after another", async () => {
+    const order: string[] = [];
+    const turn = (convId: string, name: string, ms: number) =>
+      convStore.withLock(convId, async () => {
+        order.push(`${name}>`);
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        order.push(`<${name}`);
+      });
+    await Promise.all([turn("C1", "web", 20), turn("C1", "mail", 1), turn("C2", "other", 1)]);
+    expect(order).toEqual(["web>", "other>", "<other", "<web", "mail>", "<mail"]);
+  });
+});
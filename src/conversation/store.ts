@@ -1,31 +1,64 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { randomBytes } from "node:crypto";
-import type { ConvMeta, ThreadItem } from "./types.js";
+import { firstLineSummary } from "../core/text.js";
+import { KeyedMutex } from "../core/keyedMutex.js";
+import { FileConversationRepo } from "../storage/fileStorage.js";
+import type { ConversationRepo } from "../storage/types.js";
+import { MAIN_BRANCH, branchPath, resolveTurns } from "./branches.js";
+import type { Attachment, BranchInfo, ConvMeta, ConversationQuery, ThreadItem } from "./types.js";
 
 function randomConvId(): string {
   return randomBytes(5).toString("hex").toUpperCase();
 }
 
-export class ConversationStore {
-  constructor(private dataDir: string) {}
+function randomId(prefix: string): string {
+  return prefix + randomBytes(4).toString("hex");
+}
 
-  private convDir(convId: string): string {
-    return path.join(this.dataDir, "conv", convId);
-  }
+export type BranchSummary = {
+  id: string;
+  parentId: string | null;
+  from?: string;
+  reason?: BranchInfo["reason"];
+  createdAt: string;
+  active: boolean;
+  /** Turns from the start of the conversation to the branch's newest turn. */
+  turns: number;
+  /** First line of the branch's newest turn. */
+  preview?: string;
+};
 
-  private metaPath(convId: string): string {
-    return path.join(this.convDir(convId), "meta.json");
-  }
+export type AppendListener = (convId: string, item: ThreadItem) => void;
+export type DeleteListener = (convId: string) => void;
+/** Gets the turns that stayed in a compacted thread. */
+export type CompactListener = (convId: string, kept: ThreadItem[]) => void;
 
-  private threadPath(convId: string): string {
-    return path.join(this.convDir(convId), "thread.jsonl");
-  }
+/** Fields the user can change; a null or empty title clears it so it is generated again. */
+export type MetaUpdate = {
+  title?: string | null;
+  tags?: string[];
+  pinned?: boolean;
+  archived?: boolean;
+};
+
+export class ConversationStore {
+  private listeners: AppendListener[] = [];
+  private deleteListeners: DeleteListener[] = [];
+  private compactListeners: CompactListener[] = [];
+  /** Whole turns (see `withLock`). */
+  private turnLocks = new KeyedMutex();
+  /** Read-modify-write of meta.json; taken inside turns, so kept apart from `turnLocks`. */
+  private metaLocks = new KeyedMutex();
+  /** Thread appends, so lines and `onAppend` calls keep the same order. */
+  private appendLocks = new KeyedMutex();
 
-  async createConversation(agentId: string): Promise<ConvMeta> {
-    const convId = randomConvId();
-    const dir = this.convDir(convId);
-    await fs.mkdir(dir, { recursive: true });
+  constructor(
+    private dataDir: string,
+    private repo: ConversationRepo = new FileConversationRepo(dataDir)
+  ) {}
+
+  async createConversation(agentId: string, convId = randomConvId()): Promise<ConvMeta> {
     const now = new Date().toISOString();
     const meta: ConvMeta = {
       convId,
@@ -34,18 +67,77 @@ export class ConversationStore {
       createdAt: now,
       updatedAt: now,
     };
-    await fs.writeFile(this.metaPath(convId), JSON.stringify(meta, null, 2), "utf-8");
+    await this.repo.writeMeta(meta);
     return meta;
   }
 
+  /**
+   * Runs `fn` with the conversation to itself: a turn (append user, build memory, run the agent, append
+   * bot, update memory) from the web, mail or a regenerate waits for the one before it to finish.
+   */
+  withLock<T>(convId: string, fn: () => Promise<T>): Promise<T> {
+    return this.turnLocks.run(convId, fn);
+  }
+
+  async exists(convId: string): Promise<boolean> {
+    return (await this.repo.readMeta(convId)) !== null;
+  }
+
   async loadMeta(convId: string): Promise<ConvMeta> {
-    const raw = await fs.readFile(this.metaPath(convId), "utf-8");
-    return JSON.parse(raw) as ConvMeta;
+    const meta = await this.repo.readMeta(convId);
+    if (!meta) throw new Error(`Unknown conversation: ${convId}`);
+    return meta;
+  }
+
+  private async metaOrEmpty(convId: string): Promise<Partial<ConvMeta>> {
+    return (await this.repo.readMeta(convId)) ?? {};
   }
 
   async saveMeta(meta: ConvMeta): Promise<void> {
     meta.updatedAt = new Date().toISOString();
-    await fs.writeFile(this.metaPath(meta.convId), JSON.stringify(meta, null, 2), "utf-8");
+    await this.repo.writeMeta(meta);
+  }
+
+  /** Loads meta.json, lets `fn` change it and saves it, with no other change to it in between. */
+  async mutateMeta(convId: string, fn: (meta: ConvMeta) => void | Promise<void>): Promise<ConvMeta> {
+    return this.metaLocks.run(convId, async () => {
+      const meta = await this.loadMeta(convId);
+      await fn(meta);
+      await this.saveMeta(meta);
+      return meta;
+    });
+  }
+
+  /** Applies a metadata update; `titleSource` marks who wrote a new title. */
+  async updateMeta(convId: string, update: MetaUpdate, titleSource: "auto" | "user" = "user"): Promise<ConvMeta> {
+    return this.mutateMeta(convId, (meta) => {
+      if (update.title !== undefined) {
+        if (update.title) {
+          meta.title = update.title;
+          meta.titleSource = titleSource;
+        } else {
+          delete meta.title;
+          delete meta.titleSource;
+        }
+      }
+      if (update.tags) meta.tags = update.tags;
+      if (update.pinned !== undefined) meta.pinned = update.pinned;
+      if (update.archived !== undefined) meta.archived = update.archived;
+    });
+  }
+
+  /** Removes thread and meta, and the conversation directory with summary, facts and branch memory. */
+  async deleteConversation(convId: string): Promise<boolean> {
+    if (!(await this.exists(convId))) return false;
+    await this.repo.deleteConversation(convId);
+    await fs.rm(path.join(this.dataDir, "conv", convId), { recursive: true, force: true });
+    this.deleteListeners.forEach((fn) => fn(convId));
+    return true;
+  }
+
+  /** Called after a conversation is deleted. */
+  onDelete(fn: DeleteListener): void {
+    this.deleteListeners.push(fn);
   }
 
   async ensureConversation(convId: string, defaultAgent: string): Promise<ConvMeta> {
@@ -56,49 +148,167 @@ export class ConversationStore {
     }
   }
 
+  /** Appends a turn to the active branch (unless it names its own) and gives it an id. */
   async append(convId: string, item: ThreadItem): Promise<void> {
-    await fs.mkdir(this.convDir(convId), { recursive: true });
-    await fs.appendFile(this.threadPath(convId), JSON.stringify(item) + "\n", "utf-8");
+    await this.appendLocks.run(convId, async () => {
+      const { activeBranch } = await this.metaOrEmpty(convId);
+      const stored: ThreadItem = {
+        id: randomId("t"),
+        ...(activeBranch && activeBranch !== MAIN_BRANCH ? { branchId: activeBranch } : {}),
+        ...item,
+      };
+      await this.repo.appendTurn(convId, stored);
+      this.listeners.forEach((fn) => fn(convId, stored));
+    });
+  }
+
+  /** Called after every appended thread item. */
+  onAppend(fn: AppendListener): void {
+    this.listeners.push(fn);
+  }
+
+  /**
+   * Removes the `count(items)` oldest items of the thread, after `archive` (if given) has stored them.
+   * Kept turns get their ids written out, so `L<line>` ids do not shift. Returns the removed items.
+   */
+  async compactThread(
+    convId: string,
+    count: (items: ThreadItem[]) => number,
+    archive?: (removed: ThreadItem[]) => Promise<void>
+  ): Promise<ThreadItem[]> {
+    return this.appendLocks.run(convId, async () => {
+      const items = await this.repo.readTurns(convId);
+      const n = Math.min(count(items), items.length);
+      if (n <= 0) return [];
+      const removed = items.slice(0, n);
+      await archive?.(removed);
+      const kept = items.slice(n).map((item, i) => (item.id ? item : { id: `L${n + i}`, ...item }));
+      await this.repo.replaceTurns(convId, kept);
+      this.compactListeners.forEach((fn) => fn(convId, kept));
+      return removed;
+    });
+  }
+
+  /** Called after a thread was compacted. */
+  onCompact(fn: CompactListener): void {
+    this.compactListeners.push(fn);
+  }
+
+  /** Size of the thread as JSON lines in bytes; 0 when the conversation has no thread yet. */
+  async threadBytes(convId: string): Promise<number> {
+    return this.repo.threadBytes(convId);
   }
 
   async nextBotMsgNo(convId: string): Promise<number> {
-    const meta = await this.loadMeta(convId);
-    const n = meta.nextMsgNo;
-    meta.nextMsgNo += 1;
-    await this.saveMeta(meta);
+    let n = 0;
+    await this.mutateMeta(convId, (meta) => {
+      n = meta.nextMsgNo;
+      meta.nextMsgNo += 1;
+    });
     return n;
   }
 
-  async listConversations(): Promise<ConvMeta[]> {
-    const convRoot = path.join(this.dataDir, "conv");
-    try {
-      const ids = await fs.readdir(convRoot);
-      const metas: ConvMeta[] = [];
-      for (const id of ids) {
-        try {
-          metas.push(await this.loadMeta(id));
-        } catch {
-          // skip invalid
-        }
-      }
-      metas.sort((a, b) => (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""));
-      return metas;
-    } catch {
-      return [];
+  /** Conversations matching `query`, newest first unless it says otherwise; `limit` and `offset` page them. */
+  async listConversations(query: ConversationQuery = {}): Promise<ConvMeta[]> {
+    return this.repo.listMeta(query);
+  }
+
+  /** Every turn on every branch, in the order written, with ids and parents filled in. */
+  async allTurns(convId: string): Promise<ThreadItem[]> {
+    const [meta, items] = await Promise.all([this.metaOrEmpty(convId), this.repo.readTurns(convId)]);
+    return resolveTurns(items, meta);
+  }
+
+  /** The newest `limit` turns of a branch (default: the active one), oldest first. */
+  async getThread(convId: string, limit = 50, branchId?: string): Promise<ThreadItem[]> {
+    const meta = await this.metaOrEmpty(convId);
+    const branch = branchId ?? meta.activeBranch ?? MAIN_BRANCH;
+    if (branch === MAIN_BRANCH && !meta.branches?.length && Number.isFinite(limit)) {
+      // Without branches the thread is one line, so only its tail is read. The extra item gives the
+      // first returned turn its parent.
+      const { firstLine, items } = await this.repo.readTail(convId, limit + 1);
+      return resolveTurns(items, meta, firstLine).slice(-limit);
     }
+    const items = await this.repo.readTurns(convId);
+    return branchPath(resolveTurns(items, meta), meta, branch).slice(-limit);
   }
 
-  async getThread(convId: string, limit = 50): Promise<ThreadItem[]> {
-    const p = this.threadPath(convId);
-    try {
-      const raw = await fs.readFile(p, "utf-8");
-      const lines = raw.split(/\r?\n/).filter(Boolean);
-      const items = lines.map((line) => JSON.parse(line) as ThreadItem);
-      return items.slice(-limit);
-    } catch {
-      return [];
+  /**
+   * Starts a branch that replaces a turn and makes it active. Editing replaces a user turn; regenerating a
+   * bot turn keeps the user turn it answered and drops everything after it. Returns the user turn to answer
+   * (the original one when editing) and the branch that was active before.
+   */
+  async startBranch(
+    convId: string,
+    turnId: string,
+    reason: BranchInfo["reason"]
+  ): Promise<{ branch: BranchInfo; userTurn: ThreadItem; previous: string }> {
+    let started: { branch: BranchInfo; userTurn: ThreadItem; previous: string } | undefined;
+    await this.mutateMeta(convId, async (meta) => {
+      started = await this.planBranch(meta, turnId, reason);
+      meta.branches = [...(meta.branches ?? []), started.branch];
+      meta.activeBranch = started.branch.id;
+    });
+    return started!;
+  }
+
+  private async planBranch(
+    meta: ConvMeta,
+    turnId: string,
+    reason: BranchInfo["reason"]
+  ): Promise<{ branch: BranchInfo; userTurn: ThreadItem; previous: string }> {
+    const turns = resolveTurns(await this.repo.readTurns(meta.convId), meta);
+    const target = turns.find((t) => t.id === turnId);
+    if (!target) throw new Error(`Unknown turn: ${turnId}`);
+
+    let userTurn: ThreadItem | undefined = target;
+    if (reason === "edit") {
+      if (target.role !== "user") throw new Error("Only user turns can be edited");
+    } else {
+      if (target.role !== "bot") throw new Error("Only bot turns can be regenerated");
+      const path = branchPath(turns, meta, target.branchId!);
+      userTurn = path
+        .slice(0, path.indexOf(target))
+        .reverse()
+        .find((t) => t.role === "user");
+      if (!userTurn) throw new Error(`No user turn before ${turnId}`);
     }
+
+    const branch: BranchInfo = {
+      id: randomId("b"),
+      parentId: reason === "edit" ? (userTurn.parentId ?? null) : userTurn.id!,
+      from: target.branchId!,
+      reason,
+      createdAt: new Date().toISOString(),
+    };
+    return { branch, userTurn, previous: meta.activeBranch ?? MAIN_BRANCH };
+  }
+
+  async setActiveBranch(convId: string, branchId: string): Promise<ConvMeta> {
+    return this.mutateMeta(convId, (meta) => {
+      if (branchId !== MAIN_BRANCH && !meta.branches?.some((b) => b.id === branchId)) {
+        throw new Error(`Unknown branch: ${branchId}`);
+      }
+      meta.activeBranch = branchId;
+    });
+  }
+
+  async listBranches(convId: string): Promise<{ activeBranch: string; branches: BranchSummary[] }> {
+    const meta = await this.loadMeta(convId);
+    const turns = resolveTurns(await this.repo.readTurns(convId), meta);
+    const activeBranch = meta.activeBranch ?? MAIN_BRANCH;
+    const main = { id: MAIN_BRANCH, parentId: null, createdAt: meta.createdAt };
+    const branches = [main, ...(meta.branches ?? [])].map((b): BranchSummary => {
+      const path = branchPath(turns, meta, b.id);
+      return {
+        ...b,
+        active: b.id === activeBranch,
+        turns: path.length,
+        ...(path.length ? { preview: firstLineSummary(path[path.length - 1].text) } : {}),
+      };
+    });
+    return { activeBranch, branches };
   }
 }
 
-export type { ConvMeta, ThreadItem };
+export type { Attachment, ConvMeta, ConversationQuery, ThreadItem };
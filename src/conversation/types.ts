@@ -1,16 +1,87 @@
+import type { ToolStep } from "../tools/registry.js";
+import type { RoutingDecision } from "../core/intentRouter.js";
+
+/** A line of the conversation started by regenerating or editing a turn; the original line is "main". */
+export type BranchInfo = {
+  id: string;
+  /** Turn the branch continues from; null when it replaces the first turn. */
+  parentId: string | null;
+  /** Branch the replaced turn was on. */
+  from: string;
+  reason: "regenerate" | "edit";
+  createdAt: string;
+};
+
 export type ConvMeta = {
   convId: string;
   agentId: string;
   nextMsgNo: number;
   createdAt: string;
   updatedAt: string;
+  /** Shown instead of the id; written by ConversationTitler ("auto") until the user sets one. */
+  title?: string;
+  titleSource?: "auto" | "user";
+  tags?: string[];
+  pinned?: boolean;
+  /** Hidden from the session list by default. */
+  archived?: boolean;
+  /** Branch that `getThread` follows and new turns go to; "main" when unset. */
+  activeBranch?: string;
+  branches?: BranchInfo[];
+};
+
+export type ConversationQuery = {
+  agent?: string;
+  /** Case-insensitive. */
+  tag?: string;
+  pinned?: boolean;
+  archived?: boolean;
+  /** Case-insensitive substring of the title or id. */
+  q?: string;
+  sort?: "updated" | "created" | "title";
+  order?: "asc" | "desc";
+  pinnedFirst?: boolean;
+  limit?: number;
+  offset?: number;
+};
+
+/** A file that came in with a turn or went out with a reply; the content stays on disk. */
+export type Attachment = {
+  name: string;
+  mimeType: string;
+  size: number;
+  /** Hex SHA-256 of the content. */
+  sha256: string;
+  /** "conversation": stored under data/conv/<convId>/attachments; "workspace": a file in the workspace. */
+  source: "conversation" | "workspace";
+  /** Relative to the conversation directory or the workspace root. */
+  path: string;
 };
 
 export type ThreadItem = {
+  /** Stable turn id; turns written before branching existed read back as `L<line>`. */
+  id?: string;
+  /** Unset in the file for "main"; always filled in when read. */
+  branchId?: string;
+  /** Turn this one follows; resolved when read (previous turn of the branch, or the branch's fork point). */
+  parentId?: string | null;
   role: "user" | "bot";
   text: string;
   at: string;
   msgNo?: number;
   agentId?: string;
   emailId?: string;
+  /** Where the turn came in or went out; unset on delegated hops and older turns. */
+  channel?: "web" | "mail";
+  /** Set on bot turns whose stream was aborted before the model finished. */
+  partial?: boolean;
+  /** Tool calls the agent made while producing this bot turn. */
+  tools?: ToolStep[];
+  /** Set on user turns: which agent was chosen and how. */
+  routing?: RoutingDecision;
+  /** Set on bot turns written by a delegated agent. */
+  delegation?: { from: string; task: string; depth: number };
+  /** Set on final bot turns that used delegation: every agent that took part, the answering agent first. */
+  agents?: string[];
+  attachments?: Attachment[];
 };
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { parseAgentDefinition, validateAgentDefinition } from "./agentDefinitions.js";
+import type { AgentDefinition } from "./agentDefinitions.js";
+import { AgentRegistry, createAgentFromDefinition, createDefaultAgents } from "./agents.js";
+import type { AgentBuildDeps } from "./agents.js";
+import { MockProvider } from "./fixtureProviders.js";
+import { ToolRegistry } from "../tools/registry.js";
+
+describe("parseAgentDefinition", () => {
+  it("reads markdown frontmatter and uses the body as the system prompt", () => {
+    const def = parseAgentDefinition(
+      "support.md",
+      [
+        "---",
+        "description: Customer support",
+        "modelSlot: files",
+        "temperature: 0.1",
+        "maxTokens: 400",
+        "tools: [file.read, file.list]",
+        "memory:",
+        "  maxTurns: 10",
+        "  facts: false",
+        "---",
+        "You answer support questions.",
+        "",
+        "Be brief.",
+      ].join("\n")
+    );
+    expect(def).toEqual({
+      id: "support",
+      description: "Customer support",
+      modelSlot: "files",
+      systemPrompt: "You answer support questions.\n\nBe brief.",
+      temperature: 0.1,
+      maxTokens: 400,
+      tools: ["file.read", "file.list"],
+      memory: { maxTurns: 10, facts: false },
+    });
+  });
+
+  it("reads JSON and reports every invalid field", () => {
+    expect(parseAgentDefinition("x.json", '{"id":"ops","systemPrompt":"hi"}')).toMatchObject({
+      id: "ops",
+      modelSlot: "default",
+    });
+    expect(() =>
+      validateAgentDefinition({ id: "bad id!", temperature: 5, tools: "file.read", memory: { summary: "yes" } })
+    ).toThrow(/id may only.*systemPrompt is required.*temperature.*tools must be.*memory.summary/);
+  });
+});
+
+describe("AgentRegistry definitions", () => {
+  let dir: string;
+  let deps: AgentBuildDeps;
+  let registry: AgentRegistry;
+  const build = (def: AgentDefinition) => createAgentFromDefinition(def, deps);
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-agents-"));
+    const tools = new ToolRegistry();
+    for (const name of ["file.list", "file.read"]) {
+      tools.register({
+        name,
+        description: "",
+        parameters: {},
+        mutating: false,
+        run: async () => ({ ok: true, data: "" }),
+      });
+    }
+    deps = {
+      provider: new MockProvider(),
+      models: { default: "m-default", files: "m-files", scheduler: "m-default" },
+      tools,
+    };
+    registry = new AgentRegistry();
+    for (const a of createDefaultAgents({ ...deps, tools: undefined })) registry.register(a);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("adds and overrides agents from files and falls back to built-ins when a file is removed", async () => {
+    await fs.writeFile(path.join(dir, "default.json"), JSON.stringify({ systemPrompt: "Custom default" }));
+    await fs.writeFile(path.join(dir, "reader.md"), "---\nmodelSlot: files\ntools: [file.read]\n---\nRead files.");
+    await registry.loadDefinitions(dir, build);
+
+    expect(registry.loadErrors()).toEqual([]);
+    expect(registry.get("default").definition?.systemPrompt).toBe("Custom default");
+    expect(registry.has("reader")).toBe(true);
+    const listed = registry.list().map((a) => [a.id, a.source]);
+    expect(listed).toEqual([
+      ["default", "file"],
+      ["files", "builtin"],
+      ["reader", "file"],
+      ["scheduler", "builtin"],
+    ]);
+
+    await fs.rm(path.join(dir, "default.json"));
+    await registry.loadDefinitions(dir, build);
+    expect(registry.get("default").definition?.description).toBe("General assistant");
+  });
+
+  it("reports invalid files and keeps serving their last good version", async () => {
+    const file = path.join(dir, "reader.md");
+    await fs.writeFile(file, "---\ntools: [file.read]\n---\nRead files.");
+    await registry.loadDefinitions(dir, build);
+    expect(registry.has("reader")).toBe(true);
+
+    await fs.writeFile(file, "---\ntools: [file.read, file.delete]\n---\nRead files.");
+    await fs.writeFile(path.join(dir, "other.json"), '{"systemPrompt":"x","modelSlot":"nope"}');
+    await registry.loadDefinitions(dir, build);
+
+    expect(registry.get("reader").definition?.tools).toEqual(["file.read"]);
+    expect(registry.has("other")).toBe(false);
+    expect(registry.loadErrors().map((e) => [path.basename(e.file), e.error])).toEqual([
+      ["other.json", expect.stringContaining('Unknown model slot "nope"')],
+      ["reader.md", "Unknown tools: file.delete"],
+    ]);
+  });
+});
@@ -0,0 +1,224 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { checkFactsSchema, type FactsSchema } from "../memory/factsSchema.js";
+
+/** How much conversation memory an agent gets; unset fields use the MemoryEngine defaults. */
+export type AgentMemorySettings = {
+  maxTurns?: number;
+  turnTokenBudget?: number;
+  summary?: boolean;
+  facts?: boolean;
+  /** false leaves the global user profile out of this agent's prompts. */
+  profile?: boolean;
+  /** false turns off retrieval of related passages from past conversations. */
+  retrieval?: boolean;
+  /** false leaves workspace document chunks out. */
+  documents?: boolean;
+  /** Shape extracted facts must have; facts that do not match are kept as they were. */
+  factsSchema?: FactsSchema;
+};
+
+export type AgentDefinition = {
+  id: string;
+  description: string;
+  /** Model slot from config (default, files, scheduler, ...), resolved to a model name when the agent is built. */
+  modelSlot: string;
+  systemPrompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Registered tool names the agent may call. */
+  tools?: string[];
+  /** Words that route a message here when no agent was named (see IntentRouter). */
+  keywords?: string[];
+  memory?: AgentMemorySettings;
+};
+
+const ID_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+/** Checks a parsed object and returns a typed definition, or throws with every problem found. */
+export function validateAgentDefinition(raw: unknown): AgentDefinition {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("Agent definition must be an object");
+  const o = raw as Record<string, unknown>;
+  const problems: string[] = [];
+
+  const str = (key: string, required: boolean): string | undefined => {
+    const v = o[key];
+    if (v == null || v === "") {
+      if (required) problems.push(`${key} is required`);
+      return undefined;
+    }
+    if (typeof v !== "string") problems.push(`${key} must be a string`);
+    return typeof v === "string" ? v : undefined;
+  };
+  const num = (v: unknown, key: string, min: number, max: number): number | undefined => {
+    if (v == null) return undefined;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < min || v > max) {
+      problems.push(`${key} must be a number between ${min} and ${max}`);
+      return undefined;
+    }
+    return v;
+  };
+
+  const id = str("id", true);
+  if (id && !ID_RE.test(id)) problems.push("id may only contain letters, digits, '-' and '_' (max 32)");
+  const description = str("description", false) ?? "";
+  const modelSlot = str("modelSlot", false) ?? "default";
+  const systemPrompt = str("systemPrompt", true);
+  const temperature = num(o.temperature, "temperature", 0, 2);
+  const maxTokens = num(o.maxTokens, "maxTokens", 1, 32768);
+
+  const list = (key: string, what: string): string[] | undefined => {
+    const v = o[key];
+    if (v == null) return undefined;
+    if (!Array.isArray(v) || v.some((t) => typeof t !== "string")) {
+      problems.push(`${key} must be a list of ${what}`);
+      return undefined;
+    }
+    return v as string[];
+  };
+  const tools = list("tools", "tool names");
+  const keywords = list("keywords", "words");
+
+  let memory: AgentMemorySettings | undefined;
+  if (o.memory != null) {
+    if (typeof o.memory !== "object" || Array.isArray(o.memory)) {
+      problems.push("memory must be an object");
+    } else {
+      const m = o.memory as Record<string, unknown>;
+      memory = {};
+      const maxTurns = num(m.maxTurns, "memory.maxTurns", 0, 500);
+      const turnTokenBudget = num(m.turnTokenBudget, "memory.turnTokenBudget", 0, 1_000_000);
+      if (maxTurns != null) memory.maxTurns = maxTurns;
+      if (turnTokenBudget != null) memory.turnTokenBudget = turnTokenBudget;
+      for (const key of ["summary", "facts", "profile", "retrieval", "documents"] as const) {
+        if (m[key] == null) continue;
+        if (typeof m[key] !== "boolean") problems.push(`memory.${key} must be true or false`);
+        else memory[key] = m[key];
+      }
+      if (m.factsSchema != null) {
+        const problem = checkFactsSchema(m.factsSchema);
+        if (problem) problems.push(problem);
+        else memory.factsSchema = m.factsSchema as FactsSchema;
+      }
+    }
+  }
+
+  if (problems.length) throw new Error(problems.join("; "));
+  return {
+    id: id!,
+    description,
+    modelSlot,
+    systemPrompt: systemPrompt!,
+    ...(temperature != null ? { temperature } : {}),
+    ...(maxTokens != null ? { maxTokens } : {}),
+    ...(tools ? { tools } : {}),
+    ...(keywords ? { keywords } : {}),
+    ...(memory ? { memory } : {}),
+  };
+}
+
+function parseScalar(raw: string): unknown {
+  const v = raw.trim();
+  if (v === "") return null;
+  if (v === "true" || v === "false") return v === "true";
+  if (v === "null" || v === "~") return null;
+  if (/^-?\d+(\.\d+)?$/.test(v)) return Number(v);
+  if ((v.startsWith('"') && v.endsWith('"')) || (v.startsWith("'") && v.endsWith("'"))) return v.slice(1, -1);
+  if (v.startsWith("[") && v.endsWith("]")) {
+    const inner = v.slice(1, -1).trim();
+    return inner ? inner.split(",").map((s) => parseScalar(s)) : [];
+  }
+  return v;
+}
+
+/**
+ * Parses the small YAML subset used in agent frontmatter: `key: value` scalars, `[a, b]` lists,
+ * `- item` lists and one level of nested keys (indented).
+ */
+export function parseFrontmatter(text: string): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  let parentKey: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+    const indented = /^\s+/.test(line);
+    const trimmed = line.trim();
+
+    if (indented && parentKey) {
+      if (trimmed.startsWith("- ")) {
+        const list = Array.isArray(out[parentKey]) ? (out[parentKey] as unknown[]) : [];
+        list.push(parseScalar(trimmed.slice(2)));
+        out[parentKey] = list;
+        continue;
+      }
+      const idx = trimmed.indexOf(":");
+      if (idx > 0) {
+        const obj =
+          out[parentKey] && typeof out[parentKey] === "object" && !Array.isArray(out[parentKey])
+            ? (out[parentKey] as Record<string, unknown>)
+            : {};
+        obj[trimmed.slice(0, idx).trim()] = parseScalar(trimmed.slice(idx + 1));
+        out[parentKey] = obj;
+        continue;
+      }
+    }
+
+    const idx = trimmed.indexOf(":");
+    if (idx <= 0) throw new Error(`Cannot parse frontmatter line: ${trimmed}`);
+    const key = trimmed.slice(0, idx).trim();
+    const value = parseScalar(trimmed.slice(idx + 1));
+    out[key] = value;
+    parentKey = value === null ? key : null;
+  }
+  return out;
+}
+
+/**
+ * Reads one definition file. JSON files hold the whole definition; in markdown files the frontmatter holds
+ * the settings and the body is the system prompt. The id defaults to the file name.
+ */
+export function parseAgentDefinition(fileName: string, content: string): AgentDefinition {
+  const ext = path.extname(fileName).toLowerCase();
+  const fallbackId = path.basename(fileName, ext);
+  let raw: Record<string, unknown>;
+
+  if (ext === ".json") {
+    const parsed = JSON.parse(content) as unknown;
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("Agent definition must be an object");
+    }
+    raw = parsed as Record<string, unknown>;
+  } else if (ext === ".md") {
+    const m = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+    if (!m) throw new Error("Markdown agent definitions need a --- frontmatter block");
+    raw = parseFrontmatter(m[1]);
+    const body = m[2].trim();
+    if (body && raw.systemPrompt == null) raw.systemPrompt = body;
+  } else {
+    throw new Error(`Unsupported agent definition file: ${fileName}`);
+  }
+
+  return validateAgentDefinition({ id: fallbackId, ...raw });
+}
+
+export type AgentDefinitionFile = { file: string; definition?: AgentDefinition; error?: string };
+
+/** Reads every *.json / *.md file in `dir`; a missing directory means no definitions. */
+export async function readAgentDefinitionFiles(dir: string): Promise<AgentDefinitionFile[]> {
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+  const out: AgentDefinitionFile[] = [];
+  for (const name of names.filter((n) => /\.(json|md)$/i.test(n)).sort()) {
+    const file = path.join(dir, name);
+    try {
+      out.push({ file, definition: parseAgentDefinition(name, await fs.readFile(file, "utf-8")) });
+    } catch (e) {
+      out.push({ file, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from "vitest";
+import { LlmAgent } from "./agents.js";
+import type { ChatRequest, ChatResponse, LLMProvider } from "./llmProvider.js";
+import { ToolRegistry } from "../tools/registry.js";
+import type { ToolStep } from "../tools/registry.js";
+import { ApprovalManager } from "../tools/approval.js";
+import type { AuditLogger } from "../tools/audit.js";
+
+function scriptedProvider(responses: ChatResponse[]): LLMProvider & { requests: ChatRequest[] } {
+  const requests: ChatRequest[] = [];
+  return {
+    requests,
+    async chat(req) {
+      requests.push(structuredClone(req));
+      const next = responses.shift();
+      if (!next) throw new Error("no scripted response left");
+      return next;
+    },
+    // eslint-disable-next-line require-yield
+    async *chatStream() {
+      throw new Error("not used");
+    },
+  };
+}
+
+const emptyMemory = { summary: "", facts: {}, recentTurns: [] };
+
+describe("LlmAgent tool loop", () => {
+  it("runs read-only tools directly and queues mutating ones for approval", async () => {
+    const approvalManager = new ApprovalManager();
+    const auditLogger = { log: vi.fn(async () => {}) } as unknown as AuditLogger;
+    const registry = new ToolRegistry({ approvalManager, auditLogger });
+    const writeRun = vi.fn(async () => ({ ok: true as const, data: "written" }));
+    registry.register({
+      name: "file.list",
+      description: "list",
+      parameters: { type: "object" },
+      mutating: false,
+      run: async () => ({ ok: true, data: ["a.log", "b.log"] }),
+    });
+    registry.register({ name: "file.delete", description: "delete", parameters: { type: "object" }, mutating: true, run: writeRun });
+
+    const provider = scriptedProvider([
+      {
+        text: "",
+        toolCalls: [{ id: "c1", type: "function", function: { name: "file_list", arguments: '{"path":"."}' } }],
+      },
+      {
+        text: "",
+        toolCalls: [{ id: "c2", type: "function", function: { name: "file_delete", arguments: '{"path":"a.log"}' } }],
+      },
+      { text: "Queued deletion of a.log." },
+    ]);
+
+    const agent = new LlmAgent("files", provider, "m", "sys", {
+      tools: { registry, names: ["file.list", "file.delete"] },
+    });
+    const steps: ToolStep[] = [];
+    const reply = await agent.handle("delete old logs", { convId: "C1", agentId: "files" }, emptyMemory, {
+      onToolStep: (s) => steps.push(s),
+    });
+
+    expect(reply).toBe("Queued deletion of a.log.");
+    expect(provider.requests[0].tools?.map((t) => t.function.name)).toEqual(["file_list", "file_delete"]);
+    expect(steps.map((s) => [s.tool, s.result])).toEqual([
+      ["file.list", "ok"],
+      ["file.delete", "pending"],
+    ]);
+    expect(writeRun).not.toHaveBeenCalled();
+    expect(approvalManager.list()).toHaveLength(1);
+    expect(approvalManager.list()[0].id).toBe(steps[1].pendingId);
+    expect(auditLogger.log).toHaveBeenCalledTimes(2);
+
+    const lastMessages = provider.requests[2].messages;
+    const toolMsg = lastMessages.filter((m) => m.role === "tool");
+    expect(toolMsg.map((m) => m.tool_call_id)).toEqual(["c1", "c2"]);
+    expect(JSON.parse(toolMsg[1].content).pending).toBe(true);
+  });
+
+  it("refuses tools outside the agent's allowed list", async () => {
+    const registry = new ToolRegistry();
+    const run = vi.fn(async () => ({ ok: true as const, data: "x" }));
+    registry.register({ name: "file.read", description: "read", parameters: { type: "object" }, mutating: false, run });
+    registry.register({ name: "file.list", description: "list", parameters: { type: "object" }, mutating: false, run });
+
+    const provider = scriptedProvider([
+      { text: "", toolCalls: [{ id: "c1", type: "function", function: { name: "file_read", arguments: "{}" } }] },
+      { text: "done" },
+    ]);
+    const agent = new LlmAgent("a", provider, "m", "sys", { tools: { registry, names: ["file.list"] } });
+    const steps: ToolStep[] = [];
+    await agent.handle("x", { convId: "C", agentId: "a" }, emptyMemory, { onToolStep: (s) => steps.push(s) });
+
+    expect(run).not.toHaveBeenCalled();
+    expect(steps[0].result).toBe("error");
+  });
+});
+
+describe("LlmAgent context length retry", () => {
+  const tooLong = new Error("This model's maximum context length is 8192 tokens");
+
+  /** Each stream yields its deltas, then fails with `error` if given. */
+  function streamingProvider(streams: Array<{ deltas: string[]; error?: Error }>): LLMProvider & { calls: number } {
+    const provider = {
+      calls: 0,
+      async chat(): Promise<ChatResponse> {
+        throw new Error("not used");
+      },
+      async *chatStream() {
+        const next = streams[provider.calls++];
+        if (!next) throw new Error("no scripted stream left");
+        for (const delta of next.deltas) yield { delta };
+        if (next.error) throw next.error;
+      },
+    };
+    return provider;
+  }
+
+  it("retries with half the budget when nothing was streamed yet", async () => {
+    const provider = streamingProvider([{ deltas: [], error: tooLong }, { deltas: ["Hi", " there"] }]);
+    const tokens: string[] = [];
+    const agent = new LlmAgent("a", provider, "m", "sys");
+    const reply = await agent.handle("x", { convId: "C", agentId: "a" }, emptyMemory, {
+      onToken: (d) => tokens.push(d),
+    });
+    expect(reply).toBe("Hi there");
+    expect(tokens).toEqual(["Hi", " there"]);
+    expect(provider.calls).toBe(2);
+  });
+
+  it("fails the turn instead of streaming it again once tokens went out", async () => {
+    const provider = streamingProvider([{ deltas: ["Hi"], error: tooLong }, { deltas: ["Hi", " there"] }]);
+    const tokens: string[] = [];
+    const agent = new LlmAgent("a", provider, "m", "sys");
+    await expect(
+      agent.handle("x", { convId: "C", agentId: "a" }, emptyMemory, { onToken: (d) => tokens.push(d) })
+    ).rejects.toThrow(tooLong);
+    expect(tokens).toEqual(["Hi"]);
+    expect(provider.calls).toBe(1);
+  });
+
+  it("fails the turn instead of running its tools again", async () => {
+    const registry = new ToolRegistry();
+    const run = vi.fn(async () => ({ ok: true as const, data: ["a.log"] }));
+    registry.register({ name: "file.list", description: "list", parameters: { type: "object" }, mutating: false, run });
+    const listCall: ChatResponse = {
+      text: "",
+      toolCalls: [{ id: "c1", type: "function", function: { name: "file_list", arguments: "{}" } }],
+    };
+    // a retry would get the tool call again
+    const provider = scriptedProvider([listCall, listCall, { text: "done" }]);
+    const chat = provider.chat.bind(provider);
+    let calls = 0;
+    provider.chat = async (req) => (++calls === 2 ? Promise.reject(tooLong) : chat(req));
+    const agent = new LlmAgent("a", provider, "m", "sys", { tools: { registry, names: ["file.list"] } });
+
+    await expect(agent.handle("x", { convId: "C", agentId: "a" }, emptyMemory)).rejects.toThrow(tooLong);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
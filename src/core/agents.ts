@@ -1,119 +1,448 @@
-import type { ChatMessage, LLMProvider } from "./llmProvider.js";
+import type { ChatRequest, ChatResponse, LLMProvider, UsagePurpose } from "./llmProvider.js";
+import {
+  assemblePrompt,
+  contextWindowFor,
+  estimateTokens,
+  fitToolTranscript,
+  isContextLengthError,
+} from "./contextBudget.js";
+import type { PromptParts } from "./contextBudget.js";
+import type { ToolRegistry, ToolStep } from "../tools/registry.js";
+import { readAgentDefinitionFiles } from "./agentDefinitions.js";
+import type { AgentDefinition } from "./agentDefinitions.js";
+import { watch } from "node:fs";
+import type { FSWatcher } from "node:fs";
 
 export type AgentContext = {
   convId: string;
   agentId: string;
+  /** Usage accounting label; defaults to "reply". */
+  purpose?: UsagePurpose;
+  /** Agents of the current delegation, outermost first; unset outside delegation. */
+  chain?: string[];
 };
 
 /** Minimal memory pack for agent context (full implementation in memory/memoryEngine) */
 export type MemoryPack = {
   summary: string;
   facts: Record<string, unknown>;
+  /** Global facts about the user (see `MemoryEngine.readProfile`). */
+  profile?: Record<string, unknown>;
   recentTurns: Array<{ role: "user" | "bot"; text: string }>;
+  /** Passages from past conversations (see `Retriever`). */
+  retrieved?: PromptParts["retrieved"];
+  /** Chunks of workspace files (see `WorkspaceIndex`). */
+  documents?: PromptParts["documents"];
 };
 
+/** Optional streaming hooks; when `onToken` is set the agent streams and reports each delta as it arrives. */
+export type AgentHandleOptions = {
+  onToken?: (delta: string) => void;
+  /** Called after each tool invocation so the caller can store it on the bot turn. */
+  onToolStep?: (step: ToolStep) => void;
+  signal?: AbortSignal;
+};
+
+/** Tools an LlmAgent may call, by registered name. */
+export type AgentTools = {
+  registry: ToolRegistry;
+  names: string[];
+  maxSteps?: number;
+};
+
+const TOOL_OUTPUT_MAX_CHARS = 8000;
+
 export interface Agent {
   id: string;
-  handle(userText: string, ctx: AgentContext, memory: MemoryPack): Promise<string>;
+  /** Set for agents built from a definition; carries description, tools and memory settings. */
+  definition?: AgentDefinition;
+  handle(userText: string, ctx: AgentContext, memory: MemoryPack, opts?: AgentHandleOptions): Promise<string>;
 }
 
+/** What `GET /api/agents` shows: the definition plus where it came from. */
+export type AgentInfo = Partial<AgentDefinition> & { id: string; source: "builtin" | "file"; file?: string };
+
+export type AgentLoadError = { file: string; error: string };
+
+/** Turns a validated definition into an agent; throws when it refers to unknown model slots or tools. */
+export type AgentBuilder = (def: AgentDefinition) => Agent;
+
+/**
+ * Agents registered in code are built-ins. Agents loaded from a definitions directory shadow built-ins with the
+ * same id and disappear again when their file is removed.
+ */
 export class AgentRegistry {
   private map = new Map<string, Agent>();
+  private fileAgents = new Map<string, { agent: Agent; file: string }>();
+  private errors: AgentLoadError[] = [];
 
   register(agent: Agent): void {
     this.map.set(agent.id, agent);
   }
 
   has(id: string): boolean {
-    return this.map.has(id);
+    return this.fileAgents.has(id) || this.map.has(id);
   }
 
   get(id: string): Agent {
-    const a = this.map.get(id);
+    const a = this.fileAgents.get(id)?.agent ?? this.map.get(id);
     if (!a) throw new Error(`Unknown agent: ${id}`);
     return a;
   }
-}
 
-function threadToMessages(recentTurns: MemoryPack["recentTurns"]): ChatMessage[] {
-  return recentTurns.map((t) => ({
-    role: t.role === "user" ? "user" : "assistant",
-    content: t.text,
-  }));
+  list(): AgentInfo[] {
+    const out: AgentInfo[] = [];
+    for (const [id, { agent, file }] of this.fileAgents) out.push({ ...agent.definition, id, source: "file", file });
+    for (const [id, agent] of this.map) {
+      if (!this.fileAgents.has(id)) out.push({ ...agent.definition, id, source: "builtin" });
+    }
+    return out.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /** Problems found by the last load; the affected files keep their previous version if they had one. */
+  loadErrors(): AgentLoadError[] {
+    return [...this.errors];
+  }
+
+  async loadDefinitions(dir: string, build: AgentBuilder): Promise<void> {
+    const next = new Map<string, { agent: Agent; file: string }>();
+    const errors: AgentLoadError[] = [];
+    const claim = (id: string, entry: { agent: Agent; file: string }) => {
+      const other = next.get(id);
+      if (other)
+        errors.push({ file: entry.file, error: `Duplicate agent id "${id}" (already defined in ${other.file})` });
+      else next.set(id, entry);
+    };
+
+    for (const f of await readAgentDefinitionFiles(dir)) {
+      let error = f.error;
+      if (f.definition) {
+        try {
+          claim(f.definition.id, { agent: build(f.definition), file: f.file });
+          continue;
+        } catch (e) {
+          error = e instanceof Error ? e.message : String(e);
+        }
+      }
+      errors.push({ file: f.file, error: error ?? "invalid definition" });
+      // Keep serving the last good version while the file is being edited.
+      for (const [id, prev] of this.fileAgents) if (prev.file === f.file) claim(id, prev);
+    }
+
+    this.fileAgents = next;
+    this.errors = errors;
+  }
+
+  /** Reloads the directory whenever a file in it changes. Returns a function that stops watching. */
+  watchDefinitions(dir: string, build: AgentBuilder, onReload?: (errors: AgentLoadError[]) => void): () => void {
+    let timer: NodeJS.Timeout | null = null;
+    let watcher: FSWatcher | null = null;
+    try {
+      watcher = watch(dir, () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          timer = null;
+          void this.loadDefinitions(dir, build).then(() => onReload?.(this.loadErrors()));
+        }, 200);
+      });
+    } catch {
+      return () => {};
+    }
+    return () => {
+      if (timer) clearTimeout(timer);
+      watcher?.close();
+    };
+  }
 }
 
+export type LlmAgentOptions = {
+  temperature?: number;
+  maxTokens?: number;
+  tools?: AgentTools | null;
+  /** Prompt budget in tokens; defaults to the known window of the model. */
+  contextWindow?: number;
+};
+
 export class LlmAgent implements Agent {
+  definition?: AgentDefinition;
+
   constructor(
     public id: string,
     private provider: LLMProvider,
     private model: string,
     private systemPrompt: string,
-    private temperature = 0.3,
-    private maxTokens = 900
+    private options: LlmAgentOptions = {}
   ) {}
 
-  async handle(userText: string, _ctx: AgentContext, memory: MemoryPack): Promise<string> {
-    const memBlock = [
-      "## Conversation Summary",
-      memory.summary?.trim() ? memory.summary.trim() : "(empty)",
-      "",
-      "## Facts (JSON)",
-      JSON.stringify(memory.facts ?? {}, null, 2),
-    ].join("\n");
-
-    const messages: ChatMessage[] = [
-      { role: "system", content: this.systemPrompt + "\n\n" + memBlock },
-      ...threadToMessages(memory.recentTurns),
-      { role: "user", content: userText },
-    ];
-
-    const res = await this.provider.chat({
+  async handle(userText: string, ctx: AgentContext, memory: MemoryPack, opts?: AgentHandleOptions): Promise<string> {
+    const contextWindow = this.options.contextWindow ?? contextWindowFor(this.model);
+    // Once tokens went out or a tool ran, a retry would stream and run them a second time.
+    let started = false;
+    const tracked: AgentHandleOptions = {
+      ...opts,
+      onToken:
+        opts?.onToken &&
+        ((delta) => {
+          started = true;
+          opts.onToken!(delta);
+        }),
+      onToolStep: (step) => {
+        started = true;
+        opts?.onToolStep?.(step);
+      },
+    };
+    try {
+      return await this.respond(userText, ctx, memory, contextWindow, tracked);
+    } catch (e) {
+      // Our estimate is approximate; if the server still says the prompt is too long, retry once with half the budget.
+      if (!isContextLengthError(e) || opts?.signal?.aborted || started) throw e;
+      return await this.respond(userText, ctx, memory, Math.floor(contextWindow / 2), opts);
+    }
+  }
+
+  private async respond(
+    userText: string,
+    ctx: AgentContext,
+    memory: MemoryPack,
+    contextWindow: number,
+    opts?: AgentHandleOptions
+  ): Promise<string> {
+    const maxTokens = this.options.maxTokens ?? 900;
+    const tools = this.options.tools ?? null;
+    const specs = tools ? tools.registry.specs(tools.names) : [];
+    const reservedTokens = specs.length ? estimateTokens(JSON.stringify(specs)) : 0;
+
+    const prompt = assemblePrompt(
+      {
+        systemPrompt: this.systemPrompt,
+        summary: memory.summary,
+        facts: memory.facts,
+        profile: memory.profile,
+        recentTurns: memory.recentTurns,
+        retrieved: memory.retrieved,
+        documents: memory.documents,
+        userText,
+      },
+      { contextWindow, maxOutputTokens: maxTokens, reservedTokens }
+    );
+
+    const req: ChatRequest = {
       model: this.model,
-      messages,
-      temperature: this.temperature,
-      max_tokens: this.maxTokens,
-    });
+      messages: prompt.messages,
+      temperature: this.options.temperature ?? 0.3,
+      max_tokens: maxTokens,
+      attribution: { convId: ctx.convId, agentId: ctx.agentId, purpose: ctx.purpose ?? "reply" },
+    };
+
+    if (tools && specs.length) {
+      const promptBudget = Math.floor(contextWindow * 0.95) - maxTokens - reservedTokens;
+      return await this.runToolLoop(req, specs, tools, ctx, promptBudget, opts);
+    }
+
+    const res = await this.complete(req, opts);
+    return res.text;
+  }
+
+  /** One model call; streams the deltas to `onToken` when the caller asked for tokens. */
+  private async complete(req: ChatRequest, opts?: AgentHandleOptions): Promise<ChatResponse> {
+    if (!opts?.onToken) return await this.provider.chat(req, opts?.signal);
+    let text = "";
+    let toolCalls: ChatResponse["toolCalls"];
+    for await (const chunk of this.provider.chatStream(req, opts.signal)) {
+      if (chunk.toolCalls?.length) toolCalls = chunk.toolCalls;
+      if (!chunk.delta) continue;
+      text += chunk.delta;
+      opts.onToken(chunk.delta);
+    }
+    return { text: text.trim(), ...(toolCalls ? { toolCalls } : {}) };
+  }
+
+  /**
+   * Lets the model call tools until it answers in plain text or runs out of steps.
+   * Mutating tools only queue an approval, so the model is told the pending id instead of a result.
+   */
+  private async runToolLoop(
+    req: ChatRequest,
+    specs: NonNullable<ChatRequest["tools"]>,
+    tools: AgentTools,
+    ctx: AgentContext,
+    promptBudget: number,
+    opts?: AgentHandleOptions
+  ): Promise<string> {
+    let messages = [...req.messages];
+    const maxSteps = tools.maxSteps ?? 6;
+
+    for (let step = 0; step < maxSteps; step++) {
+      if (opts?.signal?.aborted) throw new Error("Aborted");
+      messages = fitToolTranscript(messages, promptBudget);
+      const res = await this.complete({ ...req, messages, tools: specs }, opts);
+      if (!res.toolCalls?.length) return res.text;
+
+      messages.push({ role: "assistant", content: res.text ?? "", tool_calls: res.toolCalls });
+      for (const call of res.toolCalls) {
+        const name = tools.registry.fromWireName(call.function.name);
+        let args: Record<string, unknown> = {};
+        try {
+          const parsed = JSON.parse(call.function.arguments || "{}") as unknown;
+          if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) args = parsed as Record<string, unknown>;
+        } catch {
+          // leave args empty; the tool reports what is missing
+        }
+
+        const result: ToolStep =
+          name && tools.names.includes(name)
+            ? await tools.registry.invoke(name, args, ctx)
+            : { tool: call.function.name, args, result: "error", error: `Tool not available: ${call.function.name}` };
+        opts?.onToolStep?.(result);
+
+        messages.push({ role: "tool", tool_call_id: call.id, content: toolResultContent(result) });
+      }
+    }
 
+    // Out of steps: ask for a final answer without offering tools again.
+    messages = fitToolTranscript(messages, promptBudget);
+    const res = await this.complete({ ...req, messages }, opts);
     return res.text;
   }
 }
 
-export function createDefaultAgents(args: {
+function toolResultContent(step: ToolStep): string {
+  const body =
+    step.result === "ok"
+      ? { ok: true, data: step.output }
+      : step.result === "pending"
+        ? {
+            ok: false,
+            pending: true,
+            pendingId: step.pendingId,
+            message: "Queued for user approval; not executed yet.",
+            ...(step.output !== undefined ? { preview: step.output } : {}),
+          }
+        : { ok: false, error: step.error };
+  const json = JSON.stringify(body);
+  return json.length > TOOL_OUTPUT_MAX_CHARS ? json.slice(0, TOOL_OUTPUT_MAX_CHARS) + "…(truncated)" : json;
+}
+
+export type AgentBuildDeps = {
   provider: LLMProvider;
-  models: { default: string; files: string; scheduler: string };
-}): Agent[] {
-  const { provider, models } = args;
+  /** Model name per slot (default, files, scheduler, ...). */
+  models: Record<string, string>;
+  tools?: ToolRegistry;
+  /** Context window overrides by model name ("*" for unknown models). */
+  contextWindows?: Record<string, number>;
+};
+
+export function createAgentFromDefinition(def: AgentDefinition, deps: AgentBuildDeps): LlmAgent {
+  const model = deps.models[def.modelSlot];
+  if (!model) throw new Error(`Unknown model slot "${def.modelSlot}" (known: ${Object.keys(deps.models).join(", ")})`);
+
+  const toolNames = def.tools ?? [];
+  if (toolNames.length) {
+    if (!deps.tools) throw new Error("Tools are not available in this setup");
+    const unknown = toolNames.filter((n) => !deps.tools!.has(n));
+    if (unknown.length) throw new Error(`Unknown tools: ${unknown.join(", ")}`);
+  }
 
+  const agent = new LlmAgent(def.id, deps.provider, model, def.systemPrompt, {
+    temperature: def.temperature,
+    maxTokens: def.maxTokens,
+    contextWindow: contextWindowFor(model, deps.contextWindows),
+    tools: toolNames.length ? { registry: deps.tools!, names: toolNames } : null,
+  });
+  agent.definition = def;
+  return agent;
+}
+
+const FILE_TOOLS = ["file.list", "file.read", "file.write", "file.delete"];
+const TASK_TOOLS = ["task.list", "task.create", "task.pause", "task.resume", "task.delete"];
+
+/**
+ * Built-in agents; a definition file with the same id replaces one of these.
+ * The files and scheduler agents get their tools when all of them are registered.
+ */
+export function defaultAgentDefinitions(toolNames: string[]): AgentDefinition[] {
+  const fileTools = FILE_TOOLS.every((n) => toolNames.includes(n));
+  const taskTools = TASK_TOOLS.every((n) => toolNames.includes(n));
+  const delegation = toolNames.includes("agent.delegate");
+  const attach = toolNames.includes("file.attach");
   return [
-    new LlmAgent(
-      "default",
-      provider,
-      models.default,
-      [
+    {
+      id: "default",
+      description: "General assistant",
+      modelSlot: "default",
+      systemPrompt: [
         "You are EveryBot (default agent).",
         "Be helpful, precise, and concise.",
-        "If the user asks for file operations, suggest using the files agent; still answer normally.",
-      ].join("\n")
-    ),
-    new LlmAgent(
-      "files",
-      provider,
-      models.files,
-      [
+        delegation
+          ? "Hand workspace file work to the files agent and scheduling to the scheduler agent with agent.delegate, then answer with their results combined."
+          : "If the user asks for file operations, suggest using the files agent; still answer normally.",
+      ].join("\n"),
+      ...(delegation ? { tools: ["agent.delegate"] } : {}),
+    },
+    {
+      id: "files",
+      description: "Workspace file tasks",
+      modelSlot: "files",
+      systemPrompt: [
         "You are EveryBot (files agent).",
         "Your job is to help with local workspace file tasks.",
-        "When needed, output a clear step-by-step plan or the exact file operations you would perform.",
-      ].join("\n")
-    ),
-    new LlmAgent(
-      "scheduler",
-      provider,
-      models.scheduler,
-      [
+        fileTools
+          ? "Use the file tools to inspect and change the workspace. Writes and deletes are queued for user approval: tell the user what was queued and its pending id."
+          : "When needed, output a clear step-by-step plan or the exact file operations you would perform.",
+        ...(attach ? ["When the user wants a workspace file sent to them, attach it with file.attach."] : []),
+      ].join("\n"),
+      ...(fileTools ? { tools: attach ? [...FILE_TOOLS, "file.attach"] : FILE_TOOLS } : {}),
+      keywords: [
+        "file",
+        "files",
+        "folder",
+        "directory",
+        "workspace",
+        "delete",
+        "rename",
+        "log",
+        "logs",
+        "文件",
+        "目录",
+        "删除",
+      ],
+    },
+    {
+      id: "scheduler",
+      description: "Scheduled tasks",
+      modelSlot: "scheduler",
+      systemPrompt: [
         "You are EveryBot (scheduler agent).",
         "Your job is to help create and explain scheduled tasks.",
-        "When the user requests a schedule, propose a task definition (schedule + action) clearly.",
-      ].join("\n")
-    ),
+        ...(taskTools
+          ? [
+              "Turn schedule requests into task.create calls: a 5-field cron pattern (minute first), an IANA timezone if the user gave one, and an action.",
+              "Creating and deleting tasks waits for user approval: show the next run times from the preview and the pending id.",
+              "Use task.list to find task ids before pausing, resuming or deleting.",
+            ]
+          : ["When the user requests a schedule, propose a task definition (schedule + action) clearly."]),
+      ].join("\n"),
+      ...(taskTools ? { tools: TASK_TOOLS } : {}),
+      keywords: [
+        "schedule",
+        "scheduled",
+        "task",
+        "tasks",
+        "cron",
+        "remind",
+        "reminder",
+        "every day",
+        "every week",
+        "daily",
+        "weekly",
+        "定时",
+        "每天",
+        "提醒",
+      ],
+    },
   ];
 }
+
+export function createDefaultAgents(args: AgentBuildDeps): Agent[] {
+  return defaultAgentDefinitions(args.tools?.names() ?? []).map((def) => createAgentFromDefinition(def, args));
+}
@@ -0,0 +1,14 @@
+import fs from "node:fs/promises";
+import { randomBytes } from "node:crypto";
+
+/** Writes to a temporary file next to `file` and renames it over, so readers never see a half-written file. */
+export async function writeFileAtomic(file: string, data: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.${randomBytes(3).toString("hex")}.tmp`;
+  try {
+    await fs.writeFile(tmp, data, "utf-8");
+    await fs.rename(tmp, file);
+  } catch (e) {
+    await fs.rm(tmp, { force: true });
+    throw e;
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { assemblePrompt, contextWindowFor, estimateTokens, fitFactsJson, truncateToTokens } from "./contextBudget.js";
+
+describe("estimateTokens", () => {
+  it("counts CJK characters individually", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("你好世界")).toBe(4);
+    expect(estimateTokens("hello world!!")).toBe(4);
+  });
+});
+
+describe("contextWindowFor", () => {
+  it("prefers overrides, then known families, then the catch-all", () => {
+    expect(contextWindowFor("deepseek-ai/DeepSeek-V3")).toBe(64_000);
+    expect(contextWindowFor("deepseek-ai/DeepSeek-V3", { "deepseek-ai/DeepSeek-V3": 1000 })).toBe(1000);
+    expect(contextWindowFor("mystery", { "*": 4096 })).toBe(4096);
+  });
+});
+
+describe("truncateToTokens", () => {
+  it("keeps head and tail within the budget", () => {
+    const text = "START " + "x".repeat(20_000) + " END";
+    const out = truncateToTokens(text, 500);
+    expect(estimateTokens(out)).toBeLessThanOrEqual(500);
+    expect(out.startsWith("START")).toBe(true);
+    expect(out.endsWith("END")).toBe(true);
+    expect(out).toMatch(/characters omitted/);
+  });
+});
+
+describe("fitFactsJson", () => {
+  it("drops trailing facts until the JSON fits", () => {
+    const facts = { name: "Ann", big: "y".repeat(5000) };
+    const out = fitFactsJson(facts, 50);
+    expect(out).toContain('"name": "Ann"');
+    expect(out).toContain("1 more facts omitted");
+  });
+});
+
+describe("assemblePrompt", () => {
+  const base = { systemPrompt: "You are a bot.", summary: "", facts: {} };
+
+  it("fits huge history and input into a small window, newest turns first", () => {
+    const recentTurns = Array.from({ length: 20 }, (_, i) => ({
+      role: (i % 2 ? "bot" : "user") as "user" | "bot",
+      text: `turn ${i} ` + "z".repeat(3000),
+    }));
+    const userText = "請總結這封郵件：" + "郵".repeat(10_000);
+    const out = assemblePrompt({ ...base, recentTurns, userText }, { contextWindow: 4096, maxOutputTokens: 500 });
+
+    expect(out.estimatedTokens).toBeLessThanOrEqual(4096 - 500);
+    expect(out.droppedTurns).toBeGreaterThan(0);
+    expect(out.truncated).toBe(true);
+    const history = out.messages.slice(1, -1);
+    expect(history.at(-1)?.content.startsWith("turn 19")).toBe(true);
+    expect(out.messages.at(-1)?.content.startsWith("請總結這封郵件")).toBe(true);
+  });
+
+  it("does not repeat the current user turn from history and leaves small prompts alone", () => {
+    const out = assemblePrompt(
+      {
+        ...base,
+        recentTurns: [
+          { role: "user", text: "hi" },
+          { role: "bot", text: "hello" },
+          { role: "user", text: "how are you" },
+        ],
+        userText: "how are you",
+      },
+      { contextWindow: 32_000, maxOutputTokens: 900 }
+    );
+    expect(out.messages.map((m) => m.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(out.truncated).toBe(false);
+  });
+
+  it("puts the user profile before the conversation's memory only when there is one", () => {
+    const budget = { contextWindow: 32_000, maxOutputTokens: 900 };
+    const withProfile = assemblePrompt({ ...base, profile: { name: "Ann" }, recentTurns: [], userText: "hi" }, budget)
+      .messages[0].content;
+    expect(withProfile).toContain('## User Profile (JSON)\n{\n  "name": "Ann"\n}\n\n## Conversation Summary');
+    const without = assemblePrompt({ ...base, profile: {}, recentTurns: [], userText: "hi" }, budget);
+    expect(without.messages[0].content).not.toContain("User Profile");
+  });
+
+  it("lists retrieved passages with their sources, as many as fit", () => {
+    const retrieved = [
+      { convId: "A1", msgNo: 2, kind: "turn" as const, text: "Booked the\ntrain." },
+      { convId: "B2", kind: "summary" as const, text: "Trip planning." },
+      { convId: "C3", kind: "turn" as const, text: "x".repeat(20_000) },
+    ];
+    const out = assemblePrompt(
+      { ...base, retrieved, recentTurns: [], userText: "hi" },
+      { contextWindow: 32_000, maxOutputTokens: 900 }
+    );
+    expect(out.messages[0].content).toContain(
+      "## Related Past Conversations\nCite these by their [conversation#message] source when you use them.\n" +
+        "- [A1#2] Booked the train.\n- [B2 summary] Trip planning."
+    );
+    expect(out.messages[0].content).not.toContain("[C3]");
+    expect(out.truncated).toBe(true);
+  });
+});
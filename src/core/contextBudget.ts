@@ -0,0 +1,269 @@
+import type { ChatMessage } from "./llmProvider.js";
+
+/** Known context windows by model-name substring (lower-case); first match wins. */
+const DEFAULT_CONTEXT_WINDOWS: Array<[string, number]> = [
+  ["deepseek", 64_000],
+  ["qwen", 32_768],
+  ["glm", 128_000],
+  ["kimi", 128_000],
+  ["moonshot", 128_000],
+  ["gpt-4o", 128_000],
+  ["llama", 8_192],
+];
+
+export const FALLBACK_CONTEXT_WINDOW = 32_768;
+
+/** Per-message framing overhead in chat formats (role markers etc.). */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const CJK_RE = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/g;
+
+/**
+ * Cheap, conservative token estimate without a tokenizer:
+ * CJK characters count as one token each, everything else as ~3.5 characters per token.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_RE)?.length ?? 0;
+  return cjk + Math.ceil((text.length - cjk) / 3.5);
+}
+
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  let n = 0;
+  for (const m of messages) {
+    n += MESSAGE_OVERHEAD_TOKENS + estimateTokens(m.content);
+    if (m.tool_calls) n += estimateTokens(JSON.stringify(m.tool_calls));
+  }
+  return n;
+}
+
+export function contextWindowFor(model: string, overrides: Record<string, number> = {}): number {
+  if (overrides[model]) return overrides[model];
+  const lower = model.toLowerCase();
+  for (const [needle, size] of DEFAULT_CONTEXT_WINDOWS) {
+    if (lower.includes(needle)) return size;
+  }
+  return overrides["*"] ?? FALLBACK_CONTEXT_WINDOW;
+}
+
+/** Keeps the head and tail of a text so it fits in `maxTokens`, marking what was cut. */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  if (maxTokens <= 0) return "";
+
+  // Shrink by characters until the estimate fits; tokens-per-char is roughly stable across a text.
+  const ratio = text.length / Math.max(1, estimateTokens(text));
+  let keep = Math.max(0, Math.floor(maxTokens * ratio) - 40);
+  for (;;) {
+    const head = text.slice(0, Math.ceil(keep * 0.7));
+    const tail = keep - head.length > 0 ? text.slice(text.length - (keep - head.length)) : "";
+    const omitted = text.length - head.length - tail.length;
+    const out = `${head}\n…[${omitted} characters omitted]…\n${tail}`;
+    if (estimateTokens(out) <= maxTokens || keep === 0) return out;
+    keep = Math.floor(keep * 0.85);
+  }
+}
+
+/** Drops facts from the end (then truncates the JSON) until it fits in `maxTokens`. */
+export function fitFactsJson(facts: Record<string, unknown>, maxTokens: number): string {
+  const entries = Object.entries(facts ?? {});
+  while (entries.length) {
+    const json = JSON.stringify(Object.fromEntries(entries), null, 2);
+    if (estimateTokens(json) <= maxTokens) {
+      return entries.length < Object.keys(facts).length
+        ? json + `\n(${Object.keys(facts).length - entries.length} more facts omitted)`
+        : json;
+    }
+    entries.pop();
+  }
+  return truncateToTokens(JSON.stringify(facts ?? {}), maxTokens);
+}
+
+/** Retrieved passages as cited lines, best first, as many as fit in `maxTokens`. */
+function fitPassages(passages: NonNullable<PromptParts["retrieved"]>, maxTokens: number): string[] {
+  const out: string[] = [];
+  let used = 0;
+  for (const p of passages) {
+    const source = p.kind === "summary" ? `${p.convId} summary` : p.msgNo != null ? `${p.convId}#${p.msgNo}` : p.convId;
+    const line = `- [${source}] ${p.text.replace(/\s+/g, " ").trim()}`;
+    const cost = estimateTokens(line);
+    if (used + cost > maxTokens) break;
+    out.push(line);
+    used += cost;
+  }
+  return out;
+}
+
+/** Workspace chunks under a path:lines header, best first, as many as fit in `maxTokens`. */
+function fitDocuments(chunks: NonNullable<PromptParts["documents"]>, maxTokens: number): string[] {
+  const out: string[] = [];
+  let used = 0;
+  for (const c of chunks) {
+    const block = `### [${c.path}:${c.startLine}-${c.endLine}]\n${c.text}`;
+    const cost = estimateTokens(block);
+    if (used + cost > maxTokens) break;
+    out.push(block);
+    used += cost;
+  }
+  return out;
+}
+
+export type PromptParts = {
+  systemPrompt: string;
+  summary: string;
+  facts: Record<string, unknown>;
+  /** Global facts about the user, shared by every conversation; left out when empty. */
+  profile?: Record<string, unknown>;
+  recentTurns: Array<{ role: "user" | "bot"; text: string }>;
+  /** Passages from past conversations, best first; cited by conversation and message number. */
+  retrieved?: Array<{ convId: string; msgNo?: number; kind: "turn" | "summary"; text: string }>;
+  /** Chunks of workspace files, best first; cited by path and line range. */
+  documents?: Array<{ path: string; startLine: number; endLine: number; text: string }>;
+  userText: string;
+};
+
+export type PromptBudget = {
+  contextWindow: number;
+  /** Reserved for the completion (max_tokens). */
+  maxOutputTokens: number;
+  /** Extra fixed cost outside the messages, e.g. tool schemas. */
+  reservedTokens?: number;
+};
+
+export type AssembledPrompt = {
+  messages: ChatMessage[];
+  estimatedTokens: number;
+  droppedTurns: number;
+  truncated: boolean;
+};
+
+/**
+ * Builds system + history + user messages that fit the model's context window.
+ * Priority: system prompt and current user input, then summary/facts, then the newest turns.
+ */
+export function assemblePrompt(parts: PromptParts, budget: PromptBudget): AssembledPrompt {
+  const available = Math.max(
+    256,
+    Math.floor(budget.contextWindow * 0.95) - budget.maxOutputTokens - (budget.reservedTokens ?? 0)
+  );
+  let truncated = false;
+
+  const userText = truncateToTokens(parts.userText, Math.floor(available * 0.4));
+  if (userText !== parts.userText) truncated = true;
+
+  const summaryIn = parts.summary?.trim() || "(empty)";
+  const summary = truncateToTokens(summaryIn, Math.floor(available * 0.15));
+  const facts = fitFactsJson(parts.facts ?? {}, Math.floor(available * 0.15));
+  if (summary !== summaryIn || facts !== JSON.stringify(parts.facts ?? {}, null, 2)) truncated = true;
+  const hasProfile = !!parts.profile && Object.keys(parts.profile).length > 0;
+  const profile = hasProfile ? fitFactsJson(parts.profile!, Math.floor(available * 0.1)) : "";
+  if (hasProfile && profile !== JSON.stringify(parts.profile, null, 2)) truncated = true;
+
+  const related = fitPassages(parts.retrieved ?? [], Math.floor(available * 0.1));
+  if (related.length < (parts.retrieved?.length ?? 0)) truncated = true;
+  const documents = fitDocuments(parts.documents ?? [], Math.floor(available * 0.15));
+  if (documents.length < (parts.documents?.length ?? 0)) truncated = true;
+
+  const memBlock = [
+    ...(hasProfile ? ["## User Profile (JSON)", profile, ""] : []),
+    "## Conversation Summary",
+    summary,
+    "",
+    "## Facts (JSON)",
+    facts,
+    ...(related.length
+      ? [
+          "",
+          "## Related Past Conversations",
+          "Cite these by their [conversation#message] source when you use them.",
+          ...related,
+        ]
+      : []),
+    ...(documents.length
+      ? [
+          "",
+          "## Workspace Documents",
+          "Cite these by file path and line range, e.g. [notes/plan.md:10-24], when you use them.",
+          ...documents,
+        ]
+      : []),
+  ].join("\n");
+  let system = parts.systemPrompt + "\n\n" + memBlock;
+  let fixed = estimateMessagesTokens([
+    { role: "system", content: system },
+    { role: "user", content: userText },
+  ]);
+  if (fixed > available) {
+    // Pathological system prompt: fall back to trimming the memory block itself.
+    system = truncateToTokens(system, Math.max(64, available - estimateTokens(userText) - 2 * MESSAGE_OVERHEAD_TOKENS));
+    truncated = true;
+    fixed = estimateMessagesTokens([
+      { role: "system", content: system },
+      { role: "user", content: userText },
+    ]);
+  }
+
+  // Callers usually store the user turn before building memory; don't send it twice. The input may also
+  // carry the turn's attachments (see AttachmentStore.agentInput).
+  const turns = parts.recentTurns;
+  const last = turns[turns.length - 1];
+  const isInput =
+    !!last &&
+    last.role === "user" &&
+    (last.text === parts.userText ||
+      parts.userText.startsWith(last.text ? `${last.text}\n\n[Attachment: ` : "[Attachment: "));
+  const lastIndex = isInput ? turns.length - 2 : turns.length - 1;
+
+  // Walk history newest-first; one oversized turn is compressed rather than pushing out all others.
+  const perTurnCap = Math.max(64, Math.floor(available * 0.25));
+  let remaining = available - fixed;
+  const history: ChatMessage[] = [];
+  let i = lastIndex;
+  for (; i >= 0; i--) {
+    const t = turns[i];
+    let content = truncateToTokens(t.text, perTurnCap);
+    let cost = MESSAGE_OVERHEAD_TOKENS + estimateTokens(content);
+    if (cost > remaining) {
+      if (remaining < 128) break;
+      content = truncateToTokens(t.text, remaining - MESSAGE_OVERHEAD_TOKENS);
+      cost = MESSAGE_OVERHEAD_TOKENS + estimateTokens(content);
+    }
+    if (content !== t.text) truncated = true;
+    history.unshift({ role: t.role === "user" ? "user" : "assistant", content });
+    remaining -= cost;
+  }
+  const droppedTurns = i + 1;
+
+  const messages: ChatMessage[] = [
+    { role: "system", content: system },
+    ...history,
+    { role: "user", content: userText },
+  ];
+  return {
+    messages,
+    estimatedTokens: estimateMessagesTokens(messages),
+    droppedTurns,
+    truncated: truncated || droppedTurns > 0,
+  };
+}
+
+/**
+ * Shrinks the oldest tool results in a growing tool-loop transcript until it fits.
+ * Returns the same array when nothing needed to change.
+ */
+export function fitToolTranscript(messages: ChatMessage[], maxTokens: number): ChatMessage[] {
+  if (estimateMessagesTokens(messages) <= maxTokens) return messages;
+  const out = messages.map((m) => ({ ...m }));
+  for (const m of out) {
+    if (m.role !== "tool") continue;
+    m.content = truncateToTokens(m.content, 200);
+    if (estimateMessagesTokens(out) <= maxTokens) break;
+  }
+  return out;
+}
+
+/** Recognises provider errors that mean "prompt too long". */
+export function isContextLengthError(e: unknown): boolean {
+  const msg = e instanceof Error ? e.message : String(e);
+  return /context[ _-]?length|context window|maximum context|too many tokens|prompt is too long|reduce the length/i.test(msg);
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { MockProvider, RecordingProvider, ReplayProvider, requestKey } from "./fixtureProviders.js";
+import type { ChatRequest } from "./llmProvider.js";
+
+const req = (user: string, model = "m"): ChatRequest => ({
+  model,
+  messages: [
+    { role: "system", content: "You are EveryBot (files agent)." },
+    { role: "user", content: user },
+  ],
+});
+
+describe("RecordingProvider / ReplayProvider", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-fixtures-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("replays what was recorded, keyed by model and messages", async () => {
+    const live = new MockProvider([{ response: { text: "recorded answer", usage: { total_tokens: 7 } } }]);
+    const recorder = new RecordingProvider(live, dir);
+    await recorder.chat({ ...req("hello"), temperature: 0.9 });
+
+    const replay = new ReplayProvider(dir);
+    const res = await replay.chat({ ...req("hello"), temperature: 0.1 });
+    expect(res.text).toBe("recorded answer");
+    expect(res.usage?.total_tokens).toBe(7);
+
+    let streamed = "";
+    for await (const c of replay.chatStream(req("hello"))) streamed += c.delta;
+    expect(streamed).toBe("recorded answer");
+
+    await expect(replay.chat(req("hello", "other-model"))).rejects.toThrow(/No LLM fixture .* other-model/);
+    expect(await fs.readdir(dir)).toEqual([`${requestKey(req("hello"))}.json`]);
+  });
+});
+
+describe("MockProvider", () => {
+  it("answers from the first matching rule, honours times, and echoes otherwise", async () => {
+    const mock = new MockProvider([
+      { match: { user: "^delete" }, response: { text: "first delete" }, times: 1 },
+      { match: { system: "files agent", user: "delete" }, response: { text: "any delete" } },
+      { match: { model: /^summary/ }, response: (r) => ({ text: `summary of ${r.messages.length} messages` }) },
+    ]);
+
+    expect((await mock.chat(req("delete logs"))).text).toBe("first delete");
+    expect((await mock.chat(req("delete logs"))).text).toBe("any delete");
+    expect((await mock.chat(req("x", "summary-model"))).text).toBe("summary of 2 messages");
+    expect((await mock.chat(req("hi there"))).text).toBe("(mock) hi there");
+    expect(mock.requests).toHaveLength(4);
+  });
+
+  it("loads rules from a JSON script", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-mock-"));
+    try {
+      const file = path.join(dir, "script.json");
+      await fs.writeFile(file, JSON.stringify({ rules: [{ match: { user: "ping" }, response: { text: "pong" } }] }));
+      const mock = await MockProvider.fromFile(file);
+      expect((await mock.chat(req("PING"))).text).toBe("pong");
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
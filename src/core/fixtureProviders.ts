@@ -0,0 +1,171 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { createHash } from "node:crypto";
+import type { ChatRequest, ChatResponse, ChatStreamChunk, ChatUsage, LLMProvider, ToolCall } from "./llmProvider.js";
+
+export type LlmFixture = {
+  key: string;
+  request: Pick<ChatRequest, "model" | "messages" | "tools">;
+  response: Pick<ChatResponse, "text" | "toolCalls" | "usage">;
+  recordedAt: string;
+};
+
+/** Stable id of a request: model + messages (+ tool names). Sampling params and attribution are ignored. */
+export function requestKey(req: ChatRequest): string {
+  const basis = {
+    model: req.model,
+    messages: req.messages.map((m) => ({
+      role: m.role,
+      content: m.content,
+      ...(m.tool_calls ? { tool_calls: m.tool_calls } : {}),
+      ...(m.tool_call_id ? { tool_call_id: m.tool_call_id } : {}),
+    })),
+    tools: req.tools?.map((t) => t.function.name) ?? [],
+  };
+  return createHash("sha256").update(JSON.stringify(basis)).digest("hex").slice(0, 24);
+}
+
+/** Replays a finished response as a stream of word-sized chunks, tool calls last. */
+async function* streamResponse(res: ChatResponse): AsyncGenerator<ChatStreamChunk> {
+  const parts = res.text.match(/\S+\s*|\s+/g) ?? [];
+  for (const part of parts) yield { delta: part };
+  if (res.usage || res.toolCalls?.length) {
+    yield { delta: "", ...(res.usage ? { usage: res.usage } : {}), ...(res.toolCalls ? { toolCalls: res.toolCalls } : {}) };
+  }
+}
+
+/** Passes calls through to a real provider and writes each request/response pair to `<dir>/<key>.json`. */
+export class RecordingProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private dir: string
+  ) {}
+
+  async chat(req: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const res = await this.inner.chat(req, signal);
+    await this.save(req, res);
+    return res;
+  }
+
+  async *chatStream(req: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    let text = "";
+    let usage: ChatUsage | undefined;
+    let toolCalls: ToolCall[] | undefined;
+    for await (const chunk of this.inner.chatStream(req, signal)) {
+      text += chunk.delta;
+      if (chunk.usage) usage = chunk.usage;
+      if (chunk.toolCalls) toolCalls = chunk.toolCalls;
+      yield chunk;
+    }
+    await this.save(req, { text: text.trim(), usage, ...(toolCalls ? { toolCalls } : {}) });
+  }
+
+  private async save(req: ChatRequest, res: ChatResponse): Promise<void> {
+    const key = requestKey(req);
+    const fixture: LlmFixture = {
+      key,
+      request: { model: req.model, messages: req.messages, ...(req.tools ? { tools: req.tools } : {}) },
+      response: { text: res.text, ...(res.toolCalls ? { toolCalls: res.toolCalls } : {}), usage: res.usage },
+      recordedAt: new Date().toISOString(),
+    };
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(path.join(this.dir, `${key}.json`), JSON.stringify(fixture, null, 2), "utf-8");
+  }
+}
+
+/** Answers only from fixtures written by RecordingProvider; an unknown request is an error, never a network call. */
+export class ReplayProvider implements LLMProvider {
+  private cache = new Map<string, LlmFixture>();
+
+  constructor(private dir: string) {}
+
+  private async lookup(req: ChatRequest): Promise<ChatResponse> {
+    const key = requestKey(req);
+    let fixture = this.cache.get(key);
+    if (!fixture) {
+      try {
+        fixture = JSON.parse(await fs.readFile(path.join(this.dir, `${key}.json`), "utf-8")) as LlmFixture;
+      } catch {
+        const lastUser = [...req.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+        throw new Error(`No LLM fixture ${key} for model ${req.model} (last user message: ${lastUser.slice(0, 80)})`);
+      }
+      this.cache.set(key, fixture);
+    }
+    return { ...fixture.response, raw: fixture };
+  }
+
+  async chat(req: ChatRequest): Promise<ChatResponse> {
+    return await this.lookup(req);
+  }
+
+  async *chatStream(req: ChatRequest): AsyncGenerator<ChatStreamChunk> {
+    yield* streamResponse(await this.lookup(req));
+  }
+}
+
+/** String patterns are regular expressions (case-insensitive) so scripts can live in JSON files. */
+type Pattern = string | RegExp;
+
+export type MockRule = {
+  match?: {
+    model?: Pattern;
+    /** Tested against the last user message. */
+    user?: Pattern;
+    /** Tested against the system prompt. */
+    system?: Pattern;
+  };
+  response: Pick<ChatResponse, "text" | "toolCalls" | "usage"> | ((req: ChatRequest) => ChatResponse);
+  /** Rule is dropped after this many matches; unlimited when unset. */
+  times?: number;
+};
+
+function matches(pattern: Pattern | undefined, value: string): boolean {
+  if (pattern == null) return true;
+  const re = typeof pattern === "string" ? new RegExp(pattern, "i") : pattern;
+  return re.test(value);
+}
+
+/**
+ * Scripted provider for tests and offline demos: the first rule whose patterns match answers.
+ * Without a matching rule it echoes the last user message, so every flow still completes.
+ */
+export class MockProvider implements LLMProvider {
+  readonly requests: ChatRequest[] = [];
+  private rules: MockRule[];
+
+  constructor(rules: MockRule[] = []) {
+    this.rules = rules.map((r) => ({ ...r }));
+  }
+
+  static async fromFile(file: string): Promise<MockProvider> {
+    const raw = JSON.parse(await fs.readFile(file, "utf-8")) as { rules?: MockRule[] } | MockRule[];
+    return new MockProvider(Array.isArray(raw) ? raw : (raw.rules ?? []));
+  }
+
+  add(rule: MockRule): void {
+    this.rules.push({ ...rule });
+  }
+
+  private respond(req: ChatRequest): ChatResponse {
+    this.requests.push(req);
+    const system = req.messages.find((m) => m.role === "system")?.content ?? "";
+    const user = [...req.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+
+    const i = this.rules.findIndex(
+      (r) => matches(r.match?.model, req.model) && matches(r.match?.user, user) && matches(r.match?.system, system)
+    );
+    if (i < 0) return { text: `(mock) ${user}`.trim() };
+
+    const rule = this.rules[i];
+    if (rule.times != null && --rule.times <= 0) this.rules.splice(i, 1);
+    return typeof rule.response === "function" ? rule.response(req) : { ...rule.response };
+  }
+
+  async chat(req: ChatRequest): Promise<ChatResponse> {
+    return this.respond(req);
+  }
+
+  async *chatStream(req: ChatRequest): AsyncGenerator<ChatStreamChunk> {
+    yield* streamResponse(this.respond(req));
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { IntentRouter } from "./intentRouter.js";
+import { AgentRegistry, createAgentFromDefinition, createDefaultAgents } from "./agents.js";
+import { MockProvider } from "./fixtureProviders.js";
+
+function makeAgents(provider = new MockProvider()): AgentRegistry {
+  const deps = { provider, models: { default: "m", files: "m", scheduler: "m" } };
+  const agents = new AgentRegistry();
+  for (const a of createDefaultAgents(deps)) agents.register(a);
+  agents.register(
+    createAgentFromDefinition(
+      { id: "billing", description: "Invoices and payments", modelSlot: "default", systemPrompt: "billing" },
+      deps
+    )
+  );
+  return agents;
+}
+
+const ctx = { convId: "C1", fallbackAgent: "default" };
+
+describe("IntentRouter", () => {
+  it("routes by agent keywords", async () => {
+    const router = new IntentRouter(makeAgents(), { mode: "keywords" });
+    const files = await router.route("delete old logs in the workspace", ctx);
+    expect(files).toMatchObject({ agentId: "files", method: "keywords" });
+    expect(files.confidence).toBeGreaterThan(0.8);
+    expect(files.reason).toContain("workspace");
+
+    expect((await router.route("提醒我每天喝水", ctx)).agentId).toBe("scheduler");
+    // "file" in "profile" is not a keyword hit
+    expect(await router.route("update my profile", ctx)).toMatchObject({ agentId: "default", method: "fallback" });
+  });
+
+  it("keeps explicit choices and falls back on ties", async () => {
+    const router = new IntentRouter(makeAgents(), { mode: "keywords" });
+    expect(await router.route("delete the logs", { ...ctx, requestedAgent: "scheduler" })).toEqual({
+      agentId: "scheduler",
+      confidence: 1,
+      method: "explicit",
+    });
+    const tie = await router.route("schedule a file", { ...ctx, fallbackAgent: "billing" });
+    expect(tie).toMatchObject({ agentId: "billing", method: "fallback" });
+  });
+
+  it("asks the model when keywords are not decisive", async () => {
+    const provider = new MockProvider([
+      { match: { user: "invoice" }, response: { text: '{"agent": "billing", "confidence": 0.9}' } },
+      { match: { user: "weather" }, response: { text: '{"agent": "nope", "confidence": 0.9}' } },
+    ]);
+    const router = new IntentRouter(makeAgents(), { mode: "llm", provider, model: "cheap" });
+
+    expect(await router.route("where is my invoice?", ctx)).toMatchObject({ agentId: "billing", method: "llm" });
+    expect((await router.route("what's the weather", ctx)).agentId).toBe("default");
+    expect(provider.requests[0].attribution?.purpose).toBe("routing");
+    expect(provider.requests[0].messages[0].content).toContain("- billing: Invoices and payments");
+  });
+});
@@ -0,0 +1,123 @@
+import type { LLMProvider } from "./llmProvider.js";
+import type { AgentInfo, AgentRegistry } from "./agents.js";
+
+export type RoutingMethod = "explicit" | "keywords" | "llm" | "fallback";
+
+/** Why a message went to an agent; stored on the user turn. */
+export type RoutingDecision = {
+  agentId: string;
+  /** 0..1; explicit choices are 1. */
+  confidence: number;
+  method: RoutingMethod;
+  reason?: string;
+};
+
+export type IntentRoutingMode = "off" | "keywords" | "llm";
+
+export type IntentRouterOptions = {
+  mode: IntentRoutingMode;
+  /** Decisions below this go to the fallback agent. */
+  minConfidence?: number;
+  /** Used in "llm" mode when keywords are not decisive. */
+  provider?: LLMProvider | null;
+  model?: string;
+};
+
+const ASCII_WORD = /^[\x20-\x7e]+$/;
+
+function keywordHits(text: string, keywords: string[]): string[] {
+  const lower = text.toLowerCase();
+  return keywords.filter((k) => {
+    const kw = k.toLowerCase().trim();
+    if (!kw) return false;
+    if (!ASCII_WORD.test(kw)) return lower.includes(kw);
+    const escaped = kw.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(lower);
+  });
+}
+
+/**
+ * Picks an agent for messages that did not name one: keyword rules from the agent definitions first,
+ * then (in "llm" mode) a short classification call. Unclear messages stay with the fallback agent.
+ */
+export class IntentRouter {
+  constructor(
+    private agents: AgentRegistry,
+    private opts: IntentRouterOptions
+  ) {}
+
+  async route(
+    text: string,
+    ctx: { convId: string; requestedAgent?: string | null; fallbackAgent: string }
+  ): Promise<RoutingDecision> {
+    const requested = ctx.requestedAgent;
+    if (requested && this.agents.has(requested)) {
+      return { agentId: requested, confidence: 1, method: "explicit" };
+    }
+    const fallback = (reason: string, confidence = 0): RoutingDecision => ({
+      agentId: ctx.fallbackAgent,
+      confidence,
+      method: "fallback",
+      reason,
+    });
+    if (this.opts.mode === "off") return fallback("routing disabled");
+
+    const minConfidence = this.opts.minConfidence ?? 0.6;
+    const candidates = this.agents.list();
+    const byKeywords = this.routeByKeywords(text, candidates);
+    if (byKeywords && byKeywords.confidence >= minConfidence) return byKeywords;
+
+    if (this.opts.mode === "llm" && this.opts.provider && this.opts.model) {
+      try {
+        const byLlm = await this.routeByLlm(text, candidates, ctx.convId);
+        if (byLlm && byLlm.confidence >= minConfidence) return byLlm;
+      } catch {
+        // a failed classification must not block the reply
+      }
+    }
+    return fallback(byKeywords ? `low confidence for ${byKeywords.agentId}` : "no match", byKeywords?.confidence);
+  }
+
+  private routeByKeywords(text: string, candidates: AgentInfo[]): RoutingDecision | null {
+    const scored = candidates
+      .map((a) => ({ id: a.id, hits: keywordHits(text, a.keywords ?? []) }))
+      .filter((s) => s.hits.length)
+      .sort((a, b) => b.hits.length - a.hits.length);
+    if (!scored.length) return null;
+
+    const [best, second] = scored;
+    const margin = best.hits.length - (second?.hits.length ?? 0);
+    const confidence = margin <= 0 ? 0.3 : Math.min(0.95, 0.5 + 0.15 * margin);
+    return { agentId: best.id, confidence, method: "keywords", reason: `matched ${best.hits.join(", ")}` };
+  }
+
+  private async routeByLlm(text: string, candidates: AgentInfo[], convId: string): Promise<RoutingDecision | null> {
+    const list = candidates.map((a) => `- ${a.id}: ${a.description || "(no description)"}`).join("\n");
+    const res = await this.opts.provider!.chat({
+      model: this.opts.model!,
+      attribution: { convId, purpose: "routing" },
+      messages: [
+        {
+          role: "system",
+          content: [
+            "You route user messages to the best assistant agent.",
+            "Agents:",
+            list,
+            'Reply with STRICT JSON only: {"agent": "<id>", "confidence": <0..1>}',
+          ].join("\n"),
+        },
+        { role: "user", content: text.slice(0, 2000) },
+      ],
+      temperature: 0,
+      max_tokens: 60,
+    });
+
+    const m = res.text.match(/\{[\s\S]*\}/);
+    if (!m) return null;
+    const obj = JSON.parse(m[0]) as { agent?: unknown; confidence?: unknown };
+    const agentId = typeof obj.agent === "string" ? obj.agent.trim() : "";
+    if (!this.agents.has(agentId)) return null;
+    const confidence = typeof obj.confidence === "number" ? Math.max(0, Math.min(1, obj.confidence)) : 0.5;
+    return { agentId, confidence, method: "llm" };
+  }
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { KeyedMutex } from "./keyedMutex.js";
+
+const tick = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("KeyedMutex", () => {
+  it("runs tasks for one key in order and other keys alongside", async () => {
+    const mutex = new KeyedMutex();
+    const log: string[] = [];
+    const task = (key: string, name: string, ms: number) =>
+      mutex.run(key, async () => {
+        log.push(`${name} start`);
+        await tick(ms);
+        log.push(`${name} end`);
+        return name;
+      });
+
+    const results = await Promise.all([task("a", "a1", 20), task("a", "a2", 1), task("b", "b1", 5)]);
+    expect(results).toEqual(["a1", "a2", "b1"]);
+    expect(log).toEqual(["a1 start", "b1 start", "b1 end", "a1 end", "a2 start", "a2 end"]);
+    expect(mutex.isLocked("a")).toBe(false);
+  });
+
+  it("releases the key when a task throws", async () => {
+    const mutex = new KeyedMutex();
+    await expect(mutex.run("a", async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    expect(await mutex.run("a", async () => "next")).toBe("next");
+  });
+});
@@ -0,0 +1,24 @@
+/** Runs tasks one at a time per key, in call order; tasks for different keys run concurrently. Not reentrant. */
+export class KeyedMutex {
+  private tails = new Map<string, Promise<void>>();
+
+  async run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const prev = this.tails.get(key) ?? Promise.resolve();
+    let release!: () => void;
+    const done = new Promise<void>((resolve) => (release = resolve));
+    const tail = prev.then(() => done);
+    this.tails.set(key, tail);
+    await prev;
+    try {
+      return await fn();
+    } finally {
+      release();
+      if (this.tails.get(key) === tail) this.tails.delete(key);
+    }
+  }
+
+  /** Whether a task for `key` is running or waiting. */
+  isLocked(key: string): boolean {
+    return this.tails.has(key);
+  }
+}
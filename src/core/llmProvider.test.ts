@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { readSseData, SiliconFlowProvider } from "./llmProvider.js";
+
+function streamOf(parts: string[]): ReadableStream<Uint8Array> {
+  const enc = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const p of parts) controller.enqueue(enc.encode(p));
+      controller.close();
+    },
+  });
+}
+
+async function collect<T>(it: AsyncIterable<T>): Promise<T[]> {
+  const out: T[] = [];
+  for await (const x of it) out.push(x);
+  return out;
+}
+
+describe("readSseData", () => {
+  it("yields data payloads split across chunk boundaries", async () => {
+    const body = streamOf(["data: {\"a\":", "1}\n\n: keepalive\n\nda", "ta: two\r\n\r\n"]);
+    expect(await collect(readSseData(body))).toEqual(['{"a":1}', "two"]);
+  });
+
+  it("joins multi-line data and flushes a trailing event without blank line", async () => {
+    const body = streamOf(["event: x\ndata: line1\ndata: line2\n\ndata: last"]);
+    expect(await collect(readSseData(body))).toEqual(["line1\nline2", "last"]);
+  });
+});
+
+describe("SiliconFlowProvider.chatStream", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("parses OpenAI-style deltas and final usage", async () => {
+    const sse = [
+      'data: {"choices":[{"delta":{"role":"assistant","content":""}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"Hel"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"lo"}}]}\n\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":2,"total_tokens":5}}\n\n',
+      "data: [DONE]\n\n",
+    ];
+    const fetchMock = vi.fn(async () => new Response(streamOf(sse), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new SiliconFlowProvider("https://example.test/v1/", "k");
+    const chunks = await collect(provider.chatStream({ model: "m", messages: [{ role: "user", content: "hi" }] }));
+
+    expect(chunks.map((c) => c.delta).join("")).toBe("Hello");
+    expect(chunks.at(-1)?.usage?.total_tokens).toBe(5);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://example.test/v1/chat/completions");
+    expect(JSON.parse(String(init.body)).stream).toBe(true);
+  });
+
+  it("assembles tool calls streamed in fragments", async () => {
+    const sse = [
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"id":"c1","type":"function","function":{"name":"file_list","arguments":""}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"path\\":"}}]}}]}\n\n',
+      'data: {"choices":[{"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\".\\"}"}}]}}]}\n\n',
+      "data: [DONE]\n\n",
+    ];
+    const fetchMock = vi.fn(async () => new Response(streamOf(sse), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new SiliconFlowProvider("https://example.test/v1", "k");
+    const tools = [{ type: "function" as const, function: { name: "file_list", parameters: { type: "object" } } }];
+    const chunks = await collect(
+      provider.chatStream({ model: "m", messages: [{ role: "user", content: "ls" }], tools })
+    );
+
+    expect(chunks.at(-1)?.toolCalls).toEqual([
+      { id: "c1", type: "function", function: { name: "file_list", arguments: '{"path":"."}' } },
+    ]);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(JSON.parse(String(init.body)).tools).toEqual(tools);
+  });
+});
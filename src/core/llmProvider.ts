@@ -1,8 +1,34 @@
-export type ChatRole = "system" | "user" | "assistant";
+export type ChatRole = "system" | "user" | "assistant" | "tool";
+
+/** OpenAI-compatible function tool call as returned by the model. */
+export type ToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+export type ToolSpec = {
+  type: "function";
+  function: { name: string; description?: string; parameters: Record<string, unknown> };
+};
 
 export type ChatMessage = {
   role: ChatRole;
   content: string;
+  /** Set on assistant messages that requested tool calls. */
+  tool_calls?: ToolCall[];
+  /** Set on tool messages; answers the call with this id. */
+  tool_call_id?: string;
+};
+
+export type UsagePurpose =
+  "reply" | "summary" | "facts" | "scheduled" | "routing" | "eval" | "title" | "profile" | "embedding";
+
+/** Who a call is made for; used for usage accounting and never sent to the model API. */
+export type ChatAttribution = {
+  convId?: string;
+  agentId?: string;
+  purpose?: UsagePurpose;
 };
 
 export type ChatRequest = {
@@ -10,31 +36,118 @@ export type ChatRequest = {
   messages: ChatMessage[];
   temperature?: number;
   max_tokens?: number;
+  tools?: ToolSpec[];
+  attribution?: ChatAttribution;
 };
 
+export type ChatUsage = { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+
 export type ChatResponse = {
   text: string;
-  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+  toolCalls?: ToolCall[];
+  usage?: ChatUsage;
   raw?: unknown;
 };
 
+/**
+ * One streamed piece of a completion; `usage` is only set on the final chunk when the server reports it.
+ * Tool calls arrive complete, on one chunk after the text.
+ */
+export type ChatStreamChunk = {
+  delta: string;
+  usage?: ChatUsage;
+  toolCalls?: ToolCall[];
+};
+
+export type EmbeddingRequest = {
+  model: string;
+  input: string[];
+  attribution?: ChatAttribution;
+};
+
+/** One vector per input, in input order. */
+export type EmbeddingResponse = { vectors: number[][]; usage?: ChatUsage };
+
 export interface LLMProvider {
-  chat(req: ChatRequest): Promise<ChatResponse>;
+  chat(req: ChatRequest, signal?: AbortSignal): Promise<ChatResponse>;
+  chatStream(req: ChatRequest, signal?: AbortSignal): AsyncIterable<ChatStreamChunk>;
+  /** Text embeddings; only providers whose backend serves an embedding model have it. */
+  embed?(req: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResponse>;
+}
+
+/** Non-2xx answer from an LLM endpoint; `status` lets callers decide whether to retry or fail over. */
+export class LlmHttpError extends Error {
+  constructor(
+    public status: number,
+    body: string
+  ) {
+    super(`LLM HTTP ${status}: ${body.slice(0, 400)}`);
+    this.name = "LlmHttpError";
+  }
 }
 
+/** 429, 408 and 5xx are worth retrying elsewhere; so are network errors and timeouts (no status). */
+export function isRetryableLlmError(e: unknown): boolean {
+  if (e instanceof LlmHttpError) return e.status === 429 || e.status === 408 || e.status >= 500;
+  return true;
+}
+
+/** Yields the `data:` payload of every server-sent event in the body. */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  let data: string[] = [];
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buf += done ? decoder.decode() + "\n\n" : decoder.decode(value, { stream: true });
+
+      let nl: number;
+      while ((nl = buf.indexOf("\n")) >= 0) {
+        const line = buf.slice(0, nl).replace(/\r$/, "");
+        buf = buf.slice(nl + 1);
+        if (line === "") {
+          if (data.length) yield data.join("\n");
+          data = [];
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).replace(/^ /, ""));
+        }
+        // comments (":") and other fields (event/id/retry) are ignored
+      }
+
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+type StreamedToolCall = { index?: number; id?: string; function?: { name?: string; arguments?: string } };
+
 export class SiliconFlowProvider implements LLMProvider {
   constructor(
     private baseUrl: string,
-    private apiKey: string
+    private apiKey: string,
+    private maxAttempts = 4
   ) {}
 
-  async chat(req: ChatRequest): Promise<ChatResponse> {
-    const url = this.baseUrl.replace(/\/+$/, "") + "/chat/completions";
+  /** Server-specific fields merged into every request body. */
+  protected extraBody(): Record<string, unknown> {
+    return {};
+  }
+
+  private async post(
+    body: Record<string, unknown>,
+    signal?: AbortSignal,
+    endpoint = "/chat/completions"
+  ): Promise<Response> {
+    const url = this.baseUrl.replace(/\/+$/, "") + endpoint;
 
-    const maxAttempts = 4;
     let lastErr: unknown = null;
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
       try {
         const res = await fetch(url, {
           method: "POST",
@@ -42,39 +155,106 @@ export class SiliconFlowProvider implements LLMProvider {
             "Content-Type": "application/json",
             Authorization: `Bearer ${this.apiKey}`,
           },
-          body: JSON.stringify({
-            model: req.model,
-            messages: req.messages,
-            temperature: req.temperature ?? 0.3,
-            max_tokens: req.max_tokens ?? 800,
-          }),
+          body: JSON.stringify({ ...body, ...this.extraBody() }),
+          signal,
         });
 
         if (!res.ok) {
-          const body = await res.text().catch(() => "");
-          if (res.status === 429 || (res.status >= 500 && res.status <= 599)) {
-            const backoff = 300 * attempt * attempt;
-            await new Promise((r) => setTimeout(r, backoff));
-            continue;
-          }
-          throw new Error(`LLM HTTP ${res.status}: ${body.slice(0, 400)}`);
+          const text = await res.text().catch(() => "");
+          throw new LlmHttpError(res.status, text);
         }
 
-        const json = (await res.json()) as {
-          choices?: Array<{ message?: { content?: string }; text?: string }>;
-          usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
-        };
-        const text =
-          json?.choices?.[0]?.message?.content ?? json?.choices?.[0]?.text ?? "";
-
-        return { text: String(text).trim(), usage: json?.usage, raw: json };
+        return res;
       } catch (e) {
+        if (signal?.aborted || !isRetryableLlmError(e)) throw e;
         lastErr = e;
-        const backoff = 300 * attempt * attempt;
-        await new Promise((r) => setTimeout(r, backoff));
+        if (attempt < this.maxAttempts) {
+          const backoff = 300 * attempt * attempt;
+          await new Promise((r) => setTimeout(r, backoff));
+        }
       }
     }
 
     throw lastErr instanceof Error ? lastErr : new Error("LLM call failed");
   }
+
+  async chat(req: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const res = await this.post(
+      {
+        model: req.model,
+        messages: req.messages,
+        temperature: req.temperature ?? 0.3,
+        max_tokens: req.max_tokens ?? 800,
+        ...(req.tools?.length ? { tools: req.tools } : {}),
+      },
+      signal
+    );
+
+    const json = (await res.json()) as {
+      choices?: Array<{ message?: { content?: string | null; tool_calls?: ToolCall[] }; text?: string }>;
+      usage?: ChatUsage;
+    };
+    const text =
+      json?.choices?.[0]?.message?.content ?? json?.choices?.[0]?.text ?? "";
+    const toolCalls = json?.choices?.[0]?.message?.tool_calls;
+
+    return {
+      text: String(text).trim(),
+      ...(toolCalls?.length ? { toolCalls } : {}),
+      usage: json?.usage,
+      raw: json,
+    };
+  }
+
+  /** OpenAI-compatible /embeddings. */
+  async embed(req: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    const res = await this.post({ model: req.model, input: req.input }, signal, "/embeddings");
+    const json = (await res.json()) as { data?: Array<{ index?: number; embedding?: number[] }>; usage?: ChatUsage };
+    const vectors: number[][] = [];
+    (json?.data ?? []).forEach((d, i) => (vectors[d.index ?? i] = d.embedding ?? []));
+    if (vectors.length !== req.input.length) throw new Error("Embedding response does not match the input");
+    return { vectors, usage: json?.usage };
+  }
+
+  async *chatStream(req: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    const res = await this.post(
+      {
+        model: req.model,
+        messages: req.messages,
+        temperature: req.temperature ?? 0.3,
+        max_tokens: req.max_tokens ?? 800,
+        stream: true,
+        stream_options: { include_usage: true },
+        ...(req.tools?.length ? { tools: req.tools } : {}),
+      },
+      signal
+    );
+    if (!res.body) throw new Error("LLM stream has no body");
+
+    // Tool calls stream as fragments keyed by index; arguments arrive in pieces.
+    const calls: ToolCall[] = [];
+    for await (const data of readSseData(res.body)) {
+      if (data.trim() === "[DONE]") break;
+      let json: {
+        choices?: Array<{ delta?: { content?: string | null; tool_calls?: StreamedToolCall[] }; text?: string }>;
+        usage?: ChatUsage | null;
+      };
+      try {
+        json = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      for (const part of json?.choices?.[0]?.delta?.tool_calls ?? []) {
+        const call = (calls[part.index ?? 0] ??= { id: "", type: "function", function: { name: "", arguments: "" } });
+        if (part.id) call.id = part.id;
+        if (part.function?.name) call.function.name += part.function.name;
+        if (part.function?.arguments) call.function.arguments += part.function.arguments;
+      }
+      const delta = json?.choices?.[0]?.delta?.content ?? json?.choices?.[0]?.text ?? "";
+      const usage = json?.usage ?? undefined;
+      if (delta || usage) yield { delta: String(delta), usage };
+    }
+    const toolCalls = calls.filter(Boolean).map((c, i) => ({ ...c, id: c.id || `call_${i}` }));
+    if (toolCalls.length) yield { delta: "", toolCalls };
+  }
 }
@@ -0,0 +1,55 @@
+import type { AppConfig, ModelSlot } from "../config.js";
+import { SiliconFlowProvider } from "./llmProvider.js";
+import type { LLMProvider } from "./llmProvider.js";
+import { ProviderRouter } from "./providerRouter.js";
+import { ProviderMux, qualifyModel } from "./providerMux.js";
+import { LlamaCppProvider, OllamaProvider } from "./localProviders.js";
+import { MockProvider, RecordingProvider, ReplayProvider } from "./fixtureProviders.js";
+
+/** The configured provider chain (failover router plus local backends) in the LLM_PROVIDER mode; not metered. */
+export async function createLlmProvider(
+  cfg: AppConfig
+): Promise<{ providerRouter: ProviderRouter; provider: LLMProvider }> {
+  const providerRouter = new ProviderRouter(
+    cfg.llm.providers.map((p) => ({
+      id: p.id,
+      provider: new SiliconFlowProvider(p.baseUrl, p.apiKey, cfg.llm.router.maxAttempts),
+      models: p.models,
+    })),
+    cfg.llm.router
+  );
+  const liveProvider = new ProviderMux(providerRouter, {
+    ollama: new OllamaProvider(cfg.llm.ollama.baseUrl, {
+      numCtx: cfg.llm.ollama.numCtx,
+      keepAlive: cfg.llm.ollama.keepAlive || undefined,
+    }),
+    llamacpp: new LlamaCppProvider(cfg.llm.llamacpp.baseUrl, cfg.llm.llamacpp.apiKey),
+  });
+  let provider: LLMProvider = liveProvider;
+  if (cfg.llm.mode === "record") provider = new RecordingProvider(liveProvider, cfg.llm.fixturesDir);
+  if (cfg.llm.mode === "replay") provider = new ReplayProvider(cfg.llm.fixturesDir);
+  if (cfg.llm.mode === "mock") {
+    provider = cfg.llm.mockScript ? await MockProvider.fromFile(cfg.llm.mockScript) : new MockProvider();
+  }
+  return { providerRouter, provider };
+}
+
+/** Backend-qualified model per slot, and context windows including Ollama's num_ctx for its slots. */
+export function resolveModels(cfg: AppConfig): {
+  model: (slot: ModelSlot) => string;
+  models: Record<ModelSlot, string>;
+  contextWindows: Record<string, number>;
+} {
+  const model = (slot: ModelSlot) => qualifyModel(cfg.llm.slotBackends[slot], cfg.llm.models[slot]);
+  const slots = Object.keys(cfg.llm.models) as ModelSlot[];
+  // Ollama truncates silently beyond num_ctx, so that is the real window for its slots.
+  const contextWindows = { ...cfg.llm.contextWindows };
+  for (const slot of Object.keys(cfg.llm.slotBackends) as ModelSlot[]) {
+    if (cfg.llm.slotBackends[slot] === "ollama") contextWindows[model(slot)] ??= cfg.llm.ollama.numCtx;
+  }
+  return {
+    model,
+    models: Object.fromEntries(slots.map((slot) => [slot, model(slot)])) as Record<ModelSlot, string>,
+    contextWindows,
+  };
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { OllamaProvider } from "./localProviders.js";
+import { ProviderMux, qualifyModel } from "./providerMux.js";
+import type { LLMProvider } from "./llmProvider.js";
+
+function ndjson(lines: unknown[]): ReadableStream<Uint8Array> {
+  const enc = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const l of lines) controller.enqueue(enc.encode(JSON.stringify(l) + "\n"));
+      controller.close();
+    },
+  });
+}
+
+describe("OllamaProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("maps native /api/chat responses, tool calls and token counts", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            message: {
+              role: "assistant",
+              content: "",
+              tool_calls: [{ function: { name: "file_list", arguments: { path: "." } } }],
+            },
+            done: true,
+            prompt_eval_count: 12,
+            eval_count: 3,
+          }),
+          { status: 200 }
+        )
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = new OllamaProvider("http://127.0.0.1:11434/", { numCtx: 8192 });
+    const res = await provider.chat({
+      model: "qwen2.5:7b",
+      messages: [
+        { role: "user", content: "list" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: "x", type: "function", function: { name: "file_read", arguments: '{"path":"a"}' } }],
+        },
+      ],
+      max_tokens: 100,
+    });
+
+    expect(res.toolCalls?.[0].function).toEqual({ name: "file_list", arguments: '{"path":"."}' });
+    expect(res.usage?.total_tokens).toBe(15);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://127.0.0.1:11434/api/chat");
+    const body = JSON.parse(String(init.body));
+    expect(body.options).toMatchObject({ num_predict: 100, num_ctx: 8192 });
+    expect(body.messages[1].tool_calls[0].function.arguments).toEqual({ path: "a" });
+  });
+
+  it("streams NDJSON deltas", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            ndjson([
+              { message: { content: "你" }, done: false },
+              { message: { content: "好" }, done: false },
+              { message: { content: "" }, done: true, prompt_eval_count: 2, eval_count: 2 },
+            ]),
+            { status: 200 }
+          )
+      )
+    );
+    const provider = new OllamaProvider("http://127.0.0.1:11434");
+    let text = "";
+    let total = 0;
+    for await (const c of provider.chatStream({ model: "m", messages: [] })) {
+      text += c.delta;
+      total = c.usage?.total_tokens ?? total;
+    }
+    expect(text).toBe("你好");
+    expect(total).toBe(4);
+  });
+
+  it("embeds through /api/embed", async () => {
+    const fetchMock = vi.fn(
+      async () => new Response(JSON.stringify({ embeddings: [[0.1, 0.2]], prompt_eval_count: 3 }), { status: 200 })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = new OllamaProvider("http://127.0.0.1:11434");
+    const mux = new ProviderMux(provider, { ollama: provider });
+
+    const res = await mux.embed({ model: qualifyModel("ollama", "nomic-embed-text"), input: ["hello"] });
+    expect(res).toEqual({ vectors: [[0.1, 0.2]], usage: { prompt_tokens: 3, total_tokens: 3 } });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("http://127.0.0.1:11434/api/embed");
+    expect(JSON.parse(String(init.body))).toEqual({ model: "nomic-embed-text", input: ["hello"] });
+    await expect(provider.embed({ model: "m", input: ["a", "b"] })).rejects.toThrow("does not match");
+  });
+});
+
+describe("ProviderMux", () => {
+  it("routes prefixed models to their backend and leaves bare names on the default chain", async () => {
+    const seen: string[] = [];
+    const named = (name: string): LLMProvider => ({
+      async chat(req) {
+        seen.push(`${name}:${req.model}`);
+        return { text: name };
+      },
+      async *chatStream() {},
+    });
+    const mux = new ProviderMux(named("cloud"), { ollama: named("local") });
+
+    await mux.chat({ model: qualifyModel("ollama", "qwen2.5:7b"), messages: [] });
+    await mux.chat({ model: "deepseek-ai/DeepSeek-V3", messages: [] });
+    expect(seen).toEqual(["local:qwen2.5:7b", "cloud:deepseek-ai/DeepSeek-V3"]);
+    await expect(mux.chat({ model: "llamacpp:any", messages: [] })).rejects.toThrow("not configured");
+  });
+});
@@ -0,0 +1,189 @@
+import { LlmHttpError, SiliconFlowProvider } from "./llmProvider.js";
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamChunk,
+  ChatUsage,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  LLMProvider,
+  ToolCall,
+} from "./llmProvider.js";
+
+/** Yields each JSON object of a newline-delimited JSON body. */
+export async function* readNdjson(body: ReadableStream<Uint8Array>): AsyncGenerator<unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      buf += done ? decoder.decode() + "\n" : decoder.decode(value, { stream: true });
+      let nl: number;
+      while ((nl = buf.indexOf("\n")) >= 0) {
+        const line = buf.slice(0, nl).trim();
+        buf = buf.slice(nl + 1);
+        if (!line) continue;
+        try {
+          yield JSON.parse(line) as unknown;
+        } catch {
+          // skip malformed
+        }
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+type OllamaMessage = {
+  role: string;
+  content: string;
+  tool_calls?: Array<{ function: { name: string; arguments: Record<string, unknown> } }>;
+};
+
+type OllamaChatChunk = {
+  message?: OllamaMessage;
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+};
+
+/** Ollama's native /api/chat. Tool call arguments travel as objects there, not JSON strings. */
+export class OllamaProvider implements LLMProvider {
+  constructor(
+    private baseUrl: string,
+    private opts: { numCtx?: number; keepAlive?: string } = {}
+  ) {}
+
+  private toOllamaMessages(messages: ChatMessage[]): OllamaMessage[] {
+    return messages.map((m) => {
+      const out: OllamaMessage = { role: m.role, content: m.content };
+      if (m.tool_calls?.length) {
+        out.tool_calls = m.tool_calls.map((c) => {
+          let args: Record<string, unknown> = {};
+          try {
+            args = JSON.parse(c.function.arguments || "{}") as Record<string, unknown>;
+          } catch {
+            // send empty args
+          }
+          return { function: { name: c.function.name, arguments: args } };
+        });
+      }
+      return out;
+    });
+  }
+
+  private async post(req: ChatRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const url = this.baseUrl.replace(/\/+$/, "") + "/api/chat";
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: req.model,
+        messages: this.toOllamaMessages(req.messages),
+        stream,
+        options: {
+          temperature: req.temperature ?? 0.3,
+          num_predict: req.max_tokens ?? 800,
+          ...(this.opts.numCtx ? { num_ctx: this.opts.numCtx } : {}),
+        },
+        ...(req.tools?.length ? { tools: req.tools } : {}),
+        ...(this.opts.keepAlive ? { keep_alive: this.opts.keepAlive } : {}),
+      }),
+      signal,
+    });
+    if (!res.ok) throw new LlmHttpError(res.status, await res.text().catch(() => ""));
+    return res;
+  }
+
+  async chat(req: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const res = await this.post(req, false, signal);
+    const json = (await res.json()) as OllamaChatChunk;
+    if (json.error) throw new Error(`Ollama: ${json.error}`);
+
+    const toolCalls = fromOllamaToolCalls(json.message, 0);
+
+    return {
+      text: String(json.message?.content ?? "").trim(),
+      ...(toolCalls.length ? { toolCalls } : {}),
+      usage: ollamaUsage(json),
+      raw: json,
+    };
+  }
+
+  async *chatStream(req: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    const res = await this.post(req, true, signal);
+    if (!res.body) throw new Error("Ollama stream has no body");
+
+    const toolCalls: ToolCall[] = [];
+    for await (const obj of readNdjson(res.body)) {
+      const chunk = obj as OllamaChatChunk;
+      if (chunk.error) throw new Error(`Ollama: ${chunk.error}`);
+      toolCalls.push(...fromOllamaToolCalls(chunk.message, toolCalls.length));
+      const delta = chunk.message?.content ?? "";
+      const usage = chunk.done ? ollamaUsage(chunk) : undefined;
+      if (chunk.done && toolCalls.length) {
+        yield { delta, usage, toolCalls };
+        return;
+      }
+      if (delta || usage) yield { delta, usage };
+      if (chunk.done) return;
+    }
+  }
+
+  /** Ollama's /api/embed, e.g. with `nomic-embed-text`. */
+  async embed(req: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    const url = this.baseUrl.replace(/\/+$/, "") + "/api/embed";
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model: req.model,
+        input: req.input,
+        ...(this.opts.keepAlive ? { keep_alive: this.opts.keepAlive } : {}),
+      }),
+      signal,
+    });
+    if (!res.ok) throw new LlmHttpError(res.status, await res.text().catch(() => ""));
+    const json = (await res.json()) as { embeddings?: number[][]; prompt_eval_count?: number; error?: string };
+    if (json.error) throw new Error(`Ollama: ${json.error}`);
+    const vectors = json.embeddings ?? [];
+    if (vectors.length !== req.input.length) throw new Error("Embedding response does not match the input");
+    const prompt = json.prompt_eval_count;
+    return { vectors, ...(prompt != null ? { usage: { prompt_tokens: prompt, total_tokens: prompt } } : {}) };
+  }
+}
+
+function fromOllamaToolCalls(message: OllamaMessage | undefined, offset: number): ToolCall[] {
+  return (message?.tool_calls ?? []).map((c, i) => ({
+    id: `call_${offset + i}`,
+    type: "function",
+    function: { name: c.function.name, arguments: JSON.stringify(c.function.arguments ?? {}) },
+  }));
+}
+
+function ollamaUsage(c: OllamaChatChunk): ChatUsage | undefined {
+  if (c.prompt_eval_count == null && c.eval_count == null) return undefined;
+  const prompt = c.prompt_eval_count ?? 0;
+  const completion = c.eval_count ?? 0;
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+}
+
+/**
+ * llama.cpp `llama-server`, which speaks the OpenAI chat API under `/v1`.
+ * The model name is informational (the server runs whatever it loaded); the API key is only needed with `--api-key`.
+ */
+export class LlamaCppProvider extends SiliconFlowProvider {
+  constructor(baseUrl: string, apiKey = "") {
+    super(baseUrl, apiKey, 1);
+  }
+
+  protected extraBody(): Record<string, unknown> {
+    // Reuse the KV cache for the shared prompt prefix between turns.
+    return { cache_prompt: true };
+  }
+}
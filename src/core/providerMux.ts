@@ -0,0 +1,55 @@
+import type {
+  ChatRequest,
+  ChatResponse,
+  ChatStreamChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  LLMProvider,
+} from "./llmProvider.js";
+
+export type LlmBackend = "siliconflow" | "ollama" | "llamacpp";
+
+export const LLM_BACKENDS: LlmBackend[] = ["siliconflow", "ollama", "llamacpp"];
+
+/** Model id for a slot: SiliconFlow names stay bare, local backends are prefixed ("ollama:qwen2.5:7b"). */
+export function qualifyModel(backend: LlmBackend, model: string): string {
+  return backend === "siliconflow" ? model : `${backend}:${model}`;
+}
+
+/**
+ * Sends each request to the backend named by its model prefix (see `qualifyModel`) with the prefix stripped.
+ * Unprefixed models go to the default backend, so existing model names keep working.
+ */
+export class ProviderMux implements LLMProvider {
+  constructor(
+    private fallback: LLMProvider,
+    private backends: Partial<Record<LlmBackend, LLMProvider>>
+  ) {}
+
+  private route<R extends { model: string }>(req: R): [LLMProvider, R] {
+    const i = req.model.indexOf(":");
+    if (i > 0) {
+      const prefix = req.model.slice(0, i) as LlmBackend;
+      const provider = this.backends[prefix];
+      if (provider) return [provider, { ...req, model: req.model.slice(i + 1) }];
+      if (LLM_BACKENDS.includes(prefix)) throw new Error(`LLM backend not configured: ${prefix}`);
+    }
+    return [this.fallback, req];
+  }
+
+  async chat(req: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const [provider, routed] = this.route(req);
+    return await provider.chat(routed, signal);
+  }
+
+  async *chatStream(req: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    const [provider, routed] = this.route(req);
+    yield* provider.chatStream(routed, signal);
+  }
+
+  async embed(req: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    const [provider, routed] = this.route(req);
+    if (!provider.embed) throw new Error(`LLM backend does not serve embeddings: ${req.model}`);
+    return await provider.embed(routed, signal);
+  }
+}
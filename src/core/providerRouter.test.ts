@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ProviderRouter } from "./providerRouter.js";
+import { LlmHttpError } from "./llmProvider.js";
+import type { ChatRequest, ChatResponse, LLMProvider } from "./llmProvider.js";
+
+function fakeProvider(impl: (req: ChatRequest) => Promise<ChatResponse>): LLMProvider & { calls: ChatRequest[] } {
+  const calls: ChatRequest[] = [];
+  return {
+    calls,
+    async chat(req) {
+      calls.push(req);
+      return impl(req);
+    },
+    async *chatStream(req) {
+      calls.push(req);
+      const res = await impl(req);
+      yield { delta: res.text };
+    },
+  };
+}
+
+const req: ChatRequest = { model: "deepseek-ai/DeepSeek-V3", messages: [{ role: "user", content: "hi" }] };
+
+describe("ProviderRouter", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fails over on 5xx and maps model aliases", async () => {
+    const primary = fakeProvider(async () => {
+      throw new LlmHttpError(503, "busy");
+    });
+    const backup = fakeProvider(async (r) => ({ text: `from ${r.model}` }));
+    const router = new ProviderRouter([
+      { id: "primary", provider: primary },
+      { id: "backup", provider: backup, models: { "deepseek-ai/DeepSeek-V3": "deepseek-chat" } },
+    ]);
+
+    const res = await router.chat(req);
+    expect(res.text).toBe("from deepseek-chat");
+    expect(router.health().map((h) => [h.id, h.consecutiveFailures])).toEqual([
+      ["primary", 1],
+      ["backup", 0],
+    ]);
+  });
+
+  it("does not fail over on client errors", async () => {
+    const primary = fakeProvider(async () => {
+      throw new LlmHttpError(400, "bad request");
+    });
+    const backup = fakeProvider(async () => ({ text: "ok" }));
+    const router = new ProviderRouter([
+      { id: "primary", provider: primary },
+      { id: "backup", provider: backup },
+    ]);
+
+    await expect(router.chat(req)).rejects.toThrow("LLM HTTP 400");
+    expect(backup.calls).toHaveLength(0);
+  });
+
+  it("opens the circuit after repeated failures and retries after cooldown", async () => {
+    vi.useFakeTimers();
+    let primaryUp = false;
+    const primary = fakeProvider(async () => {
+      if (!primaryUp) throw new LlmHttpError(429, "slow down");
+      return { text: "primary" };
+    });
+    const backup = fakeProvider(async () => ({ text: "backup" }));
+    const router = new ProviderRouter(
+      [
+        { id: "primary", provider: primary },
+        { id: "backup", provider: backup },
+      ],
+      { failureThreshold: 2, cooldownMs: 1000 }
+    );
+
+    await router.chat(req);
+    await router.chat(req);
+    expect(router.health()[0].state).toBe("open");
+
+    await router.chat(req);
+    expect(primary.calls).toHaveLength(2);
+
+    vi.advanceTimersByTime(1000);
+    expect(router.health()[0].state).toBe("half-open");
+    primaryUp = true;
+    expect((await router.chat(req)).text).toBe("primary");
+    expect(router.health()[0].state).toBe("closed");
+  });
+
+  it("lets a later call try a half-open provider after the caller aborted its trial", async () => {
+    vi.useFakeTimers();
+    let mode: "down" | "hang" | "up" = "down";
+    const primary: LLMProvider = {
+      async chat(_req, signal) {
+        if (mode === "down") throw new LlmHttpError(503, "busy");
+        if (mode === "hang") {
+          await new Promise((_, reject) => signal?.addEventListener("abort", () => reject(new Error("aborted"))));
+        }
+        return { text: "primary" };
+      },
+      async *chatStream() {},
+    };
+    const router = new ProviderRouter([{ id: "primary", provider: primary }], {
+      failureThreshold: 1,
+      cooldownMs: 1000,
+    });
+
+    await expect(router.chat(req)).rejects.toThrow("All LLM providers failed");
+    vi.advanceTimersByTime(1000);
+    expect(router.health()[0].state).toBe("half-open");
+
+    mode = "hang";
+    const abort = new AbortController();
+    const trial = router.chat(req, abort.signal);
+    abort.abort();
+    await expect(trial).rejects.toThrow("aborted");
+
+    mode = "up";
+    expect((await router.chat(req)).text).toBe("primary");
+    expect(router.health()[0].state).toBe("closed");
+  });
+
+  it("reports when every provider is unavailable", async () => {
+    const down = fakeProvider(async () => {
+      throw new Error("ECONNREFUSED");
+    });
+    const router = new ProviderRouter([{ id: "only", provider: down }], { failureThreshold: 1 });
+    await expect(router.chat(req)).rejects.toThrow("All LLM providers failed: only: ECONNREFUSED");
+    await expect(router.chat(req)).rejects.toThrow("all circuits open");
+  });
+
+  it("fails over a stream that errors before its first chunk", async () => {
+    const primary = fakeProvider(async () => {
+      throw new LlmHttpError(502, "bad gateway");
+    });
+    const backup = fakeProvider(async () => ({ text: "streamed" }));
+    const router = new ProviderRouter([
+      { id: "primary", provider: primary },
+      { id: "backup", provider: backup },
+    ]);
+
+    let text = "";
+    for await (const chunk of router.chatStream(req)) text += chunk.delta;
+    expect(text).toBe("streamed");
+  });
+});
@@ -0,0 +1,242 @@
+import { isRetryableLlmError } from "./llmProvider.js";
+import type {
+  ChatRequest,
+  ChatResponse,
+  ChatStreamChunk,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  LLMProvider,
+} from "./llmProvider.js";
+
+export type ProviderRoute = {
+  id: string;
+  provider: LLMProvider;
+  /** Requested model name -> this provider's model name; "*" is the catch-all. Unmapped models pass through. */
+  models?: Record<string, string>;
+};
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export type ProviderHealth = {
+  id: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  lastError?: string;
+  lastErrorAt?: string;
+  lastSuccessAt?: string;
+  openedAt?: string;
+};
+
+export type ProviderRouterOptions = {
+  /** Consecutive failures that open a provider's circuit. */
+  failureThreshold?: number;
+  /** How long an open circuit rejects calls before a half-open trial. */
+  cooldownMs?: number;
+  /** Per-attempt timeout; for streams it only covers the wait for the first chunk. */
+  timeoutMs?: number;
+};
+
+type RouteState = {
+  route: ProviderRoute;
+  health: ProviderHealth;
+  openedAtMs: number;
+  trialInFlight: boolean;
+};
+
+/**
+ * LLMProvider that tries an ordered list of providers, failing over on 429/5xx/timeouts
+ * and skipping providers whose circuit breaker is open.
+ */
+export class ProviderRouter implements LLMProvider {
+  private states: RouteState[];
+  private failureThreshold: number;
+  private cooldownMs: number;
+  private timeoutMs: number;
+
+  constructor(routes: ProviderRoute[], opts: ProviderRouterOptions = {}) {
+    if (!routes.length) throw new Error("ProviderRouter needs at least one provider");
+    this.states = routes.map((route) => ({
+      route,
+      health: { id: route.id, state: "closed", consecutiveFailures: 0, totalFailures: 0, totalSuccesses: 0 },
+      openedAtMs: 0,
+      trialInFlight: false,
+    }));
+    this.failureThreshold = opts.failureThreshold ?? 3;
+    this.cooldownMs = opts.cooldownMs ?? 30_000;
+    this.timeoutMs = opts.timeoutMs ?? 60_000;
+  }
+
+  health(): ProviderHealth[] {
+    return this.states.map((s) => {
+      this.refreshState(s);
+      return { ...s.health };
+    });
+  }
+
+  async chat(req: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    return this.failover(signal, (s, attempt) => s.route.provider.chat(this.mapModel(s.route, req), attempt));
+  }
+
+  /** Fails over like `chat`, among the providers that serve embeddings. */
+  async embed(req: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    return this.failover(
+      signal,
+      (s, attempt) => s.route.provider.embed!(this.mapModel(s.route, req), attempt),
+      (s) => !!s.route.provider.embed
+    );
+  }
+
+  private async failover<T>(
+    signal: AbortSignal | undefined,
+    call: (s: RouteState, signal: AbortSignal) => Promise<T>,
+    eligible: (s: RouteState) => boolean = () => true
+  ): Promise<T> {
+    const errors: string[] = [];
+    for (const s of this.available(eligible)) {
+      const attempt = this.attemptSignal(signal);
+      try {
+        const res = await call(s, attempt.signal);
+        this.recordSuccess(s);
+        return res;
+      } catch (e) {
+        if (signal?.aborted) throw e;
+        const err = attempt.timedOut() ? new Error(`Timed out after ${this.timeoutMs}ms`) : e;
+        if (!isRetryableLlmError(err)) throw err;
+        this.recordFailure(s, err);
+        errors.push(`${s.route.id}: ${errorMessage(err)}`);
+      } finally {
+        // also when the caller aborted: a trial that never finished must not block the next one
+        s.trialInFlight = false;
+        attempt.dispose();
+      }
+    }
+    throw this.exhausted(errors);
+  }
+
+  async *chatStream(req: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    const errors: string[] = [];
+    for (const s of this.available()) {
+      const attempt = this.attemptSignal(signal);
+      let started = false;
+      try {
+        for await (const chunk of s.route.provider.chatStream(this.mapModel(s.route, req), attempt.signal)) {
+          if (!started) {
+            // Once output has reached the caller we can no longer switch providers.
+            started = true;
+            attempt.clearTimeout();
+            this.recordSuccess(s);
+          }
+          yield chunk;
+        }
+        if (!started) this.recordSuccess(s);
+        return;
+      } catch (e) {
+        if (signal?.aborted || started) throw e;
+        const err = attempt.timedOut() ? new Error(`Timed out after ${this.timeoutMs}ms`) : e;
+        if (!isRetryableLlmError(err)) throw err;
+        this.recordFailure(s, err);
+        errors.push(`${s.route.id}: ${errorMessage(err)}`);
+      } finally {
+        // also when the caller aborted: a trial that never finished must not block the next one
+        s.trialInFlight = false;
+        attempt.dispose();
+      }
+    }
+    throw this.exhausted(errors);
+  }
+
+  private mapModel<R extends { model: string }>(route: ProviderRoute, req: R): R {
+    const mapped = route.models?.[req.model] ?? route.models?.["*"];
+    return mapped ? { ...req, model: mapped } : req;
+  }
+
+  private refreshState(s: RouteState): void {
+    if (s.health.state === "open" && Date.now() - s.openedAtMs >= this.cooldownMs) {
+      s.health.state = "half-open";
+    }
+  }
+
+  /** Closed circuits in order, plus at most one trial call per half-open circuit. */
+  private *available(eligible: (s: RouteState) => boolean = () => true): Generator<RouteState> {
+    for (const s of this.states) {
+      if (!eligible(s)) continue;
+      this.refreshState(s);
+      if (s.health.state === "open") continue;
+      if (s.health.state === "half-open") {
+        if (s.trialInFlight) continue;
+        s.trialInFlight = true;
+      }
+      yield s;
+    }
+  }
+
+  private recordSuccess(s: RouteState): void {
+    s.trialInFlight = false;
+    s.health.state = "closed";
+    s.health.consecutiveFailures = 0;
+    s.health.totalSuccesses += 1;
+    s.health.lastSuccessAt = new Date().toISOString();
+    delete s.health.openedAt;
+  }
+
+  private recordFailure(s: RouteState, e: unknown): void {
+    const wasTrial = s.health.state === "half-open";
+    s.trialInFlight = false;
+    s.health.consecutiveFailures += 1;
+    s.health.totalFailures += 1;
+    s.health.lastError = errorMessage(e).slice(0, 400);
+    s.health.lastErrorAt = new Date().toISOString();
+    if (wasTrial || s.health.consecutiveFailures >= this.failureThreshold) {
+      s.health.state = "open";
+      s.openedAtMs = Date.now();
+      s.health.openedAt = new Date(s.openedAtMs).toISOString();
+    }
+  }
+
+  private exhausted(errors: string[]): Error {
+    return new Error(
+      errors.length
+        ? `All LLM providers failed: ${errors.join("; ")}`
+        : "No LLM provider available (all circuits open)"
+    );
+  }
+
+  private attemptSignal(outer?: AbortSignal): {
+    signal: AbortSignal;
+    timedOut(): boolean;
+    clearTimeout(): void;
+    dispose(): void;
+  } {
+    const ctrl = new AbortController();
+    let timedOut = false;
+    const onAbort = () => ctrl.abort(outer?.reason);
+    if (outer) {
+      if (outer.aborted) ctrl.abort(outer.reason);
+      else outer.addEventListener("abort", onAbort, { once: true });
+    }
+    let timer: ReturnType<typeof setTimeout> | null = setTimeout(() => {
+      timedOut = true;
+      ctrl.abort(new Error("timeout"));
+    }, this.timeoutMs);
+
+    const clear = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+    };
+    return {
+      signal: ctrl.signal,
+      timedOut: () => timedOut,
+      clearTimeout: clear,
+      dispose: () => {
+        clear();
+        outer?.removeEventListener("abort", onAbort);
+      },
+    };
+  }
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
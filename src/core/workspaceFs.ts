@@ -1,5 +1,10 @@
 import path from "node:path";
 import fs from "node:fs/promises";
+import { watch } from "node:fs";
+import type { FSWatcher } from "node:fs";
+
+/** A file found by `listFiles`; `path` is relative to the workspace root, with forward slashes. */
+export type WorkspaceFileInfo = { path: string; size: number; mtimeMs: number };
 
 async function exists(p: string): Promise<boolean> {
   try {
@@ -67,10 +72,14 @@ export class WorkspaceFS {
   }
 
   async readText(userPath: string, maxBytes = 1_000_000): Promise<string> {
+    return (await this.readBytes(userPath, maxBytes)).toString("utf-8");
+  }
+
+  async readBytes(userPath: string, maxBytes = 1_000_000): Promise<Buffer> {
     const p = await this.ensureInsideWorkspace(userPath, "read");
     const buf = await fs.readFile(p);
     if (buf.byteLength > maxBytes) throw new Error(`File too large: ${buf.byteLength} bytes`);
-    return buf.toString("utf-8");
+    return buf;
   }
 
   async writeText(userPath: string, content: string): Promise<void> {
@@ -90,4 +99,43 @@ export class WorkspaceFS {
     const p = await this.ensureInsideWorkspace(userPath, "delete");
     await fs.rm(p, { recursive: true, force: true });
   }
+
+  /** Every regular file under the root, skipping links and hidden entries (".git", ".env", ...). */
+  async listFiles(): Promise<WorkspaceFileInfo[]> {
+    const root = path.resolve(this.workspaceRoot);
+    const out: WorkspaceFileInfo[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const e of entries) {
+        if (e.name.startsWith(".") || e.isSymbolicLink()) continue;
+        const full = path.join(dir, e.name);
+        if (e.isDirectory()) {
+          await walk(full);
+        } else if (e.isFile()) {
+          const st = await fs.stat(full).catch(() => null);
+          const rel = path.relative(root, full).split(path.sep).join("/");
+          if (st) out.push({ path: rel, size: st.size, mtimeMs: st.mtimeMs });
+        }
+      }
+    };
+    await walk(root);
+    return out;
+  }
+
+  /** Calls `onChange` when anything under the root changes. Returns a function that stops watching. */
+  watch(onChange: () => void): () => void {
+    let watcher: FSWatcher | null = null;
+    try {
+      watcher = watch(path.resolve(this.workspaceRoot), { recursive: true }, () => onChange());
+    } catch {
+      return () => {};
+    }
+    watcher.on("error", () => {});
+    return () => watcher?.close();
+  }
 }
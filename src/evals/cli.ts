@@ -0,0 +1,43 @@
+import { parseArgs } from "node:util";
+import { loadConfig } from "../config.js";
+import { createLlmProvider } from "../core/llmSetup.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+import { formatEvalReport } from "./evalRunner.js";
+import type { EvalReport } from "./evalRunner.js";
+import { runIsolatedEval } from "./evalAgents.js";
+import { loadEvalSuite } from "./suite.js";
+
+const USAGE = "Usage: pnpm eval <suite.json>... [--agent <id>] [--mock] [--json]";
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: { agent: { type: "string" }, mock: { type: "boolean" }, json: { type: "boolean" } },
+  });
+  if (!positionals.length) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const cfg = loadConfig();
+  // --mock answers from each suite's own `mock` rules; otherwise LLM_PROVIDER decides (live, replay, ...).
+  const configured = values.mock ? null : (await createLlmProvider(cfg)).provider;
+  const reports: EvalReport[] = [];
+  for (const file of positionals) {
+    const suite = await loadEvalSuite(file);
+    const provider = configured ?? new MockProvider(suite.mock ?? []);
+    const report = await runIsolatedEval(cfg, provider, suite, { agentId: values.agent });
+    reports.push(report);
+    if (!values.json) console.log(formatEvalReport(report));
+  }
+  if (values.json) console.log(JSON.stringify(reports, null, 2));
+  return reports.every((r) => r.pass) ? 0 : 1;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(2);
+  }
+);
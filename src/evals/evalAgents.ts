@@ -0,0 +1,59 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { AppConfig } from "../config.js";
+import { resolveModels } from "../core/llmSetup.js";
+import type { LLMProvider } from "../core/llmProvider.js";
+import { AgentRegistry, createAgentFromDefinition, createDefaultAgents } from "../core/agents.js";
+import type { AgentBuildDeps } from "../core/agents.js";
+import { WorkspaceFS } from "../core/workspaceFs.js";
+import { ConversationStore } from "../conversation/store.js";
+import { SchedulerEngine } from "../scheduler/schedulerEngine.js";
+import { createFileTools, createFileToolDefinitions } from "../tools/fileTools.js";
+import { createTaskToolDefinitions } from "../tools/taskTools.js";
+import { createDelegateToolDefinition } from "../tools/delegateTool.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { ApprovalManager } from "../tools/approval.js";
+import { EvalRunner } from "./evalRunner.js";
+import type { EvalReport } from "./evalRunner.js";
+import type { EvalSuite } from "./suite.js";
+
+/**
+ * Agents as the server builds them, but with a private approval queue and a scratch directory for tasks and
+ * delegated turns, so an eval never changes live data. The workspace is read from the real data directory.
+ */
+export async function buildEvalAgents(cfg: AppConfig, provider: LLMProvider, scratchDir: string) {
+  const approvalManager = new ApprovalManager();
+  const tools = new ToolRegistry({ approvalManager });
+  for (const t of createFileToolDefinitions(createFileTools(new WorkspaceFS(cfg.workspaceRoot)))) tools.register(t);
+  for (const t of createTaskToolDefinitions(new SchedulerEngine(scratchDir), () => tools.names())) tools.register(t);
+  const agents = new AgentRegistry();
+  tools.register(createDelegateToolDefinition({ agents, convStore: new ConversationStore(scratchDir) }));
+
+  const { models, contextWindows } = resolveModels(cfg);
+  const deps: AgentBuildDeps = { provider, models, tools, contextWindows };
+  for (const a of createDefaultAgents(deps)) agents.register(a);
+  await agents.loadDefinitions(cfg.agentsDir, (def) => createAgentFromDefinition(def, deps));
+  return { agents, approvalManager };
+}
+
+/** Runs a suite against agents from `buildEvalAgents`, in a scratch directory that is removed afterwards. */
+export async function runIsolatedEval(
+  cfg: AppConfig,
+  provider: LLMProvider,
+  suite: EvalSuite,
+  opts: { agentId?: string } = {}
+): Promise<EvalReport> {
+  const scratchDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-eval-"));
+  try {
+    const { agents, approvalManager } = await buildEvalAgents(cfg, provider, scratchDir);
+    const runner = new EvalRunner({
+      agents,
+      approvalManager,
+      judge: { provider, model: resolveModels(cfg).models.judge },
+    });
+    return await runner.run(suite, opts);
+  } finally {
+    await fs.rm(scratchDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { EvalRunner, formatEvalReport, shapeMismatch } from "./evalRunner.js";
+import { runIsolatedEval } from "./evalAgents.js";
+import type { AppConfig } from "../config.js";
+import { validateEvalSuite } from "./suite.js";
+import type { EvalSuite, JsonShape } from "./suite.js";
+import { AgentRegistry, createDefaultAgents } from "../core/agents.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { ApprovalManager } from "../tools/approval.js";
+
+function makeAgents(provider: MockProvider, tools?: ToolRegistry): AgentRegistry {
+  const agents = new AgentRegistry();
+  for (const a of createDefaultAgents({ provider, models: { default: "m", files: "m", scheduler: "m" }, tools })) {
+    agents.register(a);
+  }
+  return agents;
+}
+
+describe("validateEvalSuite", () => {
+  it("reports every problem at once", () => {
+    expect(() =>
+      validateEvalSuite({
+        name: "x",
+        cases: [
+          {
+            id: "a",
+            turns: [
+              {
+                user: "hi",
+                expect: [
+                  { type: "regex", pattern: "(" },
+                  { type: "json", shape: "date" },
+                ],
+              },
+            ],
+          },
+          { id: "a", turns: [] },
+        ],
+      })
+    ).toThrow(/Invalid regular expression.*unknown type "date".*"a" is used twice.*turns must be a non-empty list/);
+  });
+});
+
+describe("shapeMismatch", () => {
+  it("checks types, arrays and optional keys", () => {
+    const shape: JsonShape = { name: "string", tags: ["string"], "age?": "number" };
+    expect(shapeMismatch({ name: "Lin", tags: ["a"] }, shape)).toBeNull();
+    expect(shapeMismatch({ name: "Lin", tags: ["a", 1] }, shape)).toBe("$.tags[1]: expected string, got number");
+    expect(shapeMismatch({ tags: [] }, shape)).toBe("$.name: missing");
+  });
+});
+
+describe("EvalRunner", () => {
+  it("replays turns with seeded memory and checks each reply", async () => {
+    const provider = new MockProvider([
+      { match: { user: "my name" }, response: { text: "Your name is Lin." } },
+      { match: { user: "as JSON" }, response: { text: '```json\n{"name": "Lin"}\n```' } },
+      { match: { system: "grade" }, response: { text: '{"pass": false, "reason": "not polite"}' } },
+    ]);
+    const suite: EvalSuite = {
+      name: "smoke",
+      cases: [
+        {
+          id: "memory",
+          memory: { facts: { name: "Lin" } },
+          turns: [
+            { user: "What is my name?", expect: [{ type: "contains", value: "lin", ignoreCase: true }] },
+            { user: "Answer as JSON", expect: [{ type: "json", shape: { name: "string" } }] },
+          ],
+        },
+        {
+          id: "tone",
+          turns: [
+            {
+              user: "hello",
+              expect: [
+                { type: "regex", pattern: "^\\(mock\\)" },
+                { type: "judge", rubric: "polite" },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    const runner = new EvalRunner({ agents: makeAgents(provider), judge: { provider, model: "judge" } });
+    const report = await runner.run(suite);
+    expect(report).toMatchObject({ suite: "smoke", pass: false, passed: 1, failed: 1 });
+    expect(report.cases[1].turns[0].assertions.map((a) => a.pass)).toEqual([true, false]);
+    expect(formatEvalReport(report)).toContain("turn 1: judge failed: not polite");
+
+    // The second turn sees the first exchange as recent history.
+    const second = provider.requests[1].messages.map((m) => m.content).join("\n");
+    expect(second).toContain("Your name is Lin.");
+    expect(provider.requests.at(-1)?.attribution?.purpose).toBe("eval");
+  });
+
+  it("checks tool calls and never leaves approvals queued", async () => {
+    const approvalManager = new ApprovalManager();
+    const tools = new ToolRegistry({ approvalManager });
+    for (const name of ["file.list", "file.read", "file.write", "file.delete"]) {
+      tools.register({
+        name,
+        description: name,
+        parameters: { type: "object" },
+        mutating: name === "file.write" || name === "file.delete",
+        run: async () => ({ ok: true, data: [] }),
+      });
+    }
+    const provider = new MockProvider([
+      {
+        match: { user: "clean up" },
+        response: {
+          text: "",
+          toolCalls: [{ id: "c1", type: "function", function: { name: "file_delete", arguments: '{"path":"a.log"}' } }],
+        },
+        times: 1,
+      },
+    ]);
+    const suite = validateEvalSuite({
+      name: "tools",
+      agent: "files",
+      cases: [
+        {
+          id: "delete",
+          turns: [
+            {
+              user: "clean up a.log",
+              expect: [
+                { type: "toolCall", tool: "file.delete", result: "pending" },
+                { type: "toolCall", tool: "file.list" },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+
+    const report = await new EvalRunner({ agents: makeAgents(provider, tools), approvalManager }).run(suite);
+    const [deleted, listed] = report.cases[0].turns[0].assertions;
+    expect(deleted.pass).toBe(true);
+    expect(listed).toMatchObject({ pass: false, detail: "calls made: file.delete:pending" });
+    expect(approvalManager.list()).toEqual([]);
+
+    const missing = await new EvalRunner({ agents: makeAgents(provider) }).run(suite, { agentId: "nobody" });
+    expect(missing.cases[0].turns[0].error).toContain("nobody");
+  });
+});
+
+describe("runIsolatedEval", () => {
+  it("runs delegations in a scratch store that is removed afterwards", async () => {
+    const root = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-eval-isolated-"));
+    const cfg = {
+      workspaceRoot: root,
+      agentsDir: path.join(root, "agents"),
+      llm: { models: { default: "m", files: "m", scheduler: "m", judge: "m" }, slotBackends: {}, contextWindows: {} },
+    } as unknown as AppConfig;
+    const provider = new MockProvider([
+      {
+        match: { user: "ask files" },
+        response: {
+          text: "",
+          toolCalls: [
+            {
+              id: "c1",
+              type: "function",
+              function: { name: "agent_delegate", arguments: '{"agent":"files","task":"list"}' },
+            },
+          ],
+        },
+        times: 1,
+      },
+    ]);
+    const suite = validateEvalSuite({
+      name: "isolated",
+      cases: [
+        {
+          id: "delegate",
+          turns: [{ user: "ask files", expect: [{ type: "toolCall", tool: "agent.delegate", result: "ok" }] }],
+        },
+      ],
+    });
+    const before = await fs.readdir(os.tmpdir());
+    try {
+      const report = await runIsolatedEval(cfg, provider, suite);
+      expect(report.pass).toBe(true);
+      const after = await fs.readdir(os.tmpdir());
+      expect(after.filter((f) => f.startsWith("everybot-eval-") && !before.includes(f))).toEqual([]);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,216 @@
+import type { AgentRegistry, MemoryPack } from "../core/agents.js";
+import type { LLMProvider } from "../core/llmProvider.js";
+import type { ApprovalManager } from "../tools/approval.js";
+import type { ToolStep } from "../tools/registry.js";
+import type { EvalAssertion, EvalCase, EvalSuite, JsonShape } from "./suite.js";
+
+export type AssertionResult = { assertion: EvalAssertion; pass: boolean; detail?: string };
+
+export type TurnResult = {
+  user: string;
+  reply: string;
+  tools: ToolStep[];
+  assertions: AssertionResult[];
+  error?: string;
+};
+
+export type CaseResult = { id: string; agent: string; pass: boolean; turns: TurnResult[]; durationMs: number };
+
+export type EvalReport = {
+  suite: string;
+  pass: boolean;
+  passed: number;
+  failed: number;
+  cases: CaseResult[];
+  startedAt: string;
+  durationMs: number;
+};
+
+export type EvalRunnerDeps = {
+  agents: AgentRegistry;
+  /** Model that grades `judge` assertions; without it they fail. */
+  judge?: { provider: LLMProvider; model: string };
+  /** Approvals queued by tool calls during a run are rejected here so they never execute. */
+  approvalManager?: ApprovalManager;
+};
+
+/** Parses a reply as JSON, also when the model wrapped it in a ``` fence or surrounding prose. */
+function parseJsonReply(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text.slice(Math.max(0, text.search(/[[{]/)));
+  return JSON.parse(candidate.trim());
+}
+
+/** Returns the first mismatch between a value and a shape, or null when it matches. */
+export function shapeMismatch(value: unknown, shape: JsonShape, at = "$"): string | null {
+  if (typeof shape === "string") {
+    const actual = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+    return shape === "any" || shape === actual ? null : `${at}: expected ${shape}, got ${actual}`;
+  }
+  if (Array.isArray(shape)) {
+    if (!Array.isArray(value)) return `${at}: expected array`;
+    for (let i = 0; i < value.length; i++) {
+      const m = shapeMismatch(value[i], shape[0], `${at}[${i}]`);
+      if (m) return m;
+    }
+    return null;
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) return `${at}: expected object`;
+  const obj = value as Record<string, unknown>;
+  for (const [rawKey, sub] of Object.entries(shape)) {
+    const optional = rawKey.endsWith("?");
+    const key = optional ? rawKey.slice(0, -1) : rawKey;
+    if (!(key in obj)) {
+      if (optional) continue;
+      return `${at}.${key}: missing`;
+    }
+    const m = shapeMismatch(obj[key], sub, `${at}.${key}`);
+    if (m) return m;
+  }
+  return null;
+}
+
+/**
+ * Replays golden conversations against registered agents and checks each reply. Every case starts from
+ * its seeded memory; replies of earlier turns become recent turns of later ones, as in a live chat.
+ */
+export class EvalRunner {
+  constructor(private deps: EvalRunnerDeps) {}
+
+  /** `agentId` runs every case against that agent instead of the ones named in the suite. */
+  async run(suite: EvalSuite, opts: { agentId?: string } = {}): Promise<EvalReport> {
+    const started = Date.now();
+    const cases: CaseResult[] = [];
+    for (const c of suite.cases)
+      cases.push(await this.runCase(c, opts.agentId ?? c.agent ?? suite.agent ?? "default", suite.name));
+    const passed = cases.filter((c) => c.pass).length;
+    return {
+      suite: suite.name,
+      pass: passed === cases.length,
+      passed,
+      failed: cases.length - passed,
+      cases,
+      startedAt: new Date(started).toISOString(),
+      durationMs: Date.now() - started,
+    };
+  }
+
+  private async runCase(c: EvalCase, agentId: string, suiteName: string): Promise<CaseResult> {
+    const started = Date.now();
+    const convId = `eval-${suiteName}-${c.id}`.replace(/[^A-Za-z0-9_-]/g, "_");
+    const memory: MemoryPack = { summary: c.memory?.summary ?? "", facts: { ...c.memory?.facts }, recentTurns: [] };
+    const turns: TurnResult[] = [];
+
+    for (const turn of c.turns) {
+      const tools: ToolStep[] = [];
+      let reply = "";
+      let error: string | undefined;
+      try {
+        const agent = this.deps.agents.get(agentId);
+        reply = await agent.handle(turn.user, { convId, agentId, purpose: "eval" }, memory, {
+          onToolStep: (s) => tools.push(s),
+        });
+      } catch (e) {
+        error = e instanceof Error ? e.message : String(e);
+      }
+      for (const s of tools) if (s.pendingId) this.deps.approvalManager?.reject(s.pendingId);
+
+      const assertions: AssertionResult[] = [];
+      for (const a of turn.expect ?? []) {
+        assertions.push(
+          error ? { assertion: a, pass: false, detail: "agent failed" } : await this.check(a, turn.user, reply, tools)
+        );
+      }
+      turns.push({ user: turn.user, reply, tools, assertions, ...(error ? { error } : {}) });
+      if (error) break;
+      memory.recentTurns.push({ role: "user", text: turn.user }, { role: "bot", text: reply });
+    }
+
+    const pass = turns.length === c.turns.length && turns.every((t) => !t.error && t.assertions.every((a) => a.pass));
+    return { id: c.id, agent: agentId, pass, turns, durationMs: Date.now() - started };
+  }
+
+  private async check(a: EvalAssertion, user: string, reply: string, tools: ToolStep[]): Promise<AssertionResult> {
+    const result = (pass: boolean, detail?: string): AssertionResult => ({
+      assertion: a,
+      pass,
+      ...(detail ? { detail } : {}),
+    });
+    switch (a.type) {
+      case "contains":
+      case "notContains": {
+        const found = a.ignoreCase ? reply.toLowerCase().includes(a.value.toLowerCase()) : reply.includes(a.value);
+        return a.type === "contains"
+          ? result(found, found ? undefined : `"${a.value}" not found`)
+          : result(!found, found ? `"${a.value}" found` : undefined);
+      }
+      case "regex": {
+        const ok = new RegExp(a.pattern, a.flags).test(reply);
+        return result(ok, ok ? undefined : `no match for /${a.pattern}/${a.flags ?? ""}`);
+      }
+      case "json": {
+        let value: unknown;
+        try {
+          value = parseJsonReply(reply);
+        } catch {
+          return result(false, "reply is not JSON");
+        }
+        const mismatch = shapeMismatch(value, a.shape);
+        return result(!mismatch, mismatch ?? undefined);
+      }
+      case "toolCall": {
+        const ok = tools.some((s) => s.tool === a.tool && (!a.result || s.result === a.result));
+        const made = tools.map((s) => `${s.tool}:${s.result}`).join(", ") || "none";
+        return result(ok, ok ? undefined : `calls made: ${made}`);
+      }
+      case "judge":
+        try {
+          const verdict = await this.judge(a.rubric, user, reply);
+          return result(verdict.pass, verdict.reason);
+        } catch (e) {
+          return result(false, `judge failed: ${e instanceof Error ? e.message : String(e)}`);
+        }
+    }
+  }
+
+  private async judge(rubric: string, user: string, reply: string): Promise<{ pass: boolean; reason?: string }> {
+    const judge = this.deps.judge;
+    if (!judge) return { pass: false, reason: "no judge model configured" };
+    const res = await judge.provider.chat({
+      model: judge.model,
+      attribution: { purpose: "eval" },
+      messages: [
+        {
+          role: "system",
+          content: [
+            "You grade an assistant reply against a rubric. Be strict: pass only if every point is met.",
+            'Reply with STRICT JSON only: {"pass": true|false, "reason": "<one sentence>"}',
+          ].join("\n"),
+        },
+        { role: "user", content: `Rubric:\n${rubric}\n\nUser message:\n${user}\n\nAssistant reply:\n${reply}` },
+      ],
+      temperature: 0,
+      max_tokens: 200,
+    });
+    const m = res.text.match(/\{[\s\S]*\}/);
+    if (!m) throw new Error("judge did not return JSON");
+    const obj = JSON.parse(m[0]) as { pass?: unknown; reason?: unknown };
+    return { pass: obj.pass === true, ...(typeof obj.reason === "string" ? { reason: obj.reason } : {}) };
+  }
+}
+
+/** Plain-text report for the CLI: one line per case, failing assertions indented below. */
+export function formatEvalReport(report: EvalReport): string {
+  const lines = [`Suite ${report.suite}: ${report.passed}/${report.cases.length} passed (${report.durationMs} ms)`];
+  for (const c of report.cases) {
+    lines.push(`  ${c.pass ? "PASS" : "FAIL"} ${c.id} [${c.agent}]`);
+    if (c.pass) continue;
+    c.turns.forEach((t, i) => {
+      if (t.error) lines.push(`    turn ${i + 1}: error: ${t.error}`);
+      for (const a of t.assertions) {
+        if (!a.pass) lines.push(`    turn ${i + 1}: ${a.assertion.type} failed${a.detail ? `: ${a.detail}` : ""}`);
+      }
+    });
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,145 @@
+import fs from "node:fs/promises";
+import type { MockRule } from "../core/fixtureProviders.js";
+import type { ToolStep } from "../tools/registry.js";
+
+/**
+ * Expected JSON structure: a type name ("string", "number", "boolean", "array", "object", "null", "any"),
+ * `[shape]` for an array whose items all match, or an object of key shapes ("key?" marks an optional key).
+ */
+export type JsonShape = string | [JsonShape] | { [key: string]: JsonShape };
+
+export type EvalAssertion =
+  | { type: "contains"; value: string; ignoreCase?: boolean }
+  | { type: "notContains"; value: string; ignoreCase?: boolean }
+  | { type: "regex"; pattern: string; flags?: string }
+  | { type: "json"; shape: JsonShape }
+  | { type: "toolCall"; tool: string; result?: ToolStep["result"] }
+  /** Graded by the judge model against a free-text rubric. */
+  | { type: "judge"; rubric: string };
+
+export type EvalTurn = { user: string; expect?: EvalAssertion[] };
+
+export type EvalCase = {
+  id: string;
+  /** Agent id; defaults to the suite's agent, then "default". */
+  agent?: string;
+  /** Seeded conversation memory, as if earlier turns had been summarized. */
+  memory?: { summary?: string; facts?: Record<string, unknown> };
+  turns: EvalTurn[];
+};
+
+export type EvalSuite = {
+  name: string;
+  agent?: string;
+  /** MockProvider rules used when the suite runs against the stand-in provider. */
+  mock?: MockRule[];
+  cases: EvalCase[];
+};
+
+const SHAPE_TYPES = ["string", "number", "boolean", "array", "object", "null", "any"];
+
+function checkShape(shape: unknown, at: string, problems: string[]): void {
+  if (typeof shape === "string") {
+    if (!SHAPE_TYPES.includes(shape)) problems.push(`${at}: unknown type "${shape}"`);
+  } else if (Array.isArray(shape)) {
+    if (shape.length !== 1) problems.push(`${at}: array shapes take exactly one item shape`);
+    else checkShape(shape[0], `${at}[]`, problems);
+  } else if (shape && typeof shape === "object") {
+    for (const [k, v] of Object.entries(shape)) checkShape(v, `${at}.${k}`, problems);
+  } else {
+    problems.push(`${at}: invalid shape`);
+  }
+}
+
+function checkAssertion(raw: unknown, at: string, problems: string[]): void {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    problems.push(`${at} must be an object`);
+    return;
+  }
+  const a = raw as Record<string, unknown>;
+  const needString = (key: string) => {
+    if (typeof a[key] !== "string" || !a[key]) problems.push(`${at}.${key} is required`);
+  };
+  switch (a.type) {
+    case "contains":
+    case "notContains":
+      needString("value");
+      break;
+    case "regex":
+      needString("pattern");
+      try {
+        new RegExp(String(a.pattern), typeof a.flags === "string" ? a.flags : undefined);
+      } catch (e) {
+        problems.push(`${at}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+      break;
+    case "json":
+      checkShape(a.shape, `${at}.shape`, problems);
+      break;
+    case "toolCall":
+      needString("tool");
+      if (a.result != null && !["ok", "pending", "error"].includes(String(a.result))) {
+        problems.push(`${at}.result must be ok, pending or error`);
+      }
+      break;
+    case "judge":
+      needString("rubric");
+      break;
+    default:
+      problems.push(`${at}.type must be contains, notContains, regex, json, toolCall or judge`);
+  }
+}
+
+/** Checks a parsed suite file, or throws with every problem found. */
+export function validateEvalSuite(raw: unknown): EvalSuite {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("Eval suite must be an object");
+  const o = raw as Record<string, unknown>;
+  const problems: string[] = [];
+
+  if (typeof o.name !== "string" || !o.name.trim()) problems.push("name is required");
+  if (o.agent != null && typeof o.agent !== "string") problems.push("agent must be a string");
+  if (o.mock != null && !Array.isArray(o.mock)) problems.push("mock must be a list of rules");
+  if (!Array.isArray(o.cases) || !o.cases.length) {
+    problems.push("cases must be a non-empty list");
+  } else {
+    const ids = new Set<string>();
+    o.cases.forEach((c: unknown, i) => {
+      const at = `cases[${i}]`;
+      if (!c || typeof c !== "object" || Array.isArray(c)) {
+        problems.push(`${at} must be an object`);
+        return;
+      }
+      const ec = c as Record<string, unknown>;
+      if (typeof ec.id !== "string" || !ec.id) problems.push(`${at}.id is required`);
+      else if (ids.has(ec.id)) problems.push(`${at}.id "${ec.id}" is used twice`);
+      else ids.add(ec.id);
+      if (ec.agent != null && typeof ec.agent !== "string") problems.push(`${at}.agent must be a string`);
+      if (ec.memory != null && (typeof ec.memory !== "object" || Array.isArray(ec.memory))) {
+        problems.push(`${at}.memory must be an object`);
+      }
+      if (!Array.isArray(ec.turns) || !ec.turns.length) {
+        problems.push(`${at}.turns must be a non-empty list`);
+        return;
+      }
+      ec.turns.forEach((t: unknown, j) => {
+        const tat = `${at}.turns[${j}]`;
+        const turn = (t ?? {}) as Record<string, unknown>;
+        if (typeof turn.user !== "string" || !turn.user) problems.push(`${tat}.user is required`);
+        if (turn.expect == null) return;
+        if (!Array.isArray(turn.expect)) problems.push(`${tat}.expect must be a list`);
+        else turn.expect.forEach((a: unknown, k) => checkAssertion(a, `${tat}.expect[${k}]`, problems));
+      });
+    });
+  }
+
+  if (problems.length) throw new Error(problems.join("; "));
+  return o as EvalSuite;
+}
+
+export async function loadEvalSuite(file: string): Promise<EvalSuite> {
+  try {
+    return validateEvalSuite(JSON.parse(await fs.readFile(file, "utf-8")));
+  } catch (e) {
+    throw new Error(`${file}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
@@ -1,13 +1,23 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { loadConfig } from "./config.js";
-import { SiliconFlowProvider } from "./core/llmProvider.js";
-import { AgentRegistry, createDefaultAgents } from "./core/agents.js";
+import { createLlmProvider, resolveModels } from "./core/llmSetup.js";
+import { qualifyModel } from "./core/providerMux.js";
+import { UsageLedger } from "./usage/usageLedger.js";
+import { MeteredProvider } from "./usage/meteredProvider.js";
+import { AgentRegistry, createAgentFromDefinition, createDefaultAgents } from "./core/agents.js";
+import { IntentRouter } from "./core/intentRouter.js";
+import type { AgentBuildDeps, AgentLoadError } from "./core/agents.js";
+import type { AgentDefinition } from "./core/agentDefinitions.js";
 import { WorkspaceFS } from "./core/workspaceFs.js";
 import { ConversationStore } from "./conversation/store.js";
 import { ProcessedStore } from "./conversation/processedStore.js";
 import { MemoryEngine } from "./memory/memoryEngine.js";
-import { createFileTools } from "./tools/fileTools.js";
+import { createFileTools, createFileToolDefinitions } from "./tools/fileTools.js";
+import { createTaskToolDefinitions } from "./tools/taskTools.js";
+import { createDelegateToolDefinition } from "./tools/delegateTool.js";
+import { createAttachToolDefinition } from "./tools/attachTool.js";
+import { ToolRegistry } from "./tools/registry.js";
 import { AuditLogger } from "./tools/audit.js";
 import { ApprovalManager } from "./tools/approval.js";
 import nodemailer from "nodemailer";
@@ -15,61 +25,180 @@ import { createHttpServer, startHttpServer } from "./server/http.js";
 import { EmailChannel } from "./channels/email.js";
 import { SchedulerEngine } from "./scheduler/schedulerEngine.js";
 import { SchedulerRunner } from "./scheduler/runner.js";
-import type { SchedulerExecutor } from "./scheduler/runner.js";
+import { createSchedulerExecutor } from "./scheduler/executor.js";
+import { runIsolatedEval } from "./evals/evalAgents.js";
+import { SearchIndex } from "./search/searchIndex.js";
+import { Retriever } from "./search/retriever.js";
+import { WorkspaceIndex } from "./search/workspaceIndex.js";
+import { ConversationArchive } from "./conversation/archive.js";
+import { ConversationTitler } from "./conversation/metadata.js";
+import { AttachmentStore } from "./conversation/attachments.js";
+import { openStorage } from "./storage/storageSetup.js";
+import { RetentionCompactor } from "./storage/retention.js";
 
-async function ensureDirs(dataDir: string): Promise<void> {
+async function ensureDirs(dataDir: string, agentsDir: string, evalsDir: string): Promise<void> {
   await fs.mkdir(path.join(dataDir, "conv"), { recursive: true });
   await fs.mkdir(path.join(dataDir, "workspace"), { recursive: true });
+  await fs.mkdir(agentsDir, { recursive: true });
+  await fs.mkdir(evalsDir, { recursive: true });
 }
 
 async function main(): Promise<void> {
   const cfg = loadConfig();
-  await ensureDirs(cfg.dataDir);
+  await ensureDirs(cfg.dataDir, cfg.agentsDir, cfg.evalsDir);
 
-  const provider = new SiliconFlowProvider(cfg.llm.baseUrl, cfg.llm.apiKey);
-  const agents = new AgentRegistry();
-  for (const a of createDefaultAgents({
-    provider,
-    models: {
-      default: cfg.llm.models.default,
-      files: cfg.llm.models.files,
-      scheduler: cfg.llm.models.scheduler,
-    },
-  })) {
-    agents.register(a);
-  }
+  const storage = await openStorage(cfg);
+  const workspaceFs = new WorkspaceFS(cfg.workspaceRoot);
+  const fileTools = createFileTools(workspaceFs);
+  const auditLogger = new AuditLogger(cfg.dataDir, storage.audit);
+  const approvalManager = new ApprovalManager();
+  const toolRegistry = new ToolRegistry({ approvalManager, auditLogger });
+  for (const t of createFileToolDefinitions(fileTools)) toolRegistry.register(t);
+  const attachments = new AttachmentStore(cfg.dataDir, workspaceFs, cfg.attachments);
+  toolRegistry.register(createAttachToolDefinition(attachments));
+  const schedulerEngine = new SchedulerEngine(cfg.dataDir, storage.tasks);
+  await schedulerEngine.load();
+  for (const t of createTaskToolDefinitions(schedulerEngine, () => toolRegistry.names())) toolRegistry.register(t);
 
-  const convStore = new ConversationStore(cfg.dataDir);
+  const { providerRouter, provider: baseProvider } = await createLlmProvider(cfg);
+  const usageLedger = new UsageLedger(cfg.dataDir, {
+    dailyTokens: cfg.usage.dailyTokenBudget,
+    monthlyTokens: cfg.usage.monthlyTokenBudget,
+  });
+  await usageLedger.load();
+  const provider = new MeteredProvider(baseProvider, usageLedger);
+  const { model, models, contextWindows } = resolveModels(cfg);
+
+  const convStore = new ConversationStore(cfg.dataDir, storage.conversations);
+  const searchIndex = new SearchIndex(cfg.dataDir, convStore);
+  await searchIndex.load();
+  convStore.onAppend((convId, item) => searchIndex.add(convId, item));
+  convStore.onDelete((convId) => searchIndex.remove(convId));
+  convStore.onCompact((convId, kept) => searchIndex.replace(convId, kept));
+  const { retrieval } = cfg.memory;
+  const retriever =
+    retrieval.topK > 0
+      ? new Retriever(searchIndex, {
+          topK: retrieval.topK,
+          maxChars: retrieval.maxChars,
+          ...(retrieval.embedModel
+            ? { embedding: { provider, model: qualifyModel(retrieval.embedBackend, retrieval.embedModel) } }
+            : {}),
+        })
+      : undefined;
+  const workspaceIndex =
+    cfg.memory.documents.topK > 0
+      ? new WorkspaceIndex(workspaceFs, { chunkLines: cfg.memory.documents.chunkLines })
+      : undefined;
+  if (workspaceIndex) {
+    await workspaceIndex.refresh();
+    workspaceIndex.watch();
+  }
+  const memoryLlmAvailable =
+    cfg.llm.mode === "mock" ||
+    cfg.llm.mode === "replay" ||
+    !!cfg.llm.apiKey ||
+    (cfg.llm.slotBackends.memorySummary !== "siliconflow" && cfg.llm.slotBackends.memoryFacts !== "siliconflow");
   const memoryEngine = new MemoryEngine(
     cfg.dataDir,
     convStore,
-    cfg.llm.apiKey ? provider : null,
-    { summary: cfg.llm.models.memorySummary, facts: cfg.llm.models.memoryFacts }
+    memoryLlmAvailable ? provider : null,
+    { summary: model("memorySummary"), facts: model("memoryFacts") },
+    {
+      profileExtraction: cfg.memory.profileExtraction,
+      maxFactDeletions: cfg.memory.maxFactDeletions,
+      ...(cfg.memory.queue.enabled ? { queue: cfg.memory.queue } : {}),
+      factsSchema: (agentId) => (agents.has(agentId) ? agents.get(agentId).definition?.memory?.factsSchema : undefined),
+      retriever,
+      ...(workspaceIndex ? { documents: { index: workspaceIndex, topK: cfg.memory.documents.topK } } : {}),
+    }
   );
+  if (retriever) {
+    memoryEngine.onSummary((convId, summary) => retriever.setSummary(convId, summary));
+    const convIds = (await convStore.listConversations()).map((m) => m.convId);
+    await retriever.load(convIds, (convId) => memoryEngine.readSummary(convId));
+    convStore.onDelete((convId) => retriever.remove(convId));
+  }
+  const titleLlmAvailable =
+    cfg.llm.mode === "mock" ||
+    cfg.llm.mode === "replay" ||
+    !!cfg.llm.apiKey ||
+    cfg.llm.slotBackends.title !== "siliconflow";
+  const titler = new ConversationTitler(convStore, titleLlmAvailable ? provider : null, model("title"));
+  convStore.onAppend((convId, item) => {
+    if (item.role !== "bot" || item.delegation) return;
+    titler.ensureTitle(convId).catch((e) => console.error("[EveryBot] conversation title failed:", e));
+  });
 
-  const workspaceFs = new WorkspaceFS(cfg.workspaceRoot);
-  const fileTools = createFileTools(workspaceFs);
-  const auditLogger = new AuditLogger(cfg.dataDir);
-  const approvalManager = new ApprovalManager();
-
-  const schedulerEngine = new SchedulerEngine(cfg.dataDir);
-  await schedulerEngine.load();
+  const agentDeps: AgentBuildDeps = {
+    provider,
+    models,
+    tools: toolRegistry,
+    contextWindows,
+  };
+  const agents = new AgentRegistry();
+  toolRegistry.register(createDelegateToolDefinition({ agents, convStore, memoryEngine }));
+  for (const a of createDefaultAgents(agentDeps)) agents.register(a);
+  const buildAgent = (def: AgentDefinition) => createAgentFromDefinition(def, agentDeps);
+  const reportAgentErrors = (errors: AgentLoadError[]) => {
+    for (const e of errors) console.error(`[EveryBot] agent definition ${e.file}: ${e.error}`);
+  };
+  await agents.loadDefinitions(cfg.agentsDir, buildAgent);
+  reportAgentErrors(agents.loadErrors());
+  // queued updates can look up the agents' facts schemas from here on
+  await memoryEngine.start();
+  agents.watchDefinitions(cfg.agentsDir, buildAgent, reportAgentErrors);
+  const intentRouter =
+    cfg.routing.mode === "off"
+      ? undefined
+      : new IntentRouter(agents, {
+          mode: cfg.routing.mode,
+          minConfidence: cfg.routing.minConfidence,
+          provider,
+          model: model("routing"),
+        });
 
   const server = createHttpServer(cfg, convStore, agents, memoryEngine, {
     fileTools,
     auditLogger,
     approvalManager,
     schedulerEngine,
+    toolRegistry,
+    providerRouter,
+    usageLedger,
+    intentRouter,
+    evalRunner: { run: (suite, opts) => runIsolatedEval(cfg, provider, suite, opts) },
+    searchIndex,
+    archive: new ConversationArchive(convStore, memoryEngine, { userAddress: cfg.mail.user }),
+    titler,
+    attachments,
+    workspaceIndex,
   });
   await startHttpServer(server, cfg.port);
 
   // eslint-disable-next-line no-console
   console.log(`[EveryBot] HTTP server listening on http://localhost:${cfg.port}`);
 
-  const processedStore = new ProcessedStore(cfg.dataDir);
-  const emailChannel = new EmailChannel(cfg, agents, convStore, processedStore, memoryEngine);
+  const processedStore = new ProcessedStore(cfg.dataDir, storage.processed);
+  const emailChannel = new EmailChannel(
+    cfg,
+    agents,
+    convStore,
+    processedStore,
+    memoryEngine,
+    usageLedger,
+    intentRouter ?? null,
+    attachments
+  );
   await emailChannel.start();
 
+  new RetentionCompactor(cfg.dataDir, cfg.retention, {
+    convStore,
+    tasks: storage.tasks,
+    audit: storage.audit,
+    processed: processedStore,
+  }).start();
+
   const smtpTransport =
     cfg.mail.user && cfg.mail.pass
       ? nodemailer.createTransport({
@@ -80,34 +209,13 @@ async function main(): Promise<void> {
         })
       : null;
 
-  const executor: SchedulerExecutor = {
-    async sendMessage(channel: string, target: string | undefined, text: string): Promise<void> {
-      if (channel === "mail" && smtpTransport && cfg.mail.user) {
-        await smtpTransport.sendMail({
-          from: cfg.mail.user,
-          to: target ?? cfg.mail.user,
-          subject: "[EveryBot] Scheduled",
-          text,
-        });
-      }
-    },
-    async runTool(toolName: string, args: Record<string, unknown>): Promise<unknown> {
-      if (toolName === "file.list") return await fileTools.list((args.path as string) ?? ".");
-      if (toolName === "file.read") return await fileTools.read((args.path as string) ?? "", (args.maxBytes as number) ?? 1_000_000);
-      if (toolName === "file.write") return await fileTools.write((args.path as string) ?? "", (args.content as string) ?? "");
-      if (toolName === "file.delete") return await fileTools.delete((args.path as string) ?? "");
-      throw new Error(`Unknown tool: ${toolName}`);
-    },
-    async runChat(promptTemplate: string): Promise<string> {
-      const meta = await convStore.createConversation(cfg.defaultAgent);
-      const memory = memoryEngine ? await memoryEngine.buildMemoryPack(meta.convId) : { summary: "", facts: {}, recentTurns: [] };
-      const agent = agents.get(cfg.defaultAgent);
-      return await agent.handle(promptTemplate, { convId: meta.convId, agentId: cfg.defaultAgent }, memory);
-    },
-  };
+  const executor = createSchedulerExecutor({ cfg, convStore, agents, memoryEngine, toolRegistry, smtpTransport });
 
   const schedulerRunner = new SchedulerRunner(schedulerEngine, executor);
   await schedulerRunner.start();
+  schedulerEngine.onChange(() => {
+    schedulerRunner.reload().catch((e) => console.error("[EveryBot] scheduler reload failed:", e));
+  });
 }
 
 main().catch((e) => {
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { appendVersion, diffFacts, factsAt, readVersions, removedKeys } from "./factsHistory.js";
+import { checkFactsSchema, enforceFactsSchema } from "./factsSchema.js";
+
+describe("facts history", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-facts-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("diffs facts into versions and undoes newer applied versions", async () => {
+    const file = path.join(dir, "conv", "facts.history.jsonl");
+    const v1 = { city: "Oslo", hotel: "Ibis" };
+    const v2 = { city: "Oslo", hotel: "Bristol", nights: 2 };
+    expect(diffFacts(v1, v2)).toEqual({ hotel: { from: "Ibis", to: "Bristol" }, nights: { to: 2 } });
+    expect(removedKeys(diffFacts(v2, { city: "Oslo" }))).toEqual(["hotel", "nights"]);
+
+    expect(await appendVersion(file, diffFacts({}, v1), { source: "extraction", msgNos: [1] })).toMatchObject({
+      version: 1,
+      msgNos: [1],
+    });
+    await appendVersion(file, diffFacts(v1, v2), { source: "api" });
+    await appendVersion(file, diffFacts(v2, {}), { source: "extraction", msgNos: [3] }, "removes 3 facts");
+    expect(await appendVersion(file, {}, { source: "api" })).toBeNull();
+    await fs.appendFile(file, '{"version":4,');
+
+    const versions = await readVersions(file);
+    expect(versions.map((v) => [v.version, v.source, v.refused])).toEqual([
+      [1, "extraction", undefined],
+      [2, "api", undefined],
+      [3, "extraction", "removes 3 facts"],
+    ]);
+    expect(factsAt(v2, versions, 2)).toEqual(v2);
+    expect(factsAt(v2, versions, 1)).toEqual(v1);
+    expect(factsAt(v2, versions, 0)).toEqual({});
+  });
+});
+
+describe("facts schema", () => {
+  const schema = {
+    type: "object",
+    properties: {
+      city: { type: "string" },
+      nights: { type: "integer" },
+      tags: { type: "array", items: { enum: ["a", "b"] } },
+    },
+    additionalProperties: false,
+  };
+
+  it("checks agent schemas", () => {
+    expect(checkFactsSchema(schema)).toBeNull();
+    expect(checkFactsSchema([])).toBe("memory.factsSchema must be an object");
+    expect(checkFactsSchema({ properties: { city: { type: "text" } } })).toMatch(
+      /^memory\.factsSchema\.properties\.city\.type must be one of/
+    );
+  });
+
+  it("keeps the previous value of facts that do not match", () => {
+    const prev = { city: "Oslo", nights: 2 };
+    const next = { city: 42, nights: 3, tags: ["a", "c"], mood: "happy" };
+    expect(enforceFactsSchema(prev, next, schema)).toEqual({
+      facts: { city: "Oslo", nights: 3 },
+      rejected: ["city", "tags", "mood"],
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+
+/** What changed the facts: the model after a reply, the API, a rollback, a memory rebuild, a branch switch or an import. */
+export type FactsSource = "extraction" | "api" | "rollback" | "rebuild" | "branch" | "import";
+
+export type FactsProvenance = {
+  source: FactsSource;
+  /** Bot messages of the exchange the facts were extracted from. */
+  msgNos?: number[];
+  /** The conversation of those messages, for the global profile. */
+  convId?: string;
+  agentId?: string;
+};
+
+/** One fact's change: `from` is missing for an added fact, `to` for a removed one. */
+export type FactChange = { from?: unknown; to?: unknown };
+
+export type FactsVersion = {
+  version: number;
+  at: string;
+  source: FactsSource;
+  msgNos: number[];
+  convId?: string;
+  agentId?: string;
+  changes: Record<string, FactChange>;
+  /** Why the update was not applied (e.g. it removed too many facts); its changes are what it proposed. */
+  refused?: string;
+};
+
+/** An update that removes more facts than allowed and was not confirmed. */
+export class FactsDeletionError extends Error {
+  constructor(public removed: string[]) {
+    super(`Update removes ${removed.length} facts (${removed.join(", ")}); confirm to apply it`);
+    this.name = "FactsDeletionError";
+  }
+}
+
+/** A rollback to a version that was never recorded, or was refused and so never applied. */
+export class FactsVersionError extends Error {
+  constructor(public version: number) {
+    super(`Unknown facts version: ${version}`);
+    this.name = "FactsVersionError";
+  }
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Added, changed and removed facts between two versions. */
+export function diffFacts(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, FactChange> {
+  const changes: Record<string, FactChange> = {};
+  for (const [key, to] of Object.entries(after)) {
+    if (!Object.hasOwn(before, key)) changes[key] = { to };
+    else if (!same(before[key], to)) changes[key] = { from: before[key], to };
+  }
+  for (const [key, from] of Object.entries(before)) if (!Object.hasOwn(after, key)) changes[key] = { from };
+  return changes;
+}
+
+/** `facts` with `changes` made: facts get their `to` value, or are removed when it is missing. */
+export function applyChanges(
+  facts: Record<string, unknown>,
+  changes: Record<string, FactChange>
+): Record<string, unknown> {
+  const out = { ...facts };
+  for (const [key, c] of Object.entries(changes)) {
+    if (Object.hasOwn(c, "to")) out[key] = c.to;
+    else delete out[key];
+  }
+  return out;
+}
+
+export function removedKeys(changes: Record<string, FactChange>): string[] {
+  return Object.entries(changes)
+    .filter(([, c]) => Object.hasOwn(c, "from") && !Object.hasOwn(c, "to"))
+    .map(([key]) => key);
+}
+
+/** `facts` as they were at `version`: the applied versions after it are undone, newest first. */
+export function factsAt(
+  facts: Record<string, unknown>,
+  versions: FactsVersion[],
+  version: number
+): Record<string, unknown> {
+  const out = { ...facts };
+  for (const v of [...versions].reverse()) {
+    if (v.version <= version) break;
+    if (v.refused) continue;
+    for (const [key, c] of Object.entries(v.changes)) {
+      if (Object.hasOwn(c, "from")) out[key] = c.from;
+      else delete out[key];
+    }
+  }
+  return out;
+}
+
+/** Versions of one facts file, oldest first, as JSON lines next to it. */
+export async function readVersions(file: string): Promise<FactsVersion[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf-8");
+  } catch {
+    return [];
+  }
+  const out: FactsVersion[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line) as FactsVersion);
+    } catch {
+      // skip a torn last line
+    }
+  }
+  return out;
+}
+
+/** Appends the next version; returns it, or null when nothing changed. */
+export async function appendVersion(
+  file: string,
+  changes: Record<string, FactChange>,
+  provenance: FactsProvenance,
+  refused?: string
+): Promise<FactsVersion | null> {
+  if (!Object.keys(changes).length) return null;
+  const versions = await readVersions(file);
+  const entry: FactsVersion = {
+    version: (versions[versions.length - 1]?.version ?? 0) + 1,
+    at: new Date().toISOString(),
+    source: provenance.source,
+    msgNos: provenance.msgNos ?? [],
+    ...(provenance.convId ? { convId: provenance.convId } : {}),
+    ...(provenance.agentId ? { agentId: provenance.agentId } : {}),
+    changes,
+    ...(refused ? { refused } : {}),
+  };
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.appendFile(file, JSON.stringify(entry) + "\n", "utf-8");
+  return entry;
+}
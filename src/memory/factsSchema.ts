@@ -0,0 +1,89 @@
+/**
+ * The JSON Schema subset agent definitions can give for facts: `type` (one or a list), `enum`,
+ * `properties`, `additionalProperties` (false or a schema) and `items`.
+ */
+export type FactsSchema = {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, FactsSchema>;
+  additionalProperties?: boolean | FactsSchema;
+  items?: FactsSchema;
+};
+
+const TYPES = ["string", "number", "integer", "boolean", "array", "object", "null"];
+
+function typeOf(value: unknown): string[] {
+  if (value === null) return ["null"];
+  if (Array.isArray(value)) return ["array"];
+  if (typeof value === "number") return Number.isInteger(value) ? ["integer", "number"] : ["number"];
+  return [typeof value];
+}
+
+/** Checks an agent definition's `memory.factsSchema`; returns a description of the first problem. */
+export function checkFactsSchema(raw: unknown, at = "memory.factsSchema"): string | null {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return `${at} must be an object`;
+  const s = raw as Record<string, unknown>;
+  const types = s.type === undefined ? [] : Array.isArray(s.type) ? s.type : [s.type];
+  if (types.some((t) => !TYPES.includes(t as string))) return `${at}.type must be one of ${TYPES.join(", ")}`;
+  if (s.enum !== undefined && !Array.isArray(s.enum)) return `${at}.enum must be a list`;
+  if (s.properties !== undefined) {
+    if (!s.properties || typeof s.properties !== "object" || Array.isArray(s.properties)) {
+      return `${at}.properties must be an object`;
+    }
+    for (const [key, sub] of Object.entries(s.properties)) {
+      const problem = checkFactsSchema(sub, `${at}.properties.${key}`);
+      if (problem) return problem;
+    }
+  }
+  if (s.additionalProperties !== undefined && typeof s.additionalProperties !== "boolean") {
+    const problem = checkFactsSchema(s.additionalProperties, `${at}.additionalProperties`);
+    if (problem) return problem;
+  }
+  return s.items === undefined ? null : checkFactsSchema(s.items, `${at}.items`);
+}
+
+/** Whether `value` matches `schema`. */
+export function matchesSchema(value: unknown, schema: FactsSchema): boolean {
+  if (schema.type !== undefined) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!typeOf(value).some((t) => allowed.includes(t))) return false;
+  }
+  if (schema.enum && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) return false;
+  if (Array.isArray(value)) return !schema.items || value.every((v) => matchesSchema(v, schema.items!));
+  if (value && typeof value === "object") {
+    return Object.entries(value).every(([key, v]) => {
+      const sub = propertySchema(schema, key);
+      return sub !== false && (sub === true || matchesSchema(v, sub));
+    });
+  }
+  return true;
+}
+
+/** The schema of one property: true when anything goes, false when the property is not allowed. */
+function propertySchema(schema: FactsSchema, key: string): FactsSchema | boolean {
+  if (schema.properties && Object.hasOwn(schema.properties, key)) return schema.properties[key];
+  return schema.additionalProperties ?? true;
+}
+
+/**
+ * `next` with every fact the schema rejects put back as it was in `prev` (or left out); also returns the
+ * names of those facts.
+ */
+export function enforceFactsSchema(
+  prev: Record<string, unknown>,
+  next: Record<string, unknown>,
+  schema: FactsSchema
+): { facts: Record<string, unknown>; rejected: string[] } {
+  const facts: Record<string, unknown> = {};
+  const rejected: string[] = [];
+  for (const [key, value] of Object.entries(next)) {
+    const sub = propertySchema(schema, key);
+    if (sub === true || (sub !== false && matchesSchema(value, sub))) {
+      facts[key] = value;
+      continue;
+    }
+    rejected.push(key);
+    if (Object.hasOwn(prev, key)) facts[key] = prev[key];
+  }
+  return { facts, rejected };
+}
@@ -3,20 +3,103 @@ import path from "node:path";
 import type { LLMProvider } from "../core/llmProvider.js";
 import type { ConversationStore } from "../conversation/store.js";
 import type { ThreadItem } from "../conversation/store.js";
+import { estimateTokens, truncateToTokens } from "../core/contextBudget.js";
+import { writeFileAtomic } from "../core/atomicFile.js";
+import { KeyedMutex } from "../core/keyedMutex.js";
+import type { AgentMemorySettings } from "../core/agentDefinitions.js";
+import type { RetrievedPassage, Retriever } from "../search/retriever.js";
+import type { WorkspaceChunk, WorkspaceIndex } from "../search/workspaceIndex.js";
+import {
+  FactsDeletionError,
+  FactsVersionError,
+  appendVersion,
+  applyChanges,
+  diffFacts,
+  factsAt,
+  readVersions,
+  removedKeys,
+} from "./factsHistory.js";
+import type { FactsProvenance, FactsVersion } from "./factsHistory.js";
+import { enforceFactsSchema } from "./factsSchema.js";
+import type { FactsSchema } from "./factsSchema.js";
+import { MemoryQueue } from "./memoryQueue.js";
+import type { MemoryQueueOptions, MemoryWrite } from "./memoryQueue.js";
 
 export type MemoryPack = {
   summary: string;
   facts: Record<string, unknown>;
+  /** Global facts about the user (see `MemoryEngine.readProfile`). */
+  profile?: Record<string, unknown>;
   recentTurns: Array<{ role: "user" | "bot"; text: string }>;
+  /** Passages of other conversations (and older turns of this one) relevant to the newest user turn. */
+  retrieved?: RetrievedPassage[];
+  /** Chunks of workspace files relevant to the newest user turn, cited by path and lines. */
+  documents?: WorkspaceChunk[];
 };
 
+export type SummaryListener = (convId: string, summary: string) => void;
+
+/** "global": the user profile shared by every conversation; "conversation": the facts of one conversation. */
+export type MemoryScope = "global" | "conversation";
+
+const REBUILD_BATCH_TOKENS = 6000;
+
 export class MemoryEngine {
+  /** Read-modify-write of the profile, which every conversation updates. */
+  private profileLock = new KeyedMutex();
+  private summaryListeners: SummaryListener[] = [];
+  private queue: MemoryQueue | null;
+
   constructor(
     private dataDir: string,
     private convStore: ConversationStore,
     private provider: LLMProvider | null,
-    private models: { summary: string; facts: string }
-  ) {}
+    private models: { summary: string; facts: string },
+    /**
+     * `profileExtraction: false` stops replies from updating the profile; it can still be edited.
+     * With a `retriever`, memory packs carry passages relevant to the newest user turn; with `documents`,
+     * up to `topK` chunks of workspace files.
+     * Updates that remove more than `maxFactDeletions` facts (default 3) are refused unless confirmed;
+     * `factsSchema` gives the schema extracted facts must match for the agent that replied.
+     * With `queue`, `afterReply` only queues the exchange and memory is updated in the background.
+     */
+    private options: {
+      profileExtraction?: boolean;
+      retriever?: Retriever;
+      documents?: { index: WorkspaceIndex; topK: number };
+      maxFactDeletions?: number;
+      factsSchema?: (agentId: string) => FactsSchema | undefined;
+      queue?: MemoryQueueOptions;
+    } = {}
+  ) {
+    this.queue = options.queue
+      ? new MemoryQueue(
+          path.join(dataDir, "memory", "queue.json"),
+          convStore,
+          (convId, turns) => this.extract(convId, turns, "extraction"),
+          options.queue
+        )
+      : null;
+  }
+
+  /** Schedules the memory updates that were queued before a restart. */
+  async start(): Promise<void> {
+    await this.queue?.load();
+  }
+
+  /** Runs queued memory updates now (all conversations without `convId`). */
+  async flush(convId?: string): Promise<void> {
+    await this.queue?.flush(convId);
+  }
+
+  stop(): void {
+    this.queue?.stop();
+  }
+
+  /** Called after every summary write, e.g. to keep the retriever's summaries current. */
+  onSummary(fn: SummaryListener): void {
+    this.summaryListeners.push(fn);
+  }
 
   private convDir(convId: string): string {
     return path.join(this.dataDir, "conv", convId);
@@ -30,6 +113,26 @@ export class MemoryEngine {
     return path.join(this.convDir(convId), "facts.json");
   }
 
+  private profilePath(): string {
+    return path.join(this.dataDir, "memory", "profile.json");
+  }
+
+  /** Versions of a scope's facts, as JSON lines next to the facts file. */
+  private historyPath(scope: MemoryScope, convId?: string): string {
+    return scope === "global"
+      ? path.join(this.dataDir, "memory", "profile.history.jsonl")
+      : path.join(this.convDir(convId!), "facts.history.jsonl");
+  }
+
+  private get maxFactDeletions(): number {
+    return this.options.maxFactDeletions ?? 3;
+  }
+
+  /** Summary and facts of a branch that is not active, kept until it is switched back to. */
+  private branchPath(convId: string, branchId: string): string {
+    return path.join(this.convDir(convId), "branches", `${branchId}.json`);
+  }
+
   async readSummary(convId: string): Promise<string> {
     try {
       return await fs.readFile(this.summaryPath(convId), "utf-8");
@@ -41,58 +144,299 @@ export class MemoryEngine {
   async writeSummary(convId: string, summary: string): Promise<void> {
     await fs.mkdir(this.convDir(convId), { recursive: true });
     const trimmed = (summary ?? "").trim().slice(0, 6000);
-    await fs.writeFile(this.summaryPath(convId), trimmed + "\n", "utf-8");
+    await writeFileAtomic(this.summaryPath(convId), trimmed + "\n");
+    this.summaryListeners.forEach((fn) => fn(convId, trimmed));
   }
 
   async readFacts(convId: string): Promise<Record<string, unknown>> {
-    try {
-      const raw = await fs.readFile(this.factsPath(convId), "utf-8");
-      const obj = JSON.parse(raw) as unknown;
-      return obj && typeof obj === "object" && !Array.isArray(obj) ? (obj as Record<string, unknown>) : {};
-    } catch {
-      return {};
-    }
+    return readJsonObject(this.factsPath(convId));
   }
 
-  async writeFacts(convId: string, facts: Record<string, unknown>): Promise<void> {
-    await fs.mkdir(this.convDir(convId), { recursive: true });
-    await fs.writeFile(this.factsPath(convId), JSON.stringify(facts ?? {}, null, 2), "utf-8");
+  /** Replaces the facts and records the change as a new version. */
+  async writeFacts(convId: string, facts: Record<string, unknown>, provenance: FactsProvenance): Promise<void> {
+    await this.writeScope("conversation", convId, facts, provenance);
   }
 
-  async buildMemoryPack(convId: string, recentN = 10): Promise<MemoryPack> {
-    const [summary, facts, thread] = await Promise.all([
-      this.readSummary(convId),
-      this.readFacts(convId),
-      this.convStore.getThread(convId, recentN),
+  /** Durable facts about the user (name, preferences, projects), merged into every conversation's memory. */
+  async readProfile(): Promise<Record<string, unknown>> {
+    return readJsonObject(this.profilePath());
+  }
+
+  private async writeScope(
+    scope: MemoryScope,
+    convId: string | undefined,
+    facts: Record<string, unknown>,
+    provenance: FactsProvenance
+  ): Promise<FactsVersion | null> {
+    const changes = diffFacts(await this.getFacts(scope, convId), facts ?? {});
+    if (!Object.keys(changes).length) return null;
+    const file = scope === "global" ? this.profilePath() : this.factsPath(convId!);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await writeFileAtomic(file, JSON.stringify(facts ?? {}, null, 2));
+    return appendVersion(this.historyPath(scope, convId), changes, provenance);
+  }
+
+  /** Runs `fn` under the lock that guards the scope's facts (see `changeFacts`). */
+  private withFactsLock<T>(scope: MemoryScope, convId: string | undefined, fn: () => Promise<T>): Promise<T> {
+    return scope === "global" ? this.profileLock.run("profile", fn) : this.convStore.withLock(convId!, fn);
+  }
+
+  /** Facts of a scope; `convId` is required for "conversation". */
+  async getFacts(scope: MemoryScope, convId?: string): Promise<Record<string, unknown>> {
+    return scope === "global" ? this.readProfile() : this.readFacts(convId!);
+  }
+
+  /**
+   * Changes the facts of a scope: `update` gets the current facts and returns the new ones.
+   * Conversation facts are changed under the conversation's turn lock, so a reply cannot overwrite the change.
+   * Throws FactsDeletionError when the change removes more than `maxFactDeletions` facts and is not confirmed.
+   */
+  async changeFacts(
+    scope: MemoryScope,
+    convId: string | undefined,
+    update: (facts: Record<string, unknown>) => Record<string, unknown>,
+    opts: { confirm?: boolean } = {}
+  ): Promise<Record<string, unknown>> {
+    return this.withFactsLock(scope, convId, async () => {
+      const prev = await this.getFacts(scope, convId);
+      const next = update(prev);
+      const removed = removedKeys(diffFacts(prev, next));
+      if (!opts.confirm && removed.length > this.maxFactDeletions) throw new FactsDeletionError(removed);
+      await this.writeScope(scope, convId, next, { source: "api" });
+      return next;
+    });
+  }
+
+  /** Versions of a scope's facts, oldest first; refused updates are listed with their reason. */
+  async factsHistory(scope: MemoryScope, convId?: string): Promise<FactsVersion[]> {
+    return readVersions(this.historyPath(scope, convId));
+  }
+
+  /**
+   * Puts the facts back as they were after `version` (0: before the first recorded version), recorded as a
+   * new version. Throws FactsVersionError when the version does not exist.
+   */
+  async rollbackFacts(
+    scope: MemoryScope,
+    convId: string | undefined,
+    version: number
+  ): Promise<{ version: number; facts: Record<string, unknown> }> {
+    return this.withFactsLock(scope, convId, async () => {
+      const versions = await this.factsHistory(scope, convId);
+      const target = versions.find((v) => v.version === version);
+      if (version !== 0 && (!target || target.refused)) throw new FactsVersionError(version);
+      const facts = factsAt(await this.getFacts(scope, convId), versions, version);
+      const entry = await this.writeScope(scope, convId, facts, { source: "rollback" });
+      return { version: entry?.version ?? versions[versions.length - 1]?.version ?? 0, facts };
+    });
+  }
+
+  /**
+   * Loads summary, facts and the newest turns that fit `turnTokenBudget` (at most `maxTurns`).
+   * Agents do the final fit against their model's context window; `summary: false` / `facts: false` leave those out.
+   * Turns still queued for a memory update are not in the summary yet, so they are kept whatever the limits.
+   */
+  async buildMemoryPack(convId: string, opts: AgentMemorySettings = {}): Promise<MemoryPack> {
+    const unsummarized = opts.summary === false ? 0 : (this.queue?.pending(convId).length ?? 0);
+    // the queued turns plus the newest user turn
+    const keep = unsummarized ? unsummarized + 1 : 0;
+    const maxTurns = Math.max(opts.maxTurns ?? 30, keep);
+    const turnTokenBudget = opts.turnTokenBudget ?? 8000;
+    const [summary, facts, profile, thread] = await Promise.all([
+      opts.summary === false ? "" : this.readSummary(convId),
+      opts.facts === false ? {} : this.readFacts(convId),
+      opts.profile === false ? {} : this.readProfile(),
+      maxTurns > 0 ? this.convStore.getThread(convId, maxTurns) : [],
     ]);
 
-    const recentTurns = thread.map((t) => ({ role: t.role, text: t.text }));
+    const recentTurns: MemoryPack["recentTurns"] = [];
+    let used = 0;
+    for (let i = thread.length - 1; i >= 0; i--) {
+      const cost = estimateTokens(thread[i].text);
+      // Always keep the newest turn; agents compress it if it is huge on its own.
+      if (recentTurns.length && recentTurns.length >= keep && used + cost > turnTokenBudget) break;
+      recentTurns.unshift({ role: thread[i].role, text: thread[i].text });
+      used += cost;
+    }
 
-    return { summary, facts, recentTurns };
+    const query = [...thread].reverse().find((t) => t.role === "user")?.text ?? "";
+    const retrieved = opts.retrieval === false ? [] : await this.retrieve(convId, query, recentTurns);
+    const documents =
+      opts.documents === false || !this.options.documents || !query.trim()
+        ? []
+        : this.options.documents.index.search(query, this.options.documents.topK);
+    return {
+      summary,
+      facts,
+      ...(Object.keys(profile).length ? { profile } : {}),
+      recentTurns,
+      ...(retrieved.length ? { retrieved } : {}),
+      ...(documents.length ? { documents } : {}),
+    };
   }
 
+  /** Passages for the newest user turn, leaving out the recent turns the agent already gets. */
+  private async retrieve(
+    convId: string,
+    query: string,
+    recentTurns: MemoryPack["recentTurns"]
+  ): Promise<RetrievedPassage[]> {
+    const retriever = this.options.retriever;
+    if (!retriever || !query.trim()) return [];
+    try {
+      return await retriever.retrieve(query, { convId, exclude: new Set(recentTurns.map((t) => t.text)) });
+    } catch (e) {
+      console.error("[EveryBot] retrieval failed:", e);
+      return [];
+    }
+  }
+
+  /**
+   * Folds a finished exchange into the summary and facts, and durable facts about the user into the profile.
+   * With the queue on, this only queues the turns.
+   */
   async afterReply(convId: string, newTurns: ThreadItem[]): Promise<void> {
-    if (!newTurns.length) return;
+    if (this.queue) await this.queue.enqueue(convId, newTurns);
+    else await this.incorporate(convId, newTurns, "extraction");
+  }
+
+  /** `source` "rebuild" leaves the profile alone: those turns were seen before. */
+  private async incorporate(convId: string, newTurns: ThreadItem[], source: "extraction" | "rebuild"): Promise<void> {
+    const write = await this.extract(convId, newTurns, source);
+    await write();
+  }
+
+  /**
+   * Runs the model over `newTurns` (and updates the profile), and returns the write of the new summary and
+   * facts. The queue makes the calls outside the conversation's turn lock and runs the write under it.
+   */
+  private async extract(
+    convId: string,
+    newTurns: ThreadItem[],
+    source: "extraction" | "rebuild"
+  ): Promise<MemoryWrite> {
+    if (!newTurns.length) return async () => {};
+    const agentId = [...newTurns].reverse().find((t) => t.role === "bot" && t.agentId)?.agentId;
+    const provenance: FactsProvenance = {
+      source,
+      msgNos: newTurns.flatMap((t) => (t.msgNo != null ? [t.msgNo] : [])),
+      ...(agentId ? { agentId } : {}),
+    };
 
     const [oldSummary, oldFacts] = await Promise.all([
       this.readSummary(convId),
       this.readFacts(convId),
     ]);
 
-    const delta = newTurns.map((t) => `${t.role.toUpperCase()}: ${t.text}`).join("\n\n");
+    // Each turn is capped so one huge email cannot push the summary/facts prompts past the context window.
+    const delta = newTurns.map((t) => `${t.role.toUpperCase()}: ${truncateToTokens(t.text, 4000)}`).join("\n\n");
 
     if (this.provider) {
-      const newSummary = await this.updateSummaryWithLLM(oldSummary, delta);
-      await this.writeSummary(convId, newSummary);
-      const newFacts = await this.updateFactsWithLLM(oldFacts, delta);
-      await this.writeFacts(convId, newFacts);
+      const newSummary = await this.updateSummaryWithLLM(convId, oldSummary, delta);
+      const schema = agentId ? this.options.factsSchema?.(agentId) : undefined;
+      let newFacts = await this.updateFactsWithLLM(convId, oldFacts, delta, schema);
+      if (schema) {
+        const checked = enforceFactsSchema(oldFacts, newFacts, schema);
+        if (checked.rejected.length) {
+          console.warn(
+            `[EveryBot] facts of ${convId} not matching the schema kept as they were: ${checked.rejected.join(", ")}`
+          );
+        }
+        newFacts = checked.facts;
+      }
+      if (source === "extraction" && this.options.profileExtraction !== false) {
+        await this.updateProfile(convId, delta, provenance);
+      }
+      const extracted = diffFacts(oldFacts, newFacts);
+      return async () => {
+        await this.writeSummary(convId, newSummary);
+        // facts changed through the API since they were read stay; only the model's changes are applied
+        const current = await this.readFacts(convId);
+        await this.applyExtracted("conversation", convId, current, applyChanges(current, extracted), provenance);
+      };
+    }
+    const newSummary = (oldSummary ? oldSummary + "\n\n" : "") + delta;
+    return () => this.writeSummary(convId, newSummary.slice(0, 6000));
+  }
+
+  /**
+   * Starts summary and facts over and feeds `turns` through `afterReply` in batches that fit the prompts.
+   * The profile is left alone: these turns were seen before.
+   */
+  async rebuild(convId: string, turns: ThreadItem[]): Promise<void> {
+    await this.writeSummary(convId, "");
+    await this.writeFacts(convId, {}, { source: "rebuild" });
+    let batch: ThreadItem[] = [];
+    let used = 0;
+    for (const turn of turns) {
+      const cost = Math.min(estimateTokens(turn.text), 4000);
+      if (batch.length && used + cost > REBUILD_BATCH_TOKENS) {
+        await this.incorporate(convId, batch, "rebuild");
+        batch = [];
+        used = 0;
+      }
+      batch.push(turn);
+      used += cost;
+    }
+    await this.incorporate(convId, batch, "rebuild");
+  }
+
+  /**
+   * Writes facts the model extracted, unless they remove more than `maxFactDeletions` facts: such an
+   * update is only recorded as refused, and can be applied through the API.
+   */
+  private async applyExtracted(
+    scope: MemoryScope,
+    convId: string | undefined,
+    prev: Record<string, unknown>,
+    next: Record<string, unknown>,
+    provenance: FactsProvenance
+  ): Promise<void> {
+    const changes = diffFacts(prev, next);
+    const removed = removedKeys(changes);
+    if (removed.length > this.maxFactDeletions) {
+      const reason = `removes ${removed.length} facts: ${removed.join(", ")}`;
+      await appendVersion(this.historyPath(scope, convId), changes, provenance, reason);
+      console.warn(
+        `[EveryBot] refused a ${scope === "global" ? "profile" : `facts (${convId})`} update that ${reason}`
+      );
+      return;
+    }
+    await this.writeScope(scope, convId, next, provenance);
+  }
+
+  /**
+   * Puts the summary and facts of branch `from` aside and loads those of `to`; a branch without saved
+   * memory (new, or imported) is rebuilt from `turns`, its turns up to the point it continues from.
+   */
+  async switchBranch(convId: string, from: string, to: string, turns: ThreadItem[]): Promise<void> {
+    if (from === to) return;
+    // queued turns belong to `from`; callers hold the turn lock, so an update running for them drops its result
+    const queued = (await this.queue?.take(convId)) ?? [];
+    if (queued.length) {
+      await this.incorporate(convId, queued, "extraction").catch((e) =>
+        console.error(`[EveryBot] memory update of ${convId} before a branch switch failed:`, e)
+      );
+    }
+    const [summary, facts] = await Promise.all([this.readSummary(convId), this.readFacts(convId)]);
+    await fs.mkdir(path.dirname(this.branchPath(convId, from)), { recursive: true });
+    await writeFileAtomic(this.branchPath(convId, from), JSON.stringify({ summary, facts }, null, 2));
+
+    let saved: { summary: string; facts: Record<string, unknown> } | null = null;
+    try {
+      saved = JSON.parse(await fs.readFile(this.branchPath(convId, to), "utf-8"));
+    } catch {
+      // never active before: rebuilt below
+    }
+    if (saved) {
+      await this.writeSummary(convId, saved.summary);
+      await this.writeFacts(convId, saved.facts, { source: "branch" });
     } else {
-      const newSummary = (oldSummary ? oldSummary + "\n\n" : "") + delta;
-      await this.writeSummary(convId, newSummary.slice(0, 6000));
+      await this.rebuild(convId, turns);
     }
   }
 
-  private async updateSummaryWithLLM(oldSummary: string, delta: string): Promise<string> {
+  private async updateSummaryWithLLM(convId: string, oldSummary: string, delta: string): Promise<string> {
     if (!this.provider) return oldSummary;
     const sys = [
       "You are a memory summarization engine.",
@@ -112,6 +456,7 @@ export class MemoryEngine {
 
     const res = await this.provider.chat({
       model: this.models.summary,
+      attribution: { convId, purpose: "summary" },
       messages: [
         { role: "system", content: sys },
         { role: "user", content: user },
@@ -124,14 +469,17 @@ export class MemoryEngine {
   }
 
   private async updateFactsWithLLM(
+    convId: string,
     oldFacts: Record<string, unknown>,
-    delta: string
+    delta: string,
+    schema?: FactsSchema
   ): Promise<Record<string, unknown>> {
     if (!this.provider) return oldFacts;
 
     const sys = [
       "You are a conversation fact extractor.",
       "Update the existing facts JSON using the new turns. Output STRICT JSON only (no markdown).",
+      ...(schema ? ["The facts object must match this JSON schema:", JSON.stringify(schema)] : []),
     ].join("\n");
 
     const user = [
@@ -146,6 +494,7 @@ export class MemoryEngine {
 
     const res = await this.provider.chat({
       model: this.models.facts,
+      attribution: { convId, purpose: "facts" },
       messages: [
         { role: "system", content: sys },
         { role: "user", content: user },
@@ -154,11 +503,74 @@ export class MemoryEngine {
       max_tokens: 700,
     });
 
-    try {
-      const obj = JSON.parse(res.text) as unknown;
-      return obj && typeof obj === "object" && !Array.isArray(obj) ? (obj as Record<string, unknown>) : oldFacts;
-    } catch {
-      return oldFacts;
-    }
+    return parseFacts(res.text) ?? oldFacts;
+  }
+
+  /** Lets the model decide which of the new turns say something lasting about the user. */
+  private async updateProfile(convId: string, delta: string, provenance: FactsProvenance): Promise<void> {
+    const provider = this.provider;
+    if (!provider) return;
+    await this.profileLock.run("profile", async () => {
+      const oldProfile = await this.readProfile();
+      const sys = [
+        "You maintain a long-term profile of the user that is shared across all of their conversations.",
+        "Add or update only durable facts about the user: name, preferences, recurring projects, people and places they mention often.",
+        "Leave out anything that only matters to the current conversation or task. Remove facts the user says are no longer true.",
+        "Output STRICT JSON only (no markdown): the complete updated profile object.",
+      ].join("\n");
+      const user = [
+        "Existing profile JSON:",
+        JSON.stringify(oldProfile, null, 2),
+        "",
+        "New turns:",
+        delta,
+        "",
+        "Return the updated profile JSON only:",
+      ].join("\n");
+
+      const res = await provider.chat({
+        model: this.models.facts,
+        attribution: { convId, purpose: "profile" },
+        messages: [
+          { role: "system", content: sys },
+          { role: "user", content: user },
+        ],
+        temperature: 0.2,
+        max_tokens: 700,
+      });
+      const next = parseFacts(res.text);
+      if (next) await this.applyExtracted("global", undefined, oldProfile, next, { ...provenance, convId });
+    });
+  }
+}
+
+/** Checks the `facts` of a PUT /api/memory body: an object of fact names to values, null to remove a fact. */
+export function validateFactsPatch(raw: unknown): Record<string, unknown> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("facts must be an object");
+  const bad = Object.keys(raw).filter((k) => !k.trim() || k.length > 100);
+  if (bad.length) throw new Error("fact names must be non-empty and at most 100 characters");
+  return raw as Record<string, unknown>;
+}
+
+/** `facts` with `patch` applied: its values replace or add facts, and null removes them. */
+export function mergeFacts(facts: Record<string, unknown>, patch: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries({ ...facts, ...patch }).filter(([, v]) => v !== null));
+}
+
+/** A JSON object from model output; null when it is not one. */
+function parseFacts(text: string): Record<string, unknown> | null {
+  try {
+    const obj = JSON.parse(text) as unknown;
+    return obj && typeof obj === "object" && !Array.isArray(obj) ? (obj as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function readJsonObject(file: string): Promise<Record<string, unknown>> {
+  try {
+    return parseFacts(await fs.readFile(file, "utf-8")) ?? {};
+  } catch {
+    return {};
   }
 }
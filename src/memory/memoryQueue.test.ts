@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { ConversationStore } from "../conversation/store.js";
+import type { ThreadItem } from "../conversation/store.js";
+import { MemoryQueue } from "./memoryQueue.js";
+import type { MemoryUpdate } from "./memoryQueue.js";
+
+const turn = (text: string): ThreadItem => ({ role: "user", text, at: "2026-03-01T00:00:00Z" });
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function until(check: () => boolean | Promise<boolean>): Promise<void> {
+  const end = Date.now() + 2000;
+  while (!(await check())) {
+    if (Date.now() > end) throw new Error("timed out");
+    await sleep(5);
+  }
+}
+
+describe("MemoryQueue", () => {
+  let dataDir: string;
+  let file: string;
+  let convStore: ConversationStore;
+  let queues: MemoryQueue[];
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-memory-queue-"));
+    file = path.join(dataDir, "memory", "queue.json");
+    convStore = new ConversationStore(dataDir);
+    queues = [];
+  });
+
+  afterEach(async () => {
+    for (const q of queues) q.stop();
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  function queue(update: MemoryUpdate, debounceMs = 10): MemoryQueue {
+    const q = new MemoryQueue(file, convStore, update, { debounceMs, maxBatchTurns: 4, retryMs: 10 });
+    queues.push(q);
+    return q;
+  }
+
+  it("batches turns until the conversation is quiet, or the batch is full", async () => {
+    const { convId } = await convStore.createConversation("default");
+    const batches: string[][] = [];
+    const q = queue(async (_, turns) => void batches.push(turns.map((t) => t.text)), 5000);
+
+    await q.enqueue(convId, [turn("a")]);
+    await q.enqueue(convId, [turn("b")]);
+    await sleep(20);
+    expect(batches).toEqual([]);
+    expect(q.pending(convId)).toHaveLength(2);
+
+    await q.enqueue(convId, [turn("c"), turn("d")]);
+    await until(() => batches.length === 1);
+    expect(batches).toEqual([["a", "b", "c", "d"]]);
+    expect(q.pending(convId)).toEqual([]);
+  });
+
+  it("retries failed updates with backoff and resumes after a restart", async () => {
+    const { convId } = await convStore.createConversation("default");
+    let calls = 0;
+    const q = queue(async () => {
+      calls += 1;
+      throw new Error("provider down");
+    }, 5000);
+    await q.enqueue(convId, [turn("a")]);
+    await q.flush();
+    expect(calls).toBe(1);
+    await until(() => calls === 3);
+    const saved = async () => JSON.parse(await fs.readFile(file, "utf-8"));
+    await until(async () => (await saved())[convId]?.attempts === 3);
+    q.stop();
+    expect((await saved())[convId]).toMatchObject({ error: "provider down", turns: [{ text: "a" }] });
+
+    const done: string[] = [];
+    const restarted = queue(async (id, turns) => void done.push(`${id}:${turns.length}`));
+    await restarted.load();
+    await until(() => done.length === 1);
+    expect(done).toEqual([`${convId}:1`]);
+    await until(async () => Object.keys(await saved()).length === 0);
+  });
+
+  it("does not hold the turn lock while an update runs", async () => {
+    const { convId } = await convStore.createConversation("default");
+    let finish!: () => void;
+    const slow = new Promise<void>((r) => (finish = r));
+    const written: string[] = [];
+    const q = queue(async (_, turns) => {
+      await slow;
+      return async () => void written.push(...turns.map((t) => t.text));
+    }, 5000);
+    await q.enqueue(convId, [turn("a")]);
+    const flushed = q.flush();
+
+    // the next turn of the conversation, while the update is still waiting for the model
+    const next = convStore.withLock(convId, () => convStore.append(convId, turn("b")));
+    expect(await Promise.race([next.then(() => "appended"), sleep(500).then(() => "waited")])).toBe("appended");
+    expect(written).toEqual([]);
+
+    finish();
+    await flushed;
+    expect(written).toEqual(["a"]);
+    expect(q.pending(convId)).toEqual([]);
+  });
+
+  it("drops turns of deleted conversations and hands out turns taken before an update", async () => {
+    const { convId } = await convStore.createConversation("default");
+    const other = (await convStore.createConversation("default")).convId;
+    const updated: string[] = [];
+    const q = queue(async (id) => void updated.push(id), 1000);
+    await q.enqueue(convId, [turn("a")]);
+    await q.enqueue(other, [turn("b")]);
+
+    expect((await q.take(other)).map((t) => t.text)).toEqual(["b"]);
+    await convStore.deleteConversation(convId);
+    await q.flush();
+    expect(updated).toEqual([]);
+    expect(q.pending(convId)).toEqual([]);
+  });
+});
@@ -0,0 +1,179 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ConversationStore, ThreadItem } from "../conversation/store.js";
+import { writeFileAtomic } from "../core/atomicFile.js";
+import { KeyedMutex } from "../core/keyedMutex.js";
+
+export type MemoryQueueOptions = {
+  /** Quiet time after a conversation's last queued turn before its memory is updated, so turns batch up. */
+  debounceMs?: number;
+  /** Updates right away once this many turns are waiting. */
+  maxBatchTurns?: number;
+  /** Delay before the first retry of a failed update, doubled per attempt up to `maxRetryMs`. */
+  retryMs?: number;
+  maxRetryMs?: number;
+  /** Failed attempts after which the turns are dropped. */
+  maxAttempts?: number;
+};
+
+/** Stores what an update worked out; run under the conversation's turn lock. */
+export type MemoryWrite = () => Promise<void>;
+
+/** Works out the conversation's new memory from `turns`, and returns the write that stores it (if any). */
+export type MemoryUpdate = (convId: string, turns: ThreadItem[]) => Promise<MemoryWrite | void>;
+
+type QueueEntry = { turns: ThreadItem[]; attempts: number; nextAt?: string; error?: string };
+
+/**
+ * Turns waiting to be folded into their conversation's memory. Each conversation's turns are updated
+ * together after `debounceMs`, one update per conversation at a time. The model calls run outside the
+ * conversation's turn lock, so replies do not wait for them; only the write of the result takes it.
+ * Failed updates are retried with backoff. The queue is saved to a file on every change, so `load`
+ * picks it up after a restart.
+ */
+export class MemoryQueue {
+  private entries = new Map<string, QueueEntry>();
+  /** One update per conversation at a time; not the turn lock. */
+  private locks = new KeyedMutex();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(
+    private file: string,
+    private convStore: ConversationStore,
+    private update: MemoryUpdate,
+    private opts: MemoryQueueOptions = {}
+  ) {}
+
+  /** Reads the saved queue and schedules its conversations; those that were backing off keep their delay. */
+  async load(): Promise<void> {
+    let saved: Record<string, QueueEntry> = {};
+    try {
+      saved = JSON.parse(await fs.readFile(this.file, "utf-8"));
+    } catch {
+      // nothing queued yet
+    }
+    for (const [convId, entry] of Object.entries(saved)) {
+      if (!entry?.turns?.length) continue;
+      this.entries.set(convId, entry);
+      this.schedule(convId, entry.nextAt ? Date.parse(entry.nextAt) - Date.now() : 0);
+    }
+  }
+
+  async enqueue(convId: string, turns: ThreadItem[]): Promise<void> {
+    if (!turns.length) return;
+    const entry = this.entries.get(convId) ?? { turns: [], attempts: 0 };
+    entry.turns.push(...turns);
+    this.entries.set(convId, entry);
+    await this.save();
+    // a conversation that is backing off keeps its retry time
+    if (entry.attempts) return;
+    this.schedule(convId, entry.turns.length >= (this.opts.maxBatchTurns ?? 8) ? 0 : (this.opts.debounceMs ?? 2000));
+  }
+
+  /** Turns of the conversation its memory does not cover yet. */
+  pending(convId: string): ThreadItem[] {
+    return this.entries.get(convId)?.turns ?? [];
+  }
+
+  /**
+   * Removes and returns the conversation's queued turns, e.g. to fold them in before a branch switch.
+   * Under the turn lock, an update that is running then drops its result instead of writing it.
+   */
+  async take(convId: string): Promise<ThreadItem[]> {
+    const entry = this.entries.get(convId);
+    if (!entry) return [];
+    this.entries.delete(convId);
+    this.clearTimer(convId);
+    await this.save();
+    return entry.turns;
+  }
+
+  /** Updates the conversation (every conversation without `convId`) now instead of waiting. */
+  async flush(convId?: string): Promise<void> {
+    const ids = convId ? [convId] : [...this.entries.keys()];
+    await Promise.all(ids.map((id) => this.process(id)));
+  }
+
+  stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+
+  private schedule(convId: string, delayMs: number): void {
+    this.clearTimer(convId);
+    const timer = setTimeout(
+      () => {
+        this.timers.delete(convId);
+        this.process(convId).catch((e) => console.error(`[EveryBot] memory update of ${convId} failed:`, e));
+      },
+      Math.max(0, delayMs)
+    );
+    timer.unref();
+    this.timers.set(convId, timer);
+  }
+
+  private clearTimer(convId: string): void {
+    const timer = this.timers.get(convId);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(convId);
+  }
+
+  private async process(convId: string): Promise<void> {
+    this.clearTimer(convId);
+    await this.locks.run(convId, async () => {
+      const entry = this.entries.get(convId);
+      if (!entry?.turns.length) return;
+      if (!(await this.convStore.exists(convId))) {
+        this.entries.delete(convId);
+        await this.save();
+        return;
+      }
+      const batch = entry.turns.slice();
+      try {
+        const write = await this.update(convId, batch);
+        await this.convStore.withLock(convId, async () => {
+          // taken for a branch switch meanwhile, which folds the turns in itself
+          if (this.entries.get(convId) !== entry) return;
+          await write?.();
+          // turns queued while the update ran stay for the next one
+          entry.turns.splice(0, batch.length);
+          if (entry.turns.length) {
+            Object.assign(entry, { attempts: 0, nextAt: undefined, error: undefined });
+            this.schedule(convId, this.opts.debounceMs ?? 2000);
+          } else {
+            this.entries.delete(convId);
+          }
+          await this.save();
+        });
+      } catch (e) {
+        if (this.entries.get(convId) !== entry) return;
+        entry.attempts += 1;
+        entry.error = e instanceof Error ? e.message : String(e);
+        if (entry.attempts >= (this.opts.maxAttempts ?? 8)) {
+          console.error(`[EveryBot] memory update of ${convId} dropped after ${entry.attempts} attempts:`, e);
+          this.entries.delete(convId);
+        } else {
+          const delay = Math.min(
+            (this.opts.retryMs ?? 5000) * 2 ** (entry.attempts - 1),
+            this.opts.maxRetryMs ?? 300_000
+          );
+          console.error(`[EveryBot] memory update of ${convId} failed, retrying in ${delay} ms:`, e);
+          entry.nextAt = new Date(Date.now() + delay).toISOString();
+          this.schedule(convId, delay);
+        }
+        await this.save();
+      }
+    });
+  }
+
+  /** Writes are chained so an older snapshot never lands after a newer one. */
+  private save(): Promise<void> {
+    const write = this.saving.then(async () => {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await writeFileAtomic(this.file, JSON.stringify(Object.fromEntries(this.entries)));
+    });
+    this.saving = write.catch(() => {});
+    return write;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createSchedulerExecutor } from "./executor.js";
+import { AgentRegistry, createDefaultAgents } from "../core/agents.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+import { ConversationStore } from "../conversation/store.js";
+import { ToolRegistry } from "../tools/registry.js";
+import type { AppConfig } from "../config.js";
+
+describe("scheduler executor with a mock LLM", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-sched-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  function setup() {
+    const cfg = { dataDir, defaultAgent: "default", mail: { user: "me@example.com" } } as unknown as AppConfig;
+    const provider = new MockProvider([{ match: { user: "daily report" }, response: { text: "Report: all good." } }]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "m", files: "m", scheduler: "m" } }))
+      agents.register(a);
+    const toolRegistry = new ToolRegistry();
+    const run = vi.fn(async () => ({ ok: true as const, data: ["a.txt"] }));
+    toolRegistry.register({ name: "file.list", description: "", parameters: {}, mutating: false, run });
+    const smtpTransport = { sendMail: vi.fn(async () => ({})) };
+    const convStore = new ConversationStore(dataDir);
+    const executor = createSchedulerExecutor({
+      cfg,
+      convStore,
+      agents,
+      memoryEngine: null,
+      toolRegistry,
+      smtpTransport,
+    });
+    return { executor, provider, run, smtpTransport, convStore };
+  }
+
+  it("runs a scheduled chat through the default agent, keeps it and mails the reply", async () => {
+    const { executor, provider, convStore, smtpTransport } = setup();
+    expect(await executor.runChat("write the daily report")).toBe("Report: all good.");
+    expect(provider.requests[0].attribution?.purpose).toBe("scheduled");
+
+    const [meta] = await convStore.listConversations();
+    expect((await convStore.getThread(meta.convId)).map((t) => [t.role, t.text, t.msgNo])).toEqual([
+      ["user", "write the daily report", undefined],
+      ["bot", "Report: all good.", 1],
+    ]);
+    expect(smtpTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "me@example.com",
+        subject: "#1 [default] Scheduled",
+        text: expect.stringContaining(`Report: all good.\n\n---\nMBCTX v1 | c=${meta.convId} | m=1 | a=default`),
+      })
+    );
+  });
+
+  it("runs tools and sends mail", async () => {
+    const { executor, run, smtpTransport } = setup();
+    expect(await executor.runTool("file.list", { path: "." })).toEqual({ ok: true, data: ["a.txt"] });
+    expect(run).toHaveBeenCalledWith({ path: "." });
+    await expect(executor.runTool("nope", {})).rejects.toThrow("Unknown tool");
+
+    await executor.sendMessage("mail", undefined, "hello");
+    expect(smtpTransport.sendMail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "me@example.com", text: "hello" })
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import type { Transporter } from "nodemailer";
+import type { AppConfig } from "../config.js";
+import type { AgentRegistry, MemoryPack } from "../core/agents.js";
+import type { ConversationStore } from "../conversation/store.js";
+import type { MemoryEngine } from "../memory/memoryEngine.js";
+import { formatMbCtxFooter } from "../core/mbctx.js";
+import type { ToolRegistry } from "../tools/registry.js";
+import type { SchedulerExecutor } from "./runner.js";
+
+/**
+ * Wires scheduled task actions to mail, the tool registry and the default agent. A scheduled chat is kept
+ * as a conversation of its own and its reply mailed to the owner, with the footer that lets a reply continue it.
+ */
+export function createSchedulerExecutor(deps: {
+  cfg: AppConfig;
+  convStore: ConversationStore;
+  agents: AgentRegistry;
+  memoryEngine: MemoryEngine | null;
+  toolRegistry: ToolRegistry;
+  smtpTransport: Pick<Transporter, "sendMail"> | null;
+}): SchedulerExecutor {
+  const { cfg, convStore, agents, memoryEngine, toolRegistry, smtpTransport } = deps;
+
+  return {
+    async sendMessage(channel: string, target: string | undefined, text: string): Promise<void> {
+      if (channel === "mail" && smtpTransport && cfg.mail.user) {
+        await smtpTransport.sendMail({
+          from: cfg.mail.user,
+          to: target ?? cfg.mail.user,
+          subject: "[EveryBot] Scheduled",
+          text,
+        });
+      }
+    },
+    async runTool(toolName: string, args: Record<string, unknown>): Promise<unknown> {
+      const tool = toolRegistry.get(toolName);
+      if (!tool) throw new Error(`Unknown tool: ${toolName}`);
+      return await tool.run(args);
+    },
+    async runChat(promptTemplate: string): Promise<string> {
+      const meta = await convStore.createConversation(cfg.defaultAgent);
+      const agent = agents.get(cfg.defaultAgent);
+      const agentId = cfg.defaultAgent;
+      await convStore.append(meta.convId, { role: "user", text: promptTemplate, at: new Date().toISOString() });
+      const memory: MemoryPack = memoryEngine
+        ? await memoryEngine.buildMemoryPack(meta.convId, agent.definition?.memory)
+        : { summary: "", facts: {}, recentTurns: [] };
+      const reply = await agent.handle(promptTemplate, { convId: meta.convId, agentId, purpose: "scheduled" }, memory);
+      const msgNo = await convStore.nextBotMsgNo(meta.convId);
+      const at = new Date().toISOString();
+      await convStore.append(meta.convId, { role: "bot", text: reply, at, msgNo, agentId, channel: "mail" });
+      await memoryEngine?.afterReply(meta.convId, [
+        { role: "user", text: promptTemplate, at },
+        { role: "bot", text: reply, at, msgNo, agentId },
+      ]);
+
+      if (smtpTransport && cfg.mail.user) {
+        await smtpTransport.sendMail({
+          from: cfg.mail.user,
+          to: cfg.mail.user,
+          subject: `#${msgNo} [${agentId}] Scheduled`,
+          text: `${reply}\n\n${formatMbCtxFooter({ convId: meta.convId, msgNo, agentId, isoTime: at })}`,
+        });
+      }
+      return reply;
+    },
+  };
+}
@@ -1,5 +1,5 @@
-import fs from "node:fs/promises";
-import path from "node:path";
+import { FileTaskRepo } from "../storage/fileStorage.js";
+import type { TaskRepo, TaskRun } from "../storage/types.js";
 
 export type TaskAction =
   | { type: "sendMessage"; channel: string; target?: string; textTemplate: string }
@@ -22,39 +22,37 @@ export type TasksFile = {
 };
 
 export class SchedulerEngine {
-  private filePath: string;
-  private runsPath: string;
   private tasks: Task[] = [];
+  private listeners: Array<() => void> = [];
 
-  constructor(dataDir: string) {
-    this.filePath = path.join(dataDir, "tasks.json");
-    this.runsPath = path.join(dataDir, "runs.jsonl");
-  }
+  constructor(
+    dataDir: string,
+    private repo: TaskRepo = new FileTaskRepo(dataDir)
+  ) {}
 
   async load(): Promise<void> {
-    try {
-      const raw = await fs.readFile(this.filePath, "utf-8");
-      const data = JSON.parse(raw) as TasksFile;
-      this.tasks = Array.isArray(data.tasks) ? data.tasks : [];
-    } catch {
-      this.tasks = [];
-    }
+    this.tasks = await this.repo.loadTasks();
   }
 
   async save(): Promise<void> {
-    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
-    await fs.writeFile(
-      this.filePath,
-      JSON.stringify({ tasks: this.tasks }, null, 2),
-      "utf-8"
-    );
+    await this.repo.saveTasks(this.tasks);
   }
 
   getTasks(): Task[] {
     return [...this.tasks];
   }
 
+  getTask(id: string): Task | undefined {
+    return this.tasks.find((t) => t.id === id);
+  }
+
+  /** Called after tasks are added, changed or removed (not after run bookkeeping). */
+  onChange(fn: () => void): void {
+    this.listeners.push(fn);
+  }
+
   async addTask(task: Omit<Task, "createdAt" | "updatedAt">): Promise<Task> {
+    if (this.getTask(task.id)) throw new Error(`Task already exists: ${task.id}`);
     const now = new Date().toISOString();
     const t: Task = {
       ...task,
@@ -63,6 +61,7 @@ export class SchedulerEngine {
     };
     this.tasks.push(t);
     await this.save();
+    this.listeners.forEach((fn) => fn());
     return t;
   }
 
@@ -71,9 +70,19 @@ export class SchedulerEngine {
     if (i < 0) return null;
     this.tasks[i] = { ...this.tasks[i], ...patch, updatedAt: new Date().toISOString() };
     await this.save();
+    this.listeners.forEach((fn) => fn());
     return this.tasks[i];
   }
 
+  async removeTask(id: string): Promise<boolean> {
+    const i = this.tasks.findIndex((t) => t.id === id);
+    if (i < 0) return false;
+    this.tasks.splice(i, 1);
+    await this.save();
+    this.listeners.forEach((fn) => fn());
+    return true;
+  }
+
   async setLastRun(id: string, lastRun: string): Promise<void> {
     const i = this.tasks.findIndex((t) => t.id === id);
     if (i >= 0) {
@@ -82,12 +91,8 @@ export class SchedulerEngine {
     }
   }
 
-  async appendRun(entry: { taskId: string; at: string; ok: boolean; detail?: string }): Promise<void> {
-    await fs.appendFile(
-      this.runsPath,
-      JSON.stringify(entry) + "\n",
-      "utf-8"
-    );
+  async appendRun(entry: TaskRun): Promise<void> {
+    await this.repo.appendRun(entry);
   }
 
   getEnabledTasks(): Task[] {
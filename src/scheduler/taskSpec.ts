@@ -0,0 +1,85 @@
+import { createHash } from "node:crypto";
+import { Cron } from "croner";
+import type { Task, TaskAction } from "./schedulerEngine.js";
+
+export type NewTask = Omit<Task, "createdAt" | "updatedAt">;
+
+/** Next `count` run times (ISO) of a cron pattern; throws on an invalid pattern or timezone. */
+export function nextRunTimes(cron: string, timezone: string | undefined, count = 3, from?: Date): string[] {
+  const job = new Cron(cron, { paused: true, ...(timezone ? { timezone } : {}) });
+  try {
+    return job.nextRuns(count, from).map((d) => d.toISOString());
+  } finally {
+    job.stop();
+  }
+}
+
+function validateAction(raw: unknown, toolNames: string[]): TaskAction {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new Error("action must be an object");
+  const a = raw as Record<string, unknown>;
+  const text = (key: string): string => {
+    const v = a[key];
+    if (typeof v !== "string" || !v.trim()) throw new Error(`action.${key} is required for ${String(a.type)}`);
+    return v;
+  };
+
+  if (a.type === "sendMessage") {
+    const channel = typeof a.channel === "string" ? a.channel : "mail";
+    if (channel !== "mail") throw new Error(`Unsupported channel: ${channel} (only mail)`);
+    const target = typeof a.target === "string" && a.target.trim() ? a.target.trim() : undefined;
+    return { type: "sendMessage", channel, ...(target ? { target } : {}), textTemplate: text("textTemplate") };
+  }
+  if (a.type === "runTool") {
+    const toolName = text("toolName");
+    if (!toolNames.includes(toolName)) {
+      throw new Error(`Unknown tool: ${toolName} (available: ${toolNames.join(", ") || "none"})`);
+    }
+    const args = a.args ?? {};
+    if (typeof args !== "object" || Array.isArray(args)) throw new Error("action.args must be an object");
+    return { type: "runTool", toolName, args: args as Record<string, unknown> };
+  }
+  if (a.type === "runChat") {
+    return { type: "runChat", promptTemplate: text("promptTemplate") };
+  }
+  throw new Error(`Unknown action type: ${String(a.type)} (expected sendMessage, runTool or runChat)`);
+}
+
+/**
+ * Checks a task proposed by a user or an agent: the cron pattern and timezone must parse in croner and
+ * runTool actions must name a registered tool. Returns the normalized task and its next run times.
+ * Without an id, one is derived from the schedule and action so the preview and the approved task agree.
+ */
+export function validateTask(
+  raw: Record<string, unknown>,
+  opts: { toolNames: string[]; previewRuns?: number; now?: Date }
+): { task: NewTask; nextRuns: string[] } {
+  const cron = typeof raw.cron === "string" ? raw.cron.trim() : "";
+  if (!cron) throw new Error("cron is required");
+  const timezone = typeof raw.timezone === "string" && raw.timezone.trim() ? raw.timezone.trim() : undefined;
+
+  let nextRuns: string[];
+  try {
+    nextRuns = nextRunTimes(cron, timezone, opts.previewRuns ?? 3, opts.now);
+  } catch (e) {
+    throw new Error(`Invalid schedule: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (!nextRuns.length) throw new Error("Schedule never runs in the future");
+
+  const action = validateAction(raw.action, opts.toolNames);
+  const id =
+    typeof raw.id === "string" && raw.id.trim()
+      ? raw.id.trim()
+      : "task-" +
+        createHash("sha256")
+          .update(JSON.stringify([cron, timezone, action]))
+          .digest("hex")
+          .slice(0, 8);
+  const task: NewTask = {
+    id,
+    cron,
+    ...(timezone ? { timezone } : {}),
+    action,
+    enabled: typeof raw.enabled === "boolean" ? raw.enabled : true,
+  };
+  return { task, nextRuns };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { ConversationStore } from "../conversation/store.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+import type { EmbeddingRequest, EmbeddingResponse } from "../core/llmProvider.js";
+import { Retriever } from "./retriever.js";
+import { SearchIndex } from "./searchIndex.js";
+
+/** Embeds texts by whether they mention cats or dogs. */
+class PetEmbeddings extends MockProvider {
+  inputs: string[][] = [];
+
+  async embed(req: EmbeddingRequest): Promise<EmbeddingResponse> {
+    this.inputs.push(req.input);
+    return { vectors: req.input.map((t) => [/cat/i.test(t) ? 1 : 0, /dog/i.test(t) ? 1 : 0, 0.1]) };
+  }
+}
+
+describe("Retriever", () => {
+  let dataDir: string;
+  let convStore: ConversationStore;
+  let index: SearchIndex;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-retriever-"));
+    convStore = new ConversationStore(dataDir);
+    index = new SearchIndex(dataDir, convStore);
+    await index.load();
+    convStore.onAppend((convId, item) => index.add(convId, item));
+  });
+
+  afterEach(async () => {
+    await index.flush();
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  async function conversation(turns: string[]): Promise<string> {
+    const { convId } = await convStore.createConversation("default");
+    for (const [i, text] of turns.entries()) {
+      const bot = i % 2 === 1;
+      await convStore.append(convId, {
+        role: bot ? "bot" : "user",
+        text,
+        at: `2026-03-01T00:00:0${i}Z`,
+        ...(bot ? { msgNo: (i + 1) / 2 } : {}),
+      });
+    }
+    return convId;
+  }
+
+  it("finds turns and summaries of other conversations, with their sources", async () => {
+    const trip = await conversation([
+      "Book the train to Lyon for the conference",
+      "Booked the TGV 6611 to Lyon on May 4.",
+    ]);
+    const current = await conversation(["Which train did we book for Lyon?"]);
+    const retriever = new Retriever(index, { topK: 3, maxChars: 20 });
+    await retriever.load([trip, current], async (convId) =>
+      convId === trip ? "Planned the Lyon conference trip." : "Asked about the Lyon train."
+    );
+
+    const found = await retriever.retrieve("Which train did we book for Lyon?", {
+      convId: current,
+      exclude: new Set(["Which train did we book for Lyon?"]),
+    });
+    expect(found.map((p) => [p.convId, p.kind, p.msgNo])).toEqual([
+      [trip, "turn", undefined],
+      [trip, "summary", undefined],
+      [trip, "turn", 1],
+    ]);
+    expect(found[0].text).toBe("Book the train to Ly…");
+
+    retriever.setSummary(trip, "");
+    retriever.remove(current);
+    expect((await retriever.retrieve("Lyon conference trip")).map((p) => p.kind)).toEqual(["turn", "turn", "turn"]);
+  });
+
+  it("re-ranks the candidates by embedding similarity and caches the vectors", async () => {
+    await conversation(["my cat naps all day in the garden", "my dog digs holes in the garden"]);
+    const provider = new PetEmbeddings();
+    const retriever = new Retriever(index, { topK: 2, maxChars: 200, embedding: { provider, model: "embed" } });
+
+    const bm25Only = await new Retriever(index, { topK: 2, maxChars: 200 }).retrieve("garden dog");
+    expect(bm25Only.map((p) => p.role)).toEqual(["bot", "user"]);
+    const fused = await retriever.retrieve("where does the cat sleep in the garden");
+    expect(fused.map((p) => p.role)).toEqual(["user", "bot"]);
+    expect(provider.inputs).toHaveLength(1);
+
+    await retriever.retrieve("where does the cat sleep in the garden");
+    expect(provider.inputs).toHaveLength(1);
+  });
+});
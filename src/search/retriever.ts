@@ -0,0 +1,179 @@
+import { createHash } from "node:crypto";
+import type { LLMProvider } from "../core/llmProvider.js";
+import { bm25, tokenize } from "./searchIndex.js";
+import type { SearchIndex } from "./searchIndex.js";
+
+/** A passage from another conversation (or an older part of this one) that may help with the current message. */
+export type RetrievedPassage = {
+  convId: string;
+  /** Message number of a cited bot turn; user turns and summaries have none. */
+  msgNo?: number;
+  kind: "turn" | "summary";
+  role?: "user" | "bot";
+  at?: string;
+  text: string;
+  score: number;
+};
+
+export type RetrieverOptions = {
+  /** Passages per message. */
+  topK: number;
+  /** Longer passages are cut. */
+  maxChars: number;
+  /** BM25 hits per source that are fused (and re-ranked by embeddings). */
+  candidates?: number;
+  /** Re-ranks the BM25 candidates by similarity to the message, e.g. with a local Ollama embedding model. */
+  embedding?: { provider: LLMProvider; model: string };
+};
+
+type IndexedSummary = { text: string; tf: Map<string, number>; length: number };
+
+// reciprocal rank fusion constant
+const RRF_K = 60;
+const MAX_CACHED_VECTORS = 10_000;
+
+function hashText(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let na = 0;
+  let nb = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+}
+
+function cut(text: string, maxChars: number): string {
+  return text.length > maxChars ? text.slice(0, maxChars) + "…" : text;
+}
+
+/**
+ * Retrieval over every conversation for the memory pack: thread turns through the SearchIndex and
+ * conversation summaries kept here, both ranked by BM25 and merged by reciprocal rank fusion. With an
+ * embedding model the candidates are also ranked by vector similarity, which joins the fusion.
+ */
+export class Retriever {
+  private summaries = new Map<string, IndexedSummary>();
+  /** Embeddings by text hash; passages are embedded when they first become candidates. */
+  private vectors = new Map<string, number[]>();
+
+  constructor(
+    private searchIndex: SearchIndex,
+    private opts: RetrieverOptions
+  ) {}
+
+  /** Indexes the current summary of each conversation. */
+  async load(convIds: string[], readSummary: (convId: string) => Promise<string>): Promise<void> {
+    for (const convId of convIds) this.setSummary(convId, await readSummary(convId));
+  }
+
+  /** Wire to `MemoryEngine.onSummary`. */
+  setSummary(convId: string, summary: string): void {
+    const text = summary.trim();
+    if (!text) {
+      this.summaries.delete(convId);
+      return;
+    }
+    const terms = tokenize(text);
+    const tf = new Map<string, number>();
+    for (const term of terms) tf.set(term, (tf.get(term) ?? 0) + 1);
+    this.summaries.set(convId, { text, tf, length: terms.length });
+  }
+
+  /** Wire to `ConversationStore.onDelete`. */
+  remove(convId: string): void {
+    this.summaries.delete(convId);
+  }
+
+  /**
+   * The passages most relevant to `query`. The asking conversation's own summary and the turns in
+   * `exclude` (texts the agent already sees) are left out.
+   */
+  async retrieve(
+    query: string,
+    ctx: { convId?: string; exclude?: Set<string>; limit?: number } = {}
+  ): Promise<RetrievedPassage[]> {
+    const candidates = this.opts.candidates ?? 30;
+    const turns: RetrievedPassage[] = this.searchIndex
+      .rank(query, {
+        limit: candidates,
+        skip: (t) => t.convId === ctx.convId && !!ctx.exclude?.has(t.text),
+      })
+      .map((t) => ({
+        convId: t.convId,
+        ...(t.msgNo != null ? { msgNo: t.msgNo } : {}),
+        kind: "turn",
+        role: t.role,
+        at: t.at,
+        text: t.text,
+        score: t.score,
+      }));
+    const summaries = this.rankSummaries(query, ctx.convId).slice(0, candidates);
+    const lists = [turns, summaries];
+    const pool = [...turns, ...summaries];
+    if (this.opts.embedding && pool.length) {
+      const similar = await this.rankByEmbedding(query, pool).catch((e) => {
+        console.error("[EveryBot] retrieval embeddings failed:", e);
+        return null;
+      });
+      if (similar) lists.push(similar);
+    }
+
+    const fused = new Map<RetrievedPassage, number>();
+    for (const list of lists) {
+      list.forEach((p, rank) => fused.set(p, (fused.get(p) ?? 0) + 1 / (RRF_K + rank + 1)));
+    }
+    return [...fused]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, ctx.limit ?? this.opts.topK)
+      .map(([p, score]) => ({ ...p, text: cut(p.text, this.opts.maxChars), score: Math.round(score * 1e4) / 1e4 }));
+  }
+
+  private rankSummaries(query: string, skipConvId?: string): RetrievedPassage[] {
+    const terms = [...new Set(tokenize(query))];
+    const docs = [...this.summaries].filter(([convId]) => convId !== skipConvId);
+    if (!terms.length || !docs.length) return [];
+    const avgLength = docs.reduce((n, [, s]) => n + s.length, 0) / docs.length;
+    const df = new Map(terms.map((t) => [t, docs.filter(([, s]) => s.tf.has(t)).length]));
+
+    const out: RetrievedPassage[] = [];
+    for (const [convId, s] of docs) {
+      let score = 0;
+      for (const term of terms) {
+        const tf = s.tf.get(term);
+        if (tf) score += bm25(tf, df.get(term)!, docs.length, s.length, avgLength);
+      }
+      if (score > 0) out.push({ convId, kind: "summary", text: s.text, score: Math.round(score * 1000) / 1000 });
+    }
+    return out.sort((a, b) => b.score - a.score);
+  }
+
+  /** The passages ordered by cosine similarity to the query. */
+  private async rankByEmbedding(query: string, pool: RetrievedPassage[]): Promise<RetrievedPassage[]> {
+    const { provider, model } = this.opts.embedding!;
+    if (!provider.embed) throw new Error("LLM provider does not serve embeddings");
+    const texts = [query, ...pool.map((p) => cut(p.text, this.opts.maxChars))];
+    const missing = [...new Set(texts.filter((t) => !this.vectors.has(hashText(t))))];
+    if (missing.length) {
+      const res = await provider.embed({ model, input: missing, attribution: { purpose: "embedding" } });
+      missing.forEach((t, i) => this.vectors.set(hashText(t), res.vectors[i]));
+      // oldest entries first in a Map
+      for (const key of this.vectors.keys()) {
+        if (this.vectors.size <= MAX_CACHED_VECTORS) break;
+        this.vectors.delete(key);
+      }
+    }
+    const q = this.vectors.get(hashText(query)) ?? [];
+    const similarity = (p: RetrievedPassage) =>
+      cosine(q, this.vectors.get(hashText(cut(p.text, this.opts.maxChars))) ?? []);
+    return pool
+      .map((p) => ({ p, sim: similarity(p) }))
+      .sort((a, b) => b.sim - a.sim)
+      .map(({ p }) => p);
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { SearchIndex, makeSnippet, queryTerms, tokenize } from "./searchIndex.js";
+import { ConversationStore } from "../conversation/store.js";
+
+describe("tokenize", () => {
+  it("splits words and indexes CJK characters and bigrams", () => {
+    expect(tokenize("Deploy the API, v2!")).toEqual(["deploy", "the", "api", "v2"]);
+    expect(tokenize("每天喝水")).toEqual(["每", "每天", "天", "天喝", "喝", "喝水", "水"]);
+    expect(tokenize("用Ｐｙｔｈｏｎ写")).toEqual(["用", "python", "写"]);
+    expect(queryTerms("喝水 提醒")).toEqual(["喝水", "提醒"]);
+    expect(queryTerms("水")).toEqual(["水"]);
+  });
+
+  it("marks whole-word and CJK matches in the snippet", () => {
+    const { snippet, highlights } = makeSnippet("The blog says: log rotation keeps 喝水 logs small", "log 喝水");
+    expect(highlights.map(([s, e]) => snippet.slice(s, e))).toEqual(["log", "喝水"]);
+
+    const long = makeSnippet(`${"x ".repeat(100)}needle ${"y ".repeat(100)}`, "needle");
+    expect(long.snippet.startsWith("…")).toBe(true);
+    expect(long.snippet.endsWith("…")).toBe(true);
+    const [[s, e]] = long.highlights;
+    expect(long.snippet.slice(s, e)).toBe("needle");
+  });
+});
+
+describe("SearchIndex", () => {
+  let dataDir: string;
+  let convStore: ConversationStore;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-search-"));
+    convStore = new ConversationStore(dataDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  async function seed(): Promise<{ web: string; mail: string }> {
+    const web = (await convStore.createConversation("default")).convId;
+    const mail = (await convStore.createConversation("scheduler")).convId;
+    await convStore.append(web, {
+      role: "user",
+      text: "How do I rotate logs?",
+      at: "2026-01-10T08:00:00Z",
+      channel: "web",
+    });
+    await convStore.append(web, {
+      role: "bot",
+      text: "Use logrotate with a weekly schedule.",
+      at: "2026-01-10T08:00:05Z",
+      msgNo: 1,
+      agentId: "files",
+      channel: "web",
+    });
+    await convStore.append(mail, { role: "user", text: "提醒我每天喝水", at: "2026-02-01T01:00:00Z", emailId: "<m1>" });
+    await convStore.append(mail, {
+      role: "bot",
+      text: "好的，每天9点提醒你喝水。",
+      at: "2026-02-01T01:00:03Z",
+      msgNo: 1,
+      agentId: "scheduler",
+    });
+    return { web, mail };
+  }
+
+  it("finds turns appended after load, with filters", async () => {
+    const index = new SearchIndex(dataDir, convStore, { saveDelayMs: 10 });
+    await index.load();
+    convStore.onAppend((convId, item) => index.add(convId, item));
+    const { web, mail } = await seed();
+
+    const water = index.search("喝水");
+    expect(water.total).toBe(2);
+    expect(water.results[0]).toMatchObject({ convId: mail, channel: "mail" });
+    expect(index.search("水", { agent: "scheduler" }).results).toEqual([
+      expect.objectContaining({ convId: mail, msgNo: 1, role: "bot", agentId: "scheduler" }),
+    ]);
+
+    const weekly = index.search("WEEKLY schedule");
+    expect(weekly.results).toEqual([expect.objectContaining({ convId: web, msgNo: 1, channel: "web" })]);
+    const hit = weekly.results[0];
+    expect(hit.highlights.map(([s, e]) => hit.snippet.slice(s, e))).toEqual(["weekly", "schedule"]);
+
+    expect(index.search("logs", { channel: "mail" }).total).toBe(0);
+    expect(index.search("喝水", { from: "2026-02-01", to: "2026-02-01" }).total).toBe(2);
+    expect(index.search("喝水", { to: "2026-01-31" }).total).toBe(0);
+    expect(index.search("rotate weekly").total).toBe(0);
+  });
+
+  it("ranks turns matching any term by BM25 for retrieval", async () => {
+    const index = new SearchIndex(dataDir, convStore);
+    await index.load();
+    convStore.onAppend((convId, item) => index.add(convId, item));
+    const { web, mail } = await seed();
+
+    // "rotate weekly" has no turn with both terms: search finds nothing, rank finds either
+    const ranked = index.rank("Can I rotate them weekly?");
+    expect(ranked.map((t) => [t.convId, t.msgNo])).toEqual([
+      [web, undefined],
+      [web, 1],
+    ]);
+    expect(ranked[1]).toMatchObject({ role: "bot", text: "Use logrotate with a weekly schedule." });
+    expect(index.rank("喝水", { limit: 1 })).toEqual([expect.objectContaining({ convId: mail })]);
+    expect(index.rank("rotate weekly", { skip: (t) => t.msgNo == null })).toEqual([
+      expect.objectContaining({ msgNo: 1 }),
+    ]);
+    expect(index.rank("nothing here")).toEqual([]);
+  });
+
+  it("catches up with threads written while it was not running", async () => {
+    const first = new SearchIndex(dataDir, convStore);
+    await first.load();
+    convStore.onAppend((convId, item) => first.add(convId, item));
+    const { web } = await seed();
+    await first.flush();
+
+    // a second process sees the saved index plus one turn written without it
+    const other = new ConversationStore(dataDir);
+    await other.append(web, { role: "user", text: "and compress them?", at: "2026-01-10T09:00:00Z", channel: "web" });
+    const second = new SearchIndex(dataDir, other);
+    await second.load();
+    expect(second.search("compress").total).toBe(1);
+    expect(second.search("logrotate").total).toBe(1);
+
+    await fs.rm(path.join(dataDir, "conv", web), { recursive: true });
+    const third = new SearchIndex(dataDir, other);
+    await third.load();
+    expect(third.search("logrotate").total).toBe(0);
+    expect(third.search("喝水").total).toBe(2);
+  });
+});
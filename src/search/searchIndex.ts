@@ -0,0 +1,367 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { ConversationStore, ThreadItem } from "../conversation/store.js";
+import { writeFileAtomic } from "../core/atomicFile.js";
+
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+const CJK_RE = new RegExp(`[${CJK}]`, "u");
+const RUN_RE = new RegExp(`[${CJK}]+|(?:(?![${CJK}])[\\p{L}\\p{N}])+`, "gu");
+
+/** Word runs and CJK runs of a text, NFKC-normalized and lowercased. */
+function runs(text: string): string[] {
+  return text.normalize("NFKC").toLowerCase().match(RUN_RE) ?? [];
+}
+
+/**
+ * Index terms: words for alphabetic scripts; characters and overlapping bigrams for CJK, which has no
+ * spaces. Queries use `queryTerms`, so a one-character CJK query still finds longer text.
+ */
+export function tokenize(text: string): string[] {
+  const out: string[] = [];
+  for (const run of runs(text)) {
+    if (!CJK_RE.test(run)) {
+      out.push(run);
+      continue;
+    }
+    const chars = [...run];
+    chars.forEach((c, i) => {
+      out.push(c);
+      if (i + 1 < chars.length) out.push(c + chars[i + 1]);
+    });
+  }
+  return out;
+}
+
+/** Terms a query must all match: words, CJK bigrams, or the character itself for a lone CJK character. */
+export function queryTerms(query: string): string[] {
+  const out = new Set<string>();
+  for (const run of runs(query)) {
+    const chars = [...run];
+    if (!CJK_RE.test(run) || chars.length === 1) out.add(run);
+    else for (let i = 0; i + 1 < chars.length; i++) out.add(chars[i] + chars[i + 1]);
+  }
+  return [...out];
+}
+
+export type SearchChannel = "web" | "mail";
+
+type IndexedTurn = {
+  convId: string;
+  /** Line of the turn in the thread file. */
+  line: number;
+  role: ThreadItem["role"];
+  at: string;
+  msgNo?: number;
+  agentId?: string;
+  agents?: string[];
+  channel: SearchChannel;
+  text: string;
+};
+
+type IndexFile = {
+  version: 1;
+  /** Indexed lines and bytes per thread; a thread that grew past these is indexed from where it stopped. */
+  convs: Record<string, { lines: number; bytes: number }>;
+  turns: IndexedTurn[];
+};
+
+export type SearchFilters = {
+  agent?: string;
+  channel?: SearchChannel;
+  /** ISO timestamps or dates; `to` as a date includes that whole day. */
+  from?: string;
+  to?: string;
+  limit?: number;
+};
+
+export type SearchHit = {
+  convId: string;
+  msgNo?: number;
+  role: ThreadItem["role"];
+  agentId?: string;
+  channel: SearchChannel;
+  at: string;
+  score: number;
+  snippet: string;
+  /** [start, end) character ranges of matches within `snippet`. */
+  highlights: Array<[number, number]>;
+};
+
+/** A turn as `SearchIndex.rank` returns it, with its full text. */
+export type RankedTurn = {
+  convId: string;
+  msgNo?: number;
+  role: ThreadItem["role"];
+  at: string;
+  text: string;
+  score: number;
+};
+
+const SNIPPET_CONTEXT = 60;
+// BM25 term saturation and length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/** BM25 weight of a term found `tf` times in a document, and in `docFreq` of `docs` documents overall. */
+export function bm25(tf: number, docFreq: number, docs: number, length: number, avgLength: number): number {
+  const idf = Math.log(1 + (docs - docFreq + 0.5) / (docFreq + 0.5));
+  return (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / avgLength));
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** A window around the first match, with every match in it marked; words only match whole words. */
+export function makeSnippet(text: string, query: string): { snippet: string; highlights: Array<[number, number]> } {
+  const flat = text.normalize("NFKC").replace(/\s+/g, " ").trim();
+  const patterns = [...new Set(runs(query))]
+    .sort((a, b) => b.length - a.length)
+    .map((w) => (CJK_RE.test(w) ? escapeRegExp(w) : `(?<![\\p{L}\\p{N}])${escapeRegExp(w)}(?![\\p{L}\\p{N}])`));
+  const re = patterns.length ? new RegExp(patterns.join("|"), "giu") : null;
+  const first = re ? flat.search(re) : -1;
+
+  const start = Math.max(0, first - SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, start + SNIPPET_CONTEXT * 3);
+  const prefix = start > 0 ? "…" : "";
+  const snippet = prefix + flat.slice(start, end) + (end < flat.length ? "…" : "");
+
+  const highlights: Array<[number, number]> = [];
+  if (re) for (const m of snippet.matchAll(re)) highlights.push([m.index, m.index + m[0].length]);
+  return { snippet, highlights };
+}
+
+function endOfRange(to: string): string {
+  return /^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : to;
+}
+
+/**
+ * Inverted index over all conversation turns. New turns are added as ConversationStore appends them;
+ * on load only threads that changed since the last save are read again. Stored in data/search/index.json.
+ */
+export class SearchIndex {
+  private readonly filePath: string;
+  private turns: Array<IndexedTurn | null> = [];
+  private postings = new Map<string, Map<number, number>>();
+  /** Term count per turn and the totals over live turns, for BM25. */
+  private lengths: number[] = [];
+  private liveTurns = 0;
+  private totalLength = 0;
+  private convs: IndexFile["convs"] = {};
+  /** Channel of the last user turn per conversation, for turns that do not carry one. */
+  private lastChannel = new Map<string, SearchChannel>();
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    dataDir: string,
+    private convStore: ConversationStore,
+    private opts: { saveDelayMs?: number } = {}
+  ) {
+    this.filePath = path.join(dataDir, "search", "index.json");
+  }
+
+  /** Loads the saved index and catches up with threads written since. */
+  async load(): Promise<void> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as IndexFile;
+      if (data.version === 1) {
+        this.convs = data.convs;
+        for (const t of data.turns) {
+          this.insert(t);
+          if (t.role === "user") this.lastChannel.set(t.convId, t.channel);
+        }
+      }
+    } catch {
+      // no index yet, or unreadable: rebuilt from the threads below
+    }
+
+    const metas = await this.convStore.listConversations();
+    const live = new Set(metas.map((m) => m.convId));
+    let changed = false;
+    for (const convId of Object.keys(this.convs)) {
+      if (live.has(convId)) continue;
+      this.dropConversation(convId);
+      changed = true;
+    }
+    for (const { convId } of metas) {
+      const bytes = await this.convStore.threadBytes(convId);
+      const known = this.convs[convId];
+      if (known ? known.bytes === bytes : !bytes) continue;
+      const items = await this.convStore.allTurns(convId);
+      if (!known || bytes < known.bytes || items.length < known.lines) {
+        this.dropConversation(convId);
+        items.forEach((item) => this.add(convId, item, false));
+      } else {
+        items.slice(known.lines).forEach((item) => this.add(convId, item, false));
+      }
+      this.convs[convId].bytes = bytes;
+      changed = true;
+    }
+    if (changed) await this.save();
+  }
+
+  /** Indexes one appended turn; wire to `ConversationStore.onAppend`. */
+  add(convId: string, item: ThreadItem, scheduleSave = true): void {
+    const conv = (this.convs[convId] ??= { lines: 0, bytes: 0 });
+    let channel = item.channel ?? (item.emailId ? "mail" : undefined);
+    if (item.role === "user") this.lastChannel.set(convId, channel ?? "web");
+    channel ??= this.lastChannel.get(convId) ?? "web";
+
+    this.insert({
+      convId,
+      line: conv.lines,
+      role: item.role,
+      at: item.at,
+      ...(item.msgNo != null ? { msgNo: item.msgNo } : {}),
+      ...(item.agentId ? { agentId: item.agentId } : {}),
+      ...(item.agents ? { agents: item.agents } : {}),
+      channel,
+      text: item.text,
+    });
+    conv.lines += 1;
+    conv.bytes += Buffer.byteLength(JSON.stringify(item) + "\n", "utf-8");
+    if (scheduleSave) this.scheduleSave();
+  }
+
+  /** Forgets a deleted conversation; wire to `ConversationStore.onDelete`. */
+  remove(convId: string): void {
+    if (!this.convs[convId]) return;
+    this.dropConversation(convId);
+    this.scheduleSave();
+  }
+
+  /** Indexes a compacted thread again; wire to `ConversationStore.onCompact`. */
+  replace(convId: string, items: ThreadItem[]): void {
+    this.dropConversation(convId);
+    items.forEach((item) => this.add(convId, item, false));
+    this.scheduleSave();
+  }
+
+  /** Turns containing every query term, best matches first (ties: newest first). */
+  search(query: string, filters: SearchFilters = {}): { total: number; results: SearchHit[] } {
+    const terms = queryTerms(query);
+    if (!terms.length) return { total: 0, results: [] };
+
+    const lists = terms.map((t) => this.postings.get(t));
+    if (lists.some((l) => !l)) return { total: 0, results: [] };
+    const [shortest, ...rest] = (lists as Array<Map<number, number>>).sort((a, b) => a.size - b.size);
+    const live = this.turns.filter(Boolean).length;
+    const to = filters.to ? endOfRange(filters.to) : undefined;
+
+    const scored: Array<{ turn: IndexedTurn; score: number }> = [];
+    for (const id of shortest.keys()) {
+      if (!rest.every((l) => l.has(id))) continue;
+      const turn = this.turns[id];
+      if (!turn) continue;
+      if (filters.agent && turn.agentId !== filters.agent && !turn.agents?.includes(filters.agent)) continue;
+      if (filters.channel && turn.channel !== filters.channel) continue;
+      if (filters.from && turn.at < filters.from) continue;
+      if (to && turn.at > to) continue;
+      // tf-idf: frequent terms in this turn count more, terms common across all turns less
+      let score = 0;
+      for (const l of lists as Array<Map<number, number>>) score += l.get(id)! * Math.log(1 + live / l.size);
+      scored.push({ turn, score });
+    }
+    scored.sort((a, b) => b.score - a.score || b.turn.at.localeCompare(a.turn.at));
+
+    const results = scored.slice(0, filters.limit ?? 20).map(({ turn, score }): SearchHit => ({
+      convId: turn.convId,
+      ...(turn.msgNo != null ? { msgNo: turn.msgNo } : {}),
+      role: turn.role,
+      ...(turn.agentId ? { agentId: turn.agentId } : {}),
+      channel: turn.channel,
+      at: turn.at,
+      score: Math.round(score * 1000) / 1000,
+      ...makeSnippet(turn.text, query),
+    }));
+    return { total: scored.length, results };
+  }
+
+  /**
+   * Turns matching any term of `query`, ranked by BM25, for retrieval rather than search: long messages
+   * work as queries. `skip` leaves turns out before the limit is applied.
+   */
+  rank(query: string, opts: { limit?: number; skip?: (turn: RankedTurn) => boolean } = {}): RankedTurn[] {
+    const terms = [...new Set(tokenize(query))];
+    if (!terms.length || !this.liveTurns) return [];
+    const avgLength = this.totalLength / this.liveTurns;
+
+    const scores = new Map<number, number>();
+    for (const term of terms) {
+      const list = this.postings.get(term);
+      if (!list) continue;
+      for (const [id, tf] of list) {
+        const weight = bm25(tf, list.size, this.liveTurns, this.lengths[id], avgLength);
+        scores.set(id, (scores.get(id) ?? 0) + weight);
+      }
+    }
+
+    const ranked: RankedTurn[] = [];
+    for (const [id, score] of scores) {
+      const turn = this.turns[id];
+      if (!turn) continue;
+      ranked.push({
+        convId: turn.convId,
+        ...(turn.msgNo != null ? { msgNo: turn.msgNo } : {}),
+        role: turn.role,
+        at: turn.at,
+        text: turn.text,
+        score: Math.round(score * 1000) / 1000,
+      });
+    }
+    ranked.sort((a, b) => b.score - a.score || b.at.localeCompare(a.at));
+    return (opts.skip ? ranked.filter((t) => !opts.skip!(t)) : ranked).slice(0, opts.limit ?? 20);
+  }
+
+  /** Writes a pending save now (e.g. before shutdown). */
+  async flush(): Promise<void> {
+    if (!this.saveTimer) return;
+    clearTimeout(this.saveTimer);
+    this.saveTimer = null;
+    await this.save();
+  }
+
+  private insert(turn: IndexedTurn): void {
+    const id = this.turns.push(turn) - 1;
+    const terms = tokenize(turn.text);
+    this.lengths[id] = terms.length;
+    this.liveTurns += 1;
+    this.totalLength += terms.length;
+    for (const term of terms) {
+      let list = this.postings.get(term);
+      if (!list) this.postings.set(term, (list = new Map()));
+      list.set(id, (list.get(id) ?? 0) + 1);
+    }
+  }
+
+  private dropConversation(convId: string): void {
+    this.turns.forEach((t, id) => {
+      if (t?.convId !== convId) return;
+      for (const term of new Set(tokenize(t.text))) {
+        const list = this.postings.get(term);
+        list?.delete(id);
+        if (list && !list.size) this.postings.delete(term);
+      }
+      this.turns[id] = null;
+      this.liveTurns -= 1;
+      this.totalLength -= this.lengths[id];
+    });
+    delete this.convs[convId];
+    this.lastChannel.delete(convId);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((e) => console.error("[EveryBot] search index save failed:", e));
+    }, this.opts.saveDelayMs ?? 1000);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    const data: IndexFile = { version: 1, convs: this.convs, turns: this.turns.filter((t) => t !== null) };
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFileAtomic(this.filePath, JSON.stringify(data));
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { WorkspaceFS } from "../core/workspaceFs.js";
+import { WorkspaceIndex, chunkLines } from "./workspaceIndex.js";
+
+describe("chunkLines", () => {
+  it("splits into overlapping line windows and skips blank ones", () => {
+    const text = ["a", "b", "c", "d", "e", "", "", ""].join("\r\n") + "\r\n";
+    expect(chunkLines("f.md", text, 3, 1).map((c) => [c.startLine, c.endLine, c.text])).toEqual([
+      [1, 3, "a\nb\nc"],
+      [3, 5, "c\nd\ne"],
+      [5, 7, "e\n\n"],
+    ]);
+    expect(chunkLines("f.md", "\n\n", 3, 1)).toEqual([]);
+  });
+});
+
+describe("WorkspaceIndex", () => {
+  let root: string;
+  let index: WorkspaceIndex;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-workspace-index-"));
+    index = new WorkspaceIndex(new WorkspaceFS(root), { chunkLines: 4, overlapLines: 0 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(root, { recursive: true, force: true }).catch(() => {});
+  });
+
+  async function write(file: string, content: string | Buffer, mtime?: Date): Promise<void> {
+    await fs.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+    await fs.writeFile(path.join(root, file), content);
+    if (mtime) await fs.utimes(path.join(root, file), mtime, mtime);
+  }
+
+  it("indexes text files in chunks and finds them with their line ranges", async () => {
+    await write("notes/trip.md", "# Trip\n\nhotel: Ibis Lyon\ncheck-in 3pm\n\ntrain TGV 6611\nseat 42\n");
+    await write("data/prices.csv", "item,price\ncoffee,3\n");
+    await write(".git/config", "hotel");
+    await write("photo.png", "hotel");
+    await write("fake.txt", Buffer.from([0x68, 0, 0x69]));
+
+    expect(await index.refresh()).toEqual({ files: 2, chunks: 3 });
+    expect(index.search("Which hotel in Lyon?")).toEqual([
+      expect.objectContaining({ path: "notes/trip.md", startLine: 1, endLine: 4 }),
+    ]);
+    expect(index.search("train seat")[0]).toMatchObject({
+      path: "notes/trip.md",
+      startLine: 5,
+      endLine: 7,
+      text: "\ntrain TGV 6611\nseat 42",
+    });
+    expect(index.search("nothing matches")).toEqual([]);
+  });
+
+  it("re-reads changed files, forgets removed ones and rebuilds on reindex", async () => {
+    await write("a.txt", "alpha", new Date("2026-01-01T00:00:00Z"));
+    await write("b.txt", "beta");
+    await index.refresh();
+
+    await write("a.txt", "gamma", new Date("2026-01-02T00:00:00Z"));
+    await fs.rm(path.join(root, "b.txt"));
+    expect(await index.refresh()).toEqual({ files: 1, chunks: 1 });
+    expect(index.search("alpha")).toEqual([]);
+    expect(index.search("gamma")).toHaveLength(1);
+    expect(index.search("beta")).toEqual([]);
+
+    await write("c.md", "delta");
+    expect(await index.reindex()).toEqual({ files: 2, chunks: 2 });
+  });
+
+  it("runs one scan at a time when reindexes overlap", async () => {
+    await write("a.txt", "alpha");
+    const workspaceFs = new WorkspaceFS(root);
+    const listFiles = workspaceFs.listFiles.bind(workspaceFs);
+    let scanning = 0;
+    let most = 0;
+    workspaceFs.listFiles = async () => {
+      most = Math.max(most, ++scanning);
+      await new Promise((r) => setTimeout(r, 20));
+      scanning -= 1;
+      return listFiles();
+    };
+    index = new WorkspaceIndex(workspaceFs);
+
+    const first = index.reindex();
+    const second = index.reindex();
+    // joins the queued reindex instead of starting a scan of its own
+    const refreshed = index.refresh();
+    expect(refreshed).toBe(second);
+    expect(await Promise.all([first, second, refreshed])).toEqual(Array(3).fill({ files: 1, chunks: 1 }));
+    expect(most).toBe(1);
+  });
+});
@@ -0,0 +1,180 @@
+import path from "node:path";
+import type { WorkspaceFS, WorkspaceFileInfo } from "../core/workspaceFs.js";
+import { bm25, tokenize } from "./searchIndex.js";
+
+/** A piece of a workspace file; lines are 1-based and inclusive. */
+export type WorkspaceChunk = { path: string; startLine: number; endLine: number; text: string; score: number };
+
+export type WorkspaceIndexOptions = {
+  /** Lines per chunk; neighbouring chunks share `overlapLines`. */
+  chunkLines?: number;
+  overlapLines?: number;
+  /** Larger files are not indexed. */
+  maxFileBytes?: number;
+};
+
+export type ReindexReport = { files: number; chunks: number };
+
+type IndexedChunk = Omit<WorkspaceChunk, "score"> & { tf: Map<string, number>; length: number };
+type IndexedFile = { size: number; mtimeMs: number; chunks: IndexedChunk[] };
+
+const TEXT_EXTENSIONS = new Set([
+  ".txt",
+  ".md",
+  ".markdown",
+  ".rst",
+  ".csv",
+  ".tsv",
+  ".json",
+  ".yaml",
+  ".yml",
+  ".toml",
+  ".ini",
+  ".log",
+  ".html",
+  ".xml",
+]);
+/** Chunk text cap, for files with very long lines. */
+const MAX_CHUNK_CHARS = 4000;
+
+export function isIndexable(file: string): boolean {
+  return TEXT_EXTENSIONS.has(path.extname(file).toLowerCase());
+}
+
+/** Splits text into overlapping windows of lines; blank windows are dropped. */
+export function chunkLines(
+  file: string,
+  text: string,
+  size: number,
+  overlap: number
+): Array<Omit<WorkspaceChunk, "score">> {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  if (lines[lines.length - 1] === "") lines.pop();
+  const step = Math.max(1, size - overlap);
+  const out: Array<Omit<WorkspaceChunk, "score">> = [];
+  for (let start = 0; start < lines.length; start += step) {
+    const end = Math.min(lines.length, start + size);
+    const body = lines.slice(start, end).join("\n");
+    if (body.trim()) {
+      out.push({ path: file, startLine: start + 1, endLine: end, text: body.slice(0, MAX_CHUNK_CHARS) });
+    }
+    if (end === lines.length) break;
+  }
+  return out;
+}
+
+/**
+ * BM25 index over the text files of the workspace (notes, docs, data), in chunks of lines so answers can
+ * cite a path and line range. Kept in memory: `refresh` re-reads only files whose size or mtime changed,
+ * and `watch` refreshes shortly after the workspace changes.
+ */
+export class WorkspaceIndex {
+  private files = new Map<string, IndexedFile>();
+  private running: Promise<ReindexReport> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private workspaceFs: WorkspaceFS,
+    private opts: WorkspaceIndexOptions = {}
+  ) {}
+
+  /** Catches up with added, changed and removed files; a call while one is running waits for it. */
+  refresh(): Promise<ReindexReport> {
+    this.running ??= this.scan(false).finally(() => (this.running = null));
+    return this.running;
+  }
+
+  /** Reads every file again (POST /api/workspace/reindex), after the scan that is running, if any. */
+  reindex(): Promise<ReindexReport> {
+    const run: Promise<ReindexReport> = (this.running ?? Promise.resolve())
+      .catch(() => {})
+      .then(() => this.scan(true))
+      .finally(() => {
+        if (this.running === run) this.running = null;
+      });
+    this.running = run;
+    return run;
+  }
+
+  /** Refreshes `delayMs` after the last change in the workspace. Returns a function that stops watching. */
+  watch(delayMs = 500): () => void {
+    const stop = this.workspaceFs.watch(() => {
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.refresh().catch((e) => console.error("[EveryBot] workspace index refresh failed:", e));
+      }, delayMs);
+      this.timer.unref();
+    });
+    return () => {
+      if (this.timer) clearTimeout(this.timer);
+      this.timer = null;
+      stop();
+    };
+  }
+
+  /** Chunks matching any term of `query`, ranked by BM25. */
+  search(query: string, limit = 5): WorkspaceChunk[] {
+    const terms = [...new Set(tokenize(query))];
+    const chunks = [...this.files.values()].flatMap((f) => f.chunks);
+    if (!terms.length || !chunks.length) return [];
+    const avgLength = chunks.reduce((n, c) => n + c.length, 0) / chunks.length;
+    const df = new Map(terms.map((t) => [t, chunks.filter((c) => c.tf.has(t)).length]));
+
+    const scored: WorkspaceChunk[] = [];
+    for (const c of chunks) {
+      let score = 0;
+      for (const term of terms) {
+        const tf = c.tf.get(term);
+        if (tf) score += bm25(tf, df.get(term)!, chunks.length, c.length, avgLength);
+      }
+      if (score <= 0) continue;
+      const { path: file, startLine, endLine, text } = c;
+      scored.push({ path: file, startLine, endLine, text, score: Math.round(score * 1000) / 1000 });
+    }
+    return scored.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)).slice(0, limit);
+  }
+
+  private async scan(full: boolean): Promise<ReindexReport> {
+    if (full) this.files.clear();
+    const maxBytes = this.opts.maxFileBytes ?? 1_000_000;
+    const found = (await this.workspaceFs.listFiles()).filter((f) => isIndexable(f.path) && f.size <= maxBytes);
+    const live = new Set(found.map((f) => f.path));
+    for (const file of this.files.keys()) if (!live.has(file)) this.files.delete(file);
+    for (const info of found) {
+      const known = this.files.get(info.path);
+      if (known && known.size === info.size && known.mtimeMs === info.mtimeMs) continue;
+      await this.indexFile(info);
+    }
+    let chunks = 0;
+    for (const f of this.files.values()) chunks += f.chunks.length;
+    return { files: this.files.size, chunks };
+  }
+
+  private async indexFile(info: WorkspaceFileInfo): Promise<void> {
+    let data: Buffer;
+    try {
+      data = await this.workspaceFs.readBytes(info.path, this.opts.maxFileBytes ?? 1_000_000);
+    } catch {
+      this.files.delete(info.path);
+      return;
+    }
+    // binary content behind a text extension
+    if (data.includes(0)) {
+      this.files.delete(info.path);
+      return;
+    }
+    const chunks = chunkLines(
+      info.path,
+      data.toString("utf-8"),
+      this.opts.chunkLines ?? 40,
+      this.opts.overlapLines ?? 5
+    ).map((c) => {
+      const terms = tokenize(c.text);
+      const tf = new Map<string, number>();
+      for (const term of terms) tf.set(term, (tf.get(term) ?? 0) + 1);
+      return { ...c, tf, length: terms.length };
+    });
+    this.files.set(info.path, { size: info.size, mtimeMs: info.mtimeMs, chunks });
+  }
+}
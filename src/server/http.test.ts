@@ -2,12 +2,31 @@ import { describe, it, expect, vi } from "vitest";
 import http from "node:http";
 import { createHttpServer, startHttpServer } from "./http.js";
 import type { AppConfig } from "../config.js";
-import type { AgentRegistry } from "../core/agents.js";
+import { AgentRegistry, createDefaultAgents } from "../core/agents.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+import type { LLMProvider } from "../core/llmProvider.js";
+import { MemoryEngine } from "../memory/memoryEngine.js";
+import { IntentRouter } from "../core/intentRouter.js";
+import { ToolRegistry } from "../tools/registry.js";
+import { createTaskToolDefinitions } from "../tools/taskTools.js";
+import { SchedulerEngine } from "../scheduler/schedulerEngine.js";
+import { EvalRunner } from "../evals/evalRunner.js";
+import { SearchIndex } from "../search/searchIndex.js";
+import { WorkspaceIndex } from "../search/workspaceIndex.js";
+import { ConversationArchive } from "../conversation/archive.js";
+import { ConversationTitler } from "../conversation/metadata.js";
+import { AttachmentStore } from "../conversation/attachments.js";
+import { WorkspaceFS } from "../core/workspaceFs.js";
+import type { Agent } from "../core/agents.js";
 import { ConversationStore } from "../conversation/store.js";
+import type { ConvMeta } from "../conversation/store.js";
 import { ApprovalManager } from "../tools/approval.js";
 import type { FileToolsApi } from "../tools/fileTools.js";
 import type { AuditLogger } from "../tools/audit.js";
 import os from "node:os";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { gunzipSync } from "node:zlib";
 
 function makeConfig(): AppConfig {
   return {
@@ -37,6 +56,18 @@ async function doPost(port: number, pathname: string, body: unknown): Promise<{
   });
 }
 
+async function doGet(port: number, pathname: string): Promise<{ status: number; json: unknown }> {
+  return new Promise((resolve, reject) => {
+    http
+      .get({ hostname: "127.0.0.1", port, path: pathname }, (res) => {
+        const chunks: Buffer[] = [];
+        res.on("data", (c) => chunks.push(c));
+        res.on("end", () => resolve({ status: res.statusCode ?? 0, json: JSON.parse(Buffer.concat(chunks).toString()) }));
+      })
+      .on("error", reject);
+  });
+}
+
 describe("HTTP server validation", () => {
   it("rejects file write with missing content", async () => {
     const cfg = makeConfig();
@@ -115,3 +146,770 @@ describe("HTTP server validation", () => {
     }
   });
 });
+
+describe("POST /api/chat/stream", () => {
+  it("streams tokens and persists the finished bot turn", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-http-"));
+    const cfg = { ...makeConfig(), dataDir };
+    const convStore = new ConversationStore(dataDir);
+    const agent: Agent = {
+      id: "default",
+      async handle(_text, _ctx, _memory, opts) {
+        for (const t of ["Hel", "lo"]) opts?.onToken?.(t);
+        return "Hello";
+      },
+    };
+    const agents = new AgentRegistry();
+    agents.register(agent);
+
+    const server = createHttpServer(cfg, convStore, agents, null);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const res = await fetch(`http://127.0.0.1:${port}/api/chat/stream`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ message: "hi" }),
+      });
+      expect(res.headers.get("content-type")).toMatch(/text\/event-stream/);
+      const raw = await res.text();
+      expect(raw).toContain('event: token\ndata: {"delta":"Hel"}');
+      const done = raw.split("\n\n").find((b) => b.startsWith("event: done"));
+      const payload = JSON.parse(done!.split("data: ")[1]) as { sessionId: string; reply: string; msgNo: number };
+      expect(payload.reply).toBe("Hello");
+
+      const thread = await convStore.getThread(payload.sessionId);
+      expect(thread.map((t) => [t.role, t.text])).toEqual([
+        ["user", "hi"],
+        ["bot", "Hello"],
+      ]);
+      expect(thread[1].partial).toBeUndefined();
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("chat flow with a mock LLM", () => {
+  it("replies, stores both turns and updates memory without network", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-e2e-"));
+    const cfg = { ...makeConfig(), dataDir };
+    const convStore = new ConversationStore(dataDir);
+    const provider = new MockProvider([
+      { match: { model: "^chat$", user: "^my name is" }, response: { text: "Nice to meet you, Ann." } },
+      { match: { model: "^summary$" }, response: { text: "User introduced herself as Ann." } },
+      { match: { model: "^facts$" }, response: { text: '{"user_name":"Ann"}' } },
+    ]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "chat", files: "chat", scheduler: "chat" } })) {
+      agents.register(a);
+    }
+    const memoryEngine = new MemoryEngine(dataDir, convStore, provider, { summary: "summary", facts: "facts" });
+
+    const server = createHttpServer(cfg, convStore, agents, memoryEngine);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const res = await doPost(port, "/api/chat", { message: "my name is Ann" });
+      expect(res.status).toBe(200);
+      const body = res.json as { sessionId: string; reply: string; msgNo: number };
+      expect(body.reply).toBe("Nice to meet you, Ann.");
+      expect(body.msgNo).toBe(1);
+
+      const thread = await convStore.getThread(body.sessionId);
+      expect(thread.map((t) => t.role)).toEqual(["user", "bot"]);
+      expect(await memoryEngine.readFacts(body.sessionId)).toEqual({ user_name: "Ann" });
+      expect(await memoryEngine.readSummary(body.sessionId)).toContain("Ann");
+
+      const second = await doPost(port, "/api/chat", { sessionId: body.sessionId, message: "what is my name?" });
+      expect((second.json as { reply: string }).reply).toBe("(mock) what is my name?");
+      const lastChat = provider.requests.filter((r) => r.model === "chat").at(-1)!;
+      expect(lastChat.messages[0].content).toContain('"user_name": "Ann"');
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("GET /api/agents", () => {
+  it("lists registered agents with their definitions", async () => {
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({
+      provider: new MockProvider(),
+      models: { default: "m", files: "m", scheduler: "m" },
+    })) {
+      agents.register(a);
+    }
+    const server = createHttpServer(makeConfig(), new ConversationStore(os.tmpdir()), agents, null);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const res = await doGet(port, "/api/agents");
+      expect(res.status).toBe(200);
+      const body = res.json as { agents: Array<{ id: string; source: string; modelSlot: string }>; errors: unknown[] };
+      expect(body.agents.map((a) => [a.id, a.source, a.modelSlot])).toEqual([
+        ["default", "builtin", "default"],
+        ["files", "builtin", "files"],
+        ["scheduler", "builtin", "scheduler"],
+      ]);
+      expect(body.errors).toEqual([]);
+    } finally {
+      server.close();
+    }
+  });
+});
+
+describe("intent routing", () => {
+  it("sends unaddressed messages to the matching agent and records the decision", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-route-"));
+    const convStore = new ConversationStore(dataDir);
+    const provider = new MockProvider();
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "m", files: "m", scheduler: "m" } })) {
+      agents.register(a);
+    }
+    const intentRouter = new IntentRouter(agents, { mode: "keywords" });
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, null, { intentRouter });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const first = await doPost(port, "/api/chat", { message: "delete old logs in the workspace" });
+      const body = first.json as { sessionId: string; agentId: string; routing: { method: string } };
+      expect(body.agentId).toBe("files");
+      expect(body.routing.method).toBe("keywords");
+
+      // Unclear follow-ups stay with the conversation's agent; an explicit agentId overrides the router.
+      const followUp = await doPost(port, "/api/chat", { sessionId: body.sessionId, message: "yes please" });
+      expect((followUp.json as { agentId: string }).agentId).toBe("files");
+      const forced = await doPost(port, "/api/chat", {
+        sessionId: body.sessionId,
+        message: "delete it",
+        agentId: "default",
+      });
+      expect((forced.json as { agentId: string }).agentId).toBe("default");
+
+      const thread = await convStore.getThread(body.sessionId);
+      expect(thread.filter((t) => t.role === "user").map((t) => t.routing?.method)).toEqual([
+        "keywords",
+        "fallback",
+        "explicit",
+      ]);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("scheduling by chat", () => {
+  it("queues the task the scheduler agent proposes and registers it once approved", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-sched-chat-"));
+    const schedulerEngine = new SchedulerEngine(dataDir);
+    const approvalManager = new ApprovalManager();
+    const auditLogger = { log: vi.fn(async () => {}) } as unknown as AuditLogger;
+    const toolRegistry = new ToolRegistry({ approvalManager, auditLogger });
+    for (const t of createTaskToolDefinitions(schedulerEngine, () => toolRegistry.names())) toolRegistry.register(t);
+
+    const taskArgs = {
+      id: "water",
+      cron: "0 9 * * *",
+      timezone: "Asia/Shanghai",
+      action: { type: "sendMessage", channel: "mail", textTemplate: "Drink water" },
+    };
+    const provider = new MockProvider([
+      {
+        match: { user: "remind me" },
+        response: {
+          text: "",
+          toolCalls: [
+            { id: "c1", type: "function", function: { name: "task_create", arguments: JSON.stringify(taskArgs) } },
+          ],
+        },
+        times: 1,
+      },
+      { match: { user: "remind me" }, response: { text: "Queued task water for approval." } },
+    ]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({
+      provider,
+      models: { default: "m", files: "m", scheduler: "m" },
+      tools: toolRegistry,
+    })) {
+      agents.register(a);
+    }
+
+    const convStore = new ConversationStore(dataDir);
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, null, {
+      approvalManager,
+      auditLogger,
+      toolRegistry,
+      schedulerEngine,
+    });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const chat = await doPost(port, "/api/chat", { agentId: "scheduler", message: "remind me daily at 9 to drink water" });
+      const body = chat.json as {
+        sessionId: string;
+        reply: string;
+        tools: Array<{ result: string; pendingId: string; output: unknown }>;
+      };
+      expect(body.reply).toBe("Queued task water for approval.");
+      expect(body.tools[0].result).toBe("pending");
+      expect((body.tools[0].output as { nextRuns: string[] }).nextRuns).toHaveLength(3);
+      expect(schedulerEngine.getTasks()).toEqual([]);
+
+      expect(approvalManager.get(body.tools[0].pendingId)?.ctx).toMatchObject({
+        convId: body.sessionId,
+        agentId: "scheduler",
+      });
+      const approved = await doPost(port, `/api/approvals/${body.tools[0].pendingId}/approve`, {});
+      expect(approved.status).toBe(200);
+      expect(schedulerEngine.getTask("water")).toMatchObject({ cron: "0 9 * * *", enabled: true });
+      expect((await doGet(port, "/api/tasks")).json).toMatchObject({ tasks: [{ id: "water" }] });
+      expect(auditLogger.log).toHaveBeenLastCalledWith(
+        expect.objectContaining({ tool: "task.create", result: "ok", convId: body.sessionId, agentId: "scheduler" })
+      );
+      // the agent sees what the approval did on its next turn
+      const thread = await convStore.getThread(body.sessionId);
+      expect(thread[thread.length - 1]).toMatchObject({
+        role: "bot",
+        agentId: "scheduler",
+        text: expect.stringMatching(/^Approved task\.create: done/),
+        tools: [{ tool: "task.create", result: "ok", pendingId: body.tools[0].pendingId }],
+      });
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("POST /api/evals/run", () => {
+  it("runs inline and named suites and rejects invalid ones", async () => {
+    const evalsDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-evals-"));
+    const provider = new MockProvider([{ match: { user: "ping" }, response: { text: "pong" } }]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "m", files: "m", scheduler: "m" } })) {
+      agents.register(a);
+    }
+    const suite = {
+      name: "ping",
+      cases: [{ id: "pong", turns: [{ user: "ping", expect: [{ type: "contains", value: "pong" }] }] }],
+    };
+    await fs.writeFile(path.join(evalsDir, "ping.json"), JSON.stringify(suite), "utf-8");
+    const server = createHttpServer({ ...makeConfig(), evalsDir }, new ConversationStore(os.tmpdir()), agents, null, {
+      evalRunner: new EvalRunner({ agents }),
+    });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const inline = await doPost(port, "/api/evals/run", { suite });
+      expect(inline.status).toBe(200);
+      expect(inline.json).toMatchObject({ suite: "ping", pass: true, passed: 1, failed: 0 });
+
+      const named = await doPost(port, "/api/evals/run", { name: "ping", agentId: "files" });
+      expect(named.json).toMatchObject({ pass: true, cases: [{ agent: "files" }] });
+
+      expect((await doPost(port, "/api/evals/run", { name: "../ping" })).status).toBe(400);
+      expect((await doPost(port, "/api/evals/run", { suite: { name: "empty" } })).json).toEqual({
+        error: "cases must be a non-empty list",
+      });
+      expect((await doPost(port, "/api/evals/run", { suite, agentId: "nobody" })).status).toBe(400);
+    } finally {
+      server.close();
+      await fs.rm(evalsDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("GET /api/search", () => {
+  it("indexes chat turns as they are written and filters by agent", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-search-http-"));
+    const convStore = new ConversationStore(dataDir);
+    const searchIndex = new SearchIndex(dataDir, convStore);
+    await searchIndex.load();
+    convStore.onAppend((convId, item) => searchIndex.add(convId, item));
+    const provider = new MockProvider([{ match: { user: "发票" }, response: { text: "发票已经寄出。" } }]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "m", files: "m", scheduler: "m" } })) {
+      agents.register(a);
+    }
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, null, { searchIndex });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const chat = await doPost(port, "/api/chat", { message: "我的发票呢？", agentId: "default" });
+      const { sessionId } = chat.json as { sessionId: string };
+
+      const res = await doGet(port, `/api/search?q=${encodeURIComponent("发票")}&channel=web`);
+      expect(res.status).toBe(200);
+      const body = res.json as { total: number; results: Array<{ convId: string; role: string; snippet: string }> };
+      expect(body.total).toBe(2);
+      expect(body.results.every((r) => r.convId === sessionId)).toBe(true);
+      expect(body.results.find((r) => r.role === "bot")).toMatchObject({
+        msgNo: 1,
+        agentId: "default",
+        snippet: "发票已经寄出。",
+      });
+
+      const byAgent = await doGet(port, `/api/search?q=${encodeURIComponent("发票")}&agent=files`);
+      expect((byAgent.json as { total: number }).total).toBe(0);
+      expect((await doGet(port, "/api/search?q=%20")).status).toBe(400);
+      expect((await doGet(port, "/api/search?q=x&channel=sms")).status).toBe(400);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("conversation export and import", () => {
+  it("exports one conversation, imports it back and streams the full archive", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-archive-http-"));
+    const convStore = new ConversationStore(dataDir);
+    const { convId } = await convStore.createConversation("default", "notes");
+    await convStore.append(convId, { role: "user", text: "remember the milk", at: "2026-03-01T08:00:00Z" });
+    const archive = new ConversationArchive(convStore, null);
+    const agents = new AgentRegistry();
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, null, { archive });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    const base = `http://127.0.0.1:${port}`;
+    try {
+      const md = await fetch(`${base}/api/sessions/notes/export?format=md`);
+      expect(md.status).toBe(200);
+      expect(md.headers.get("content-disposition")).toBe('attachment; filename="notes.md"');
+      expect(await md.text()).toContain("remember the milk");
+      expect((await fetch(`${base}/api/sessions/notes/export?format=pdf`)).status).toBe(400);
+      expect((await fetch(`${base}/api/sessions/missing/export`)).status).toBe(404);
+
+      const bundle = await (await fetch(`${base}/api/sessions/notes/export?format=json`)).json();
+      expect((await doPost(port, "/api/sessions/import?onConflict=fail", bundle)).status).toBe(409);
+      expect((await doPost(port, "/api/sessions/import", { format: "zip" })).status).toBe(400);
+      const imported = await doPost(port, "/api/sessions/import", bundle);
+      expect(imported.status).toBe(200);
+      expect(imported.json).toMatchObject({ renamed: true });
+
+      const all = await fetch(`${base}/api/sessions/export`);
+      expect(all.headers.get("content-type")).toBe("application/gzip");
+      const tar = gunzipSync(Buffer.from(await all.arrayBuffer()));
+      expect(tar.toString("latin1").match(/everybot-export\/[\w-]+\.json/g)).toHaveLength(2);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("conversation branches", () => {
+  it("edits a user turn on a new branch, rebuilds memory for it and switches back", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-branches-http-"));
+    const convStore = new ConversationStore(dataDir);
+    const provider = new MockProvider([]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "m", files: "m", scheduler: "m" } })) {
+      agents.register(a);
+    }
+    const memoryEngine = new MemoryEngine(dataDir, convStore, null, { summary: "m", facts: "m" });
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, memoryEngine);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const first = await doPost(port, "/api/chat", { message: "my name is Ann" });
+      const { sessionId } = first.json as { sessionId: string };
+      await doPost(port, "/api/chat", { sessionId, message: "I like tea" });
+      const [, , tea, teaReply] = await convStore.getThread(sessionId);
+
+      const regen = await doPost(port, `/api/sessions/${sessionId}/turns/${teaReply.id}/regenerate`, {});
+      expect(regen.status).toBe(200);
+      expect(regen.json).toMatchObject({ reply: "(mock) I like tea", msgNo: 3 });
+
+      const edit = await doPost(port, `/api/sessions/${sessionId}/turns/${tea.id}/edit`, { message: "I like coffee" });
+      expect(edit.json).toMatchObject({ reply: "(mock) I like coffee" });
+      expect((await convStore.getThread(sessionId)).map((t) => t.text)).toEqual([
+        "my name is Ann",
+        "(mock) my name is Ann",
+        "I like coffee",
+        "(mock) I like coffee",
+      ]);
+      expect(provider.requests.at(-1)!.messages.map((m) => m.content).join("\n")).not.toContain("tea");
+      const summary = await memoryEngine.readSummary(sessionId);
+      expect(summary).toContain("coffee");
+      expect(summary).not.toContain("tea");
+
+      const list = await doGet(port, `/api/sessions/${sessionId}/branches`);
+      const { branches } = list.json as { branches: Array<{ id: string; reason?: string; active: boolean }> };
+      expect(branches.map((b) => [b.reason ?? b.id, b.active])).toEqual([
+        ["main", false],
+        ["regenerate", false],
+        ["edit", true],
+      ]);
+
+      const back = await doPost(port, `/api/sessions/${sessionId}/branches/main/activate`, {});
+      expect((back.json as { thread: Array<{ text: string }> }).thread.map((t) => t.text)).toContain("I like tea");
+      expect(await memoryEngine.readSummary(sessionId)).not.toContain("coffee");
+      expect((await doPost(port, `/api/sessions/${sessionId}/branches/nope/activate`, {})).status).toBe(404);
+      expect((await doPost(port, `/api/sessions/${sessionId}/turns/${tea.id}/regenerate`, {})).status).toBe(400);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("session metadata", () => {
+  it("updates, filters and deletes sessions", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-meta-http-"));
+    const convStore = new ConversationStore(dataDir);
+    const titler = new ConversationTitler(convStore, null, "title");
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, new AgentRegistry(), null, { titler });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    const send = (method: string, pathname: string, body?: unknown) =>
+      fetch(`http://127.0.0.1:${port}${pathname}`, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    try {
+      const { convId: a } = await convStore.createConversation("default");
+      const { convId: b } = await convStore.createConversation("default");
+      await convStore.append(a, { role: "user", text: "Weekly report draft", at: new Date().toISOString() });
+
+      const patched = await send("PATCH", `/api/sessions/${a}`, { title: "Report", tags: ["work"], pinned: true });
+      expect(patched.status).toBe(200);
+      expect(((await patched.json()) as { session: unknown }).session).toMatchObject({
+        title: "Report",
+        titleSource: "user",
+      });
+      expect((await send("PATCH", `/api/sessions/${b}`, { archived: true })).status).toBe(200);
+      expect((await send("PATCH", `/api/sessions/${b}`, { pinned: "yes" })).status).toBe(400);
+
+      const ids = async (query: string) =>
+        ((await doGet(port, `/api/sessions${query}`)).json as { sessions: ConvMeta[] }).sessions.map((s) => s.convId);
+      expect(await ids("")).toEqual([a]);
+      expect(await ids("?archived=all")).toEqual([a, b]);
+      expect(await ids("?archived=true")).toEqual([b]);
+      expect(await ids("?archived=all&limit=1&offset=1")).toEqual([b]);
+      expect(await ids("?tag=work&q=rep")).toEqual([a]);
+      expect((await doGet(port, "/api/sessions?sort=size")).status).toBe(400);
+
+      const cleared = await send("PATCH", `/api/sessions/${a}`, { title: null });
+      expect(((await cleared.json()) as { session: unknown }).session).toMatchObject({
+        title: "Weekly report draft",
+        titleSource: "auto",
+      });
+
+      expect((await send("DELETE", `/api/sessions/${b}`)).status).toBe(200);
+      expect((await send("DELETE", `/api/sessions/${b}`)).status).toBe(404);
+      expect(await ids("?archived=all")).toEqual([a]);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("concurrent turns", () => {
+  it("serializes requests to the same session so turns and msgNos do not interleave", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-concurrent-"));
+    const convStore = new ConversationStore(dataDir);
+    const mock = new MockProvider([]);
+    const slow: LLMProvider = {
+      chat: async (req) => {
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        return mock.chat(req);
+      },
+      chatStream: (req) => mock.chatStream(req),
+    };
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider: slow, models: { default: "m", files: "m", scheduler: "m" } })) {
+      agents.register(a);
+    }
+    const memoryEngine = new MemoryEngine(dataDir, convStore, null, { summary: "m", facts: "m" });
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, memoryEngine);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const { convId } = await convStore.createConversation("default");
+      const replies = await Promise.all(
+        ["one", "two", "three"].map((message) => doPost(port, "/api/chat", { sessionId: convId, message }))
+      );
+      const msgNos = replies.map((r) => (r.json as { msgNo: number }).msgNo);
+      expect([...msgNos].sort()).toEqual([1, 2, 3]);
+
+      const thread = await convStore.getThread(convId);
+      expect(thread.map((t) => t.role)).toEqual(["user", "bot", "user", "bot", "user", "bot"]);
+      for (let i = 0; i < thread.length; i += 2) expect(thread[i + 1].text).toBe(`(mock) ${thread[i].text}`);
+      const summary = await memoryEngine.readSummary(convId);
+      for (const message of ["one", "two", "three"]) expect(summary).toContain(`USER: ${message}`);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("chat attachments", () => {
+  it("stores uploaded files with the user turn, gives the agent their text and serves them back", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-attach-"));
+    const convStore = new ConversationStore(dataDir);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider: new MockProvider(), models: { default: "m", files: "m", scheduler: "m" } })) {
+      agents.register(a);
+    }
+    const attachments = new AttachmentStore(dataDir, new WorkspaceFS(path.join(dataDir, "workspace")), {
+      maxBytes: 100,
+      maxTextChars: 1000,
+    });
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, null, { attachments });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const data = Buffer.from("- milk\n- eggs\n").toString("base64");
+      const res = await doPost(port, "/api/chat", { message: "shopping list", attachments: [{ name: "list.md", data }] });
+      expect(res.status).toBe(200);
+      const body = res.json as { sessionId: string; reply: string };
+      expect(body.reply).toBe("(mock) shopping list\n\n[Attachment: list.md (text/markdown, 14 bytes)]\n- milk\n- eggs");
+
+      const [userTurn] = await convStore.getThread(body.sessionId);
+      expect(userTurn.text).toBe("shopping list");
+      const download = await fetch(
+        `http://127.0.0.1:${port}/api/sessions/${body.sessionId}/attachments/${userTurn.attachments![0].sha256}`
+      );
+      expect(download.headers.get("content-type")).toBe("text/markdown");
+      expect(await download.text()).toBe("- milk\n- eggs\n");
+
+      const tooBig = await doPost(port, "/api/chat", {
+        message: "hi",
+        attachments: [{ name: "big.txt", data: Buffer.alloc(101).toString("base64") }],
+      });
+      expect(tooBig.status).toBe(400);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("/api/memory", () => {
+  it("carries durable facts into new conversations and edits both scopes", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-memory-"));
+    const convStore = new ConversationStore(dataDir);
+    const provider = new MockProvider([
+      { match: { system: "long-term profile" }, response: { text: '{"name":"Ann","drinks":"tea"}' } },
+      { match: { model: "^facts$" }, response: { text: '{"topic":"greeting"}' } },
+    ]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "chat", files: "chat", scheduler: "chat" } })) {
+      agents.register(a);
+    }
+    const memoryEngine = new MemoryEngine(dataDir, convStore, provider, { summary: "summary", facts: "facts" });
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, memoryEngine);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    const call = async (method: string, pathname: string, body?: unknown) => {
+      const res = await fetch(`http://127.0.0.1:${port}${pathname}`, {
+        method,
+        ...(body ? { body: JSON.stringify(body) } : {}),
+      });
+      return { status: res.status, json: (await res.json()) as Record<string, unknown> };
+    };
+    try {
+      const first = await doPost(port, "/api/chat", { message: "I'm Ann and I drink tea" });
+      const convId = (first.json as { sessionId: string }).sessionId;
+      expect((await call("GET", "/api/memory")).json).toEqual({ scope: "global", facts: { name: "Ann", drinks: "tea" } });
+
+      await doPost(port, "/api/chat", { message: "hello again" });
+      const fresh = provider.requests.filter((r) => r.model === "chat").at(-1)!;
+      expect(fresh.messages[0].content).toContain('"drinks": "tea"');
+
+      const put = await call("PUT", "/api/memory", { facts: { drinks: null, city: "Oslo" } });
+      expect(put.json.facts).toEqual({ name: "Ann", city: "Oslo" });
+      expect((await call("DELETE", "/api/memory?key=city")).json.facts).toEqual({ name: "Ann" });
+      expect((await call("DELETE", "/api/memory?key=city")).status).toBe(404);
+
+      expect((await call("GET", `/api/memory?scope=conversation&convId=${convId}`)).json).toEqual({
+        scope: "conversation",
+        convId,
+        facts: { topic: "greeting" },
+      });
+      await call("PUT", "/api/memory", { scope: "conversation", convId, facts: { topic: "tea" } });
+      expect(await memoryEngine.readFacts(convId)).toEqual({ topic: "tea" });
+      expect((await call("DELETE", `/api/memory?scope=conversation&convId=${convId}`)).json.facts).toEqual({});
+      expect((await call("GET", "/api/memory?scope=conversation")).status).toBe(400);
+      expect((await call("PUT", "/api/memory", { facts: [] })).status).toBe(400);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it("keeps versions of facts, refuses mass deletions and rolls back", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-facts-history-"));
+    const convStore = new ConversationStore(dataDir);
+    const trip = { city: "Oslo", hotel: "Ibis", date: "May 4", budget: 900 };
+    const provider = new MockProvider([
+      { match: { model: "^facts$", user: "plan a trip" }, response: { text: JSON.stringify(trip) } },
+      { match: { model: "^facts$", user: "start over" }, response: { text: "{}" } },
+      {
+        match: { model: "^facts$", user: "other hotel" },
+        response: { text: JSON.stringify({ ...trip, hotel: "Bristol" }) },
+      },
+    ]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "chat", files: "chat", scheduler: "chat" } })) {
+      agents.register(a);
+    }
+    const memoryEngine = new MemoryEngine(
+      dataDir,
+      convStore,
+      provider,
+      { summary: "summary", facts: "facts" },
+      { profileExtraction: false }
+    );
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, memoryEngine);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    const call = async (method: string, pathname: string, body?: unknown) => {
+      const res = await fetch(`http://127.0.0.1:${port}${pathname}`, {
+        method,
+        ...(body ? { body: JSON.stringify(body) } : {}),
+      });
+      return { status: res.status, json: (await res.json()) as Record<string, unknown> };
+    };
+    try {
+      const first = await doPost(port, "/api/chat", { message: "plan a trip to Oslo" });
+      const convId = (first.json as { sessionId: string }).sessionId;
+      await doPost(port, "/api/chat", { sessionId: convId, message: "start over" });
+      await doPost(port, "/api/chat", { sessionId: convId, message: "other hotel please" });
+      expect(await memoryEngine.readFacts(convId)).toEqual({ ...trip, hotel: "Bristol" });
+
+      const query = `scope=conversation&convId=${convId}`;
+      const history = (await call("GET", `/api/memory/history?${query}`)).json;
+      expect(history.versions).toEqual([
+        expect.objectContaining({
+          version: 1,
+          source: "extraction",
+          msgNos: [1],
+          changes: { city: { to: "Oslo" }, hotel: { to: "Ibis" }, date: { to: "May 4" }, budget: { to: 900 } },
+        }),
+        expect.objectContaining({ version: 2, msgNos: [2], refused: "removes 4 facts: city, hotel, date, budget" }),
+        expect.objectContaining({ version: 3, msgNos: [3], changes: { hotel: { from: "Ibis", to: "Bristol" } } }),
+      ]);
+
+      const clear = await call("DELETE", `/api/memory?${query}`);
+      expect(clear.status).toBe(409);
+      expect(clear.json.removed).toEqual(["city", "hotel", "date", "budget"]);
+      expect((await call("DELETE", `/api/memory?${query}&confirm=true`)).json.facts).toEqual({});
+
+      const rollbackTo = (version: unknown) =>
+        call("POST", "/api/memory/rollback", { scope: "conversation", convId, version });
+      expect((await rollbackTo(1)).json).toEqual({ scope: "conversation", convId, version: 5, facts: trip });
+      expect(await memoryEngine.readFacts(convId)).toEqual(trip);
+      expect((await rollbackTo(2)).status).toBe(404);
+      expect((await rollbackTo("1")).status).toBe(400);
+      const versions = (await call("GET", `/api/memory/history?${query}`)).json.versions as Array<{ source: string }>;
+      expect(versions.map((v) => v.source)).toEqual(["extraction", "extraction", "extraction", "api", "rollback"]);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("memory queue", () => {
+  it("answers without waiting for memory and updates it in the background, retrying failures", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-memory-queue-"));
+    const convStore = new ConversationStore(dataDir);
+    const provider = new MockProvider([
+      {
+        match: { model: "^summary$" },
+        response: () => {
+          throw new Error("summary model down");
+        },
+        times: 1,
+      },
+      { match: { model: "^summary$" }, response: { text: "Talked about tea." } },
+    ]);
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "chat", files: "chat", scheduler: "chat" } })) {
+      agents.register(a);
+    }
+    const memoryEngine = new MemoryEngine(
+      dataDir,
+      convStore,
+      provider,
+      { summary: "summary", facts: "facts" },
+      { profileExtraction: false, queue: { debounceMs: 60_000, retryMs: 60_000 } }
+    );
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, memoryEngine);
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      const first = await doPost(port, "/api/chat", { message: "I like green tea" });
+      expect(first.status).toBe(200);
+      const convId = (first.json as { sessionId: string }).sessionId;
+      expect(provider.requests.map((r) => r.model)).toEqual(["chat"]);
+
+      // the summary does not cover the queued turns yet, so they stay in the prompt whatever maxTurns says
+      const pack = await memoryEngine.buildMemoryPack(convId, { maxTurns: 1 });
+      expect(pack.recentTurns.map((t) => t.text)).toEqual(["I like green tea", "(mock) I like green tea"]);
+
+      await memoryEngine.flush(convId);
+      expect(await memoryEngine.readSummary(convId)).toBe("");
+      await memoryEngine.flush(convId);
+      expect(await memoryEngine.readSummary(convId)).toBe("Talked about tea.\n");
+      expect((await memoryEngine.buildMemoryPack(convId, { maxTurns: 1 })).recentTurns).toHaveLength(1);
+    } finally {
+      memoryEngine.stop();
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("workspace documents", () => {
+  it("gives agents relevant chunks of workspace files and reindexes on request", async () => {
+    const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-docs-"));
+    const root = path.join(dataDir, "workspace");
+    await fs.mkdir(path.join(root, "notes"), { recursive: true });
+    await fs.writeFile(path.join(root, "notes", "trip.md"), "# Trip\nhotel: Ibis Lyon\n");
+    const workspaceIndex = new WorkspaceIndex(new WorkspaceFS(root));
+    await workspaceIndex.refresh();
+    const convStore = new ConversationStore(dataDir);
+    const provider = new MockProvider();
+    const agents = new AgentRegistry();
+    for (const a of createDefaultAgents({ provider, models: { default: "chat", files: "chat", scheduler: "chat" } })) {
+      agents.register(a);
+    }
+    const documents = { index: workspaceIndex, topK: 3 };
+    const memoryEngine = new MemoryEngine(
+      dataDir,
+      convStore,
+      null,
+      { summary: "summary", facts: "facts" },
+      { documents }
+    );
+    const server = createHttpServer({ ...makeConfig(), dataDir }, convStore, agents, memoryEngine, { workspaceIndex });
+    await startHttpServer(server, 0);
+    const port = (server.address() as { port: number }).port;
+    try {
+      await doPost(port, "/api/chat", { message: "Which hotel did I pick?" });
+      expect(provider.requests[0].messages[0].content).toContain(
+        "## Workspace Documents\nCite these by file path and line range, e.g. [notes/plan.md:10-24], when you use them.\n" +
+          "### [notes/trip.md:1-2]\n# Trip\nhotel: Ibis Lyon"
+      );
+
+      await fs.writeFile(path.join(root, "notes", "budget.txt"), "hotel budget: 120 EUR per night\n");
+      const reindex = await doPost(port, "/api/workspace/reindex", {});
+      expect(reindex).toMatchObject({ status: 200, json: { files: 2, chunks: 2 } });
+      expect(workspaceIndex.search("budget")).toEqual([expect.objectContaining({ path: "notes/budget.txt" })]);
+    } finally {
+      server.close();
+      await fs.rm(dataDir, { recursive: true, force: true });
+    }
+  });
+});
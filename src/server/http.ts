@@ -1,19 +1,51 @@
 import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createGzip } from "node:zlib";
 import fs from "node:fs/promises";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { ConversationStore } from "../conversation/store.js";
+import type { Attachment, ConvMeta } from "../conversation/store.js";
+import { validateBundle } from "../conversation/archive.js";
+import type { ConversationArchive, ExportFormat, ImportConflict } from "../conversation/archive.js";
+import { validateMetaPatch } from "../conversation/metadata.js";
+import { parseUploads } from "../conversation/attachments.js";
+import type { AttachmentStore, IncomingFile } from "../conversation/attachments.js";
+import type { ConversationTitler } from "../conversation/metadata.js";
+import type { ConversationQuery } from "../conversation/store.js";
 import type { AgentRegistry } from "../core/agents.js";
 import type { AppConfig } from "../config.js";
 import type { MemoryPack } from "../core/agents.js";
-import type { MemoryEngine } from "../memory/memoryEngine.js";
+import { mergeFacts, validateFactsPatch } from "../memory/memoryEngine.js";
+import type { MemoryEngine, MemoryScope } from "../memory/memoryEngine.js";
+import { FactsDeletionError, FactsVersionError } from "../memory/factsHistory.js";
 import type { FileToolsApi } from "../tools/fileTools.js";
 import type { AuditLogger } from "../tools/audit.js";
-import type { ApprovalManager } from "../tools/approval.js";
+import type { ApprovalManager, PendingTool } from "../tools/approval.js";
+import type { ToolOutput, ToolRegistry, ToolStep } from "../tools/registry.js";
 import type { SchedulerEngine } from "../scheduler/schedulerEngine.js";
+import { validateTask } from "../scheduler/taskSpec.js";
+import { participatingAgents } from "../tools/delegateTool.js";
+import { replyAttachments } from "../tools/attachTool.js";
+import type { ProviderRouter } from "../core/providerRouter.js";
+import type { IntentRouter, RoutingDecision } from "../core/intentRouter.js";
+import type { EvalRunner } from "../evals/evalRunner.js";
+import { loadEvalSuite, validateEvalSuite } from "../evals/suite.js";
+import type { EvalSuite } from "../evals/suite.js";
+import type { SearchChannel, SearchIndex } from "../search/searchIndex.js";
+import type { WorkspaceIndex } from "../search/workspaceIndex.js";
+import { UsageLedger } from "../usage/usageLedger.js";
+import type { UsageGroupBy } from "../usage/usageLedger.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const UI_DIR = path.join(__dirname, "..", "..", "ui");
+/** Methods of the memory routes: facts, their history and rollback. */
+const MEMORY_ROUTES: Record<string, string[]> = {
+  "/api/memory": ["GET", "PUT", "DELETE"],
+  "/api/memory/history": ["GET"],
+  "/api/memory/rollback": ["POST"],
+};
 
 function parseBody(req: IncomingMessage): Promise<Record<string, unknown>> {
   return new Promise((resolve, reject) => {
@@ -41,6 +73,10 @@ function sendJson(res: ServerResponse, status: number, data: unknown): void {
   res.end(JSON.stringify(data));
 }
 
+function writeSse(res: ServerResponse, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
 export function createHttpServer(
   cfg: AppConfig,
   convStore: ConversationStore,
@@ -51,12 +87,179 @@ export function createHttpServer(
     auditLogger?: AuditLogger;
     approvalManager?: ApprovalManager;
     schedulerEngine?: SchedulerEngine;
+    toolRegistry?: ToolRegistry;
+    providerRouter?: ProviderRouter;
+    usageLedger?: UsageLedger;
+    intentRouter?: IntentRouter;
+    /** Runs suites; the server's runner uses agents isolated from live data (see `runIsolatedEval`). */
+    evalRunner?: Pick<EvalRunner, "run">;
+    searchIndex?: SearchIndex;
+    archive?: ConversationArchive;
+    titler?: ConversationTitler;
+    attachments?: AttachmentStore;
+    workspaceIndex?: WorkspaceIndex;
   }
 ): ReturnType<typeof createServer> {
-  const { fileTools, auditLogger, approvalManager, schedulerEngine } = deps ?? {};
+  const {
+    fileTools,
+    auditLogger,
+    approvalManager,
+    schedulerEngine,
+    toolRegistry,
+    providerRouter,
+    usageLedger,
+    intentRouter,
+    evalRunner,
+    searchIndex,
+    archive,
+    titler,
+    attachments,
+    workspaceIndex,
+  } = deps ?? {};
+
+  /**
+   * Resolves the conversation and agent for a chat body, records the user turn (with its uploaded files) and
+   * loads memory. Without an `agentId` (or with "auto") the intent router picks the agent; unclear messages stay
+   * with the conversation's current agent. `input` is the message with its files as the agent gets it.
+   */
+  async function startTurn(body: Record<string, unknown>, uploads: IncomingFile[] = []): Promise<{
+    meta: ConvMeta;
+    agentId: string;
+    message: string;
+    input: string;
+    memory: MemoryPack;
+    routing?: RoutingDecision;
+  } | null> {
+    const sessionId = body.sessionId as string | undefined;
+    const message = body.message as string | undefined;
+    if (!message || typeof message !== "string") return null;
+
+    const requested = typeof body.agentId === "string" && body.agentId !== "auto" ? body.agentId : null;
+    const agentId = requested ?? cfg.defaultAgent;
+    const meta = sessionId
+      ? await convStore.ensureConversation(sessionId, agentId)
+      : await convStore.createConversation(agentId);
+
+    let routing: RoutingDecision | undefined;
+    let effectiveAgent = agents.has(agentId) ? agentId : cfg.defaultAgent;
+    if (intentRouter) {
+      routing = await intentRouter.route(message, {
+        convId: meta.convId,
+        requestedAgent: requested,
+        fallbackAgent: agents.has(meta.agentId) ? meta.agentId : cfg.defaultAgent,
+      });
+      effectiveAgent = routing.agentId;
+    }
+    if (effectiveAgent !== meta.agentId) {
+      meta.agentId = effectiveAgent;
+      await convStore.mutateMeta(meta.convId, (m) => {
+        m.agentId = effectiveAgent;
+      });
+    }
+
+    const files: Attachment[] = [];
+    for (const file of uploads) files.push(await attachments!.save(meta.convId, file));
+    await convStore.append(meta.convId, {
+      role: "user",
+      text: message,
+      at: new Date().toISOString(),
+      channel: "web",
+      ...(routing ? { routing } : {}),
+      ...(files.length ? { attachments: files } : {}),
+    });
+
+    const input = attachments ? await attachments.agentInput(meta.convId, message, files) : message;
+    const memory = await loadMemory(meta.convId, effectiveAgent);
+    return { meta, agentId: effectiveAgent, message, input, memory, routing };
+  }
+
+  /** The `attachments` of a chat body; sends a 400 and returns null when they are invalid or not accepted. */
+  function chatUploads(res: ServerResponse, body: Record<string, unknown>): IncomingFile[] | null {
+    if (body.attachments !== undefined && !attachments) {
+      sendJson(res, 400, { error: "Attachments are not enabled" });
+      return null;
+    }
+    try {
+      return attachments ? parseUploads(body.attachments, attachments.limits.maxBytes) : [];
+    } catch (e) {
+      sendJson(res, 400, { error: e instanceof Error ? e.message : String(e) });
+      return null;
+    }
+  }
+
+  /** Adds what an approved tool call did to the conversation it came from, so its agent sees the outcome. */
+  async function recordApproval(p: PendingTool, step: ToolStep): Promise<void> {
+    const convId = p.ctx?.convId;
+    if (!convId || !(await convStore.exists(convId))) return;
+    const detail = step.result === "ok" ? JSON.stringify(step.output ?? null) : (step.error ?? "");
+    await convStore.withLock(convId, async () => {
+      await convStore.append(convId, {
+        role: "bot",
+        text: `Approved ${p.tool}: ${step.result === "ok" ? "done" : "failed"} (${detail.slice(0, 500)})`,
+        at: new Date().toISOString(),
+        msgNo: await convStore.nextBotMsgNo(convId),
+        ...(p.ctx?.agentId ? { agentId: p.ctx.agentId } : {}),
+        channel: "web",
+        tools: [step],
+      });
+    });
+  }
+
+  /** Runs a chat request under its conversation's lock (see `ConversationStore.withLock`) when it names one. */
+  function lockedTurn<T>(body: Record<string, unknown>, fn: () => Promise<T>): Promise<T> {
+    const sessionId = typeof body.sessionId === "string" && body.sessionId ? body.sessionId : null;
+    return sessionId ? convStore.withLock(sessionId, fn) : fn();
+  }
+
+  async function loadMemory(convId: string, agentId: string): Promise<MemoryPack> {
+    return memoryEngine
+      ? await memoryEngine.buildMemoryPack(convId, agents.get(agentId).definition?.memory)
+      : { summary: "", facts: {}, recentTurns: (await convStore.getThread(convId)).map((t) => ({ role: t.role, text: t.text })) };
+  }
+
+  /** Runs the agent on `message`, records its bot turn and updates memory; used by chat, regenerate and edit. */
+  async function reply(convId: string, agentId: string, message: string, memory: MemoryPack) {
+    const agent = agents.get(agentId);
+    const toolSteps: ToolStep[] = [];
+    const replyText = await agent.handle(message, { convId, agentId }, memory, {
+      onToolStep: (step) => toolSteps.push(step),
+    });
+
+    const agentsUsed = participatingAgents(agentId, toolSteps);
+    const files = replyAttachments(toolSteps);
+    const msgNo = await convStore.nextBotMsgNo(convId);
+    await convStore.append(convId, {
+      role: "bot",
+      text: replyText,
+      at: new Date().toISOString(),
+      msgNo,
+      agentId,
+      channel: "web",
+      ...(toolSteps.length ? { tools: toolSteps } : {}),
+      ...(agentsUsed.length > 1 ? { agents: agentsUsed } : {}),
+      ...(files.length ? { attachments: files } : {}),
+    });
+
+    if (memoryEngine) {
+      await memoryEngine.afterReply(convId, [
+        { role: "user", text: message, at: new Date().toISOString() },
+        { role: "bot", text: replyText, at: new Date().toISOString(), msgNo, agentId },
+      ]);
+    }
+
+    return {
+      agentId,
+      reply: replyText,
+      msgNo,
+      ...(toolSteps.length ? { tools: toolSteps } : {}),
+      ...(agentsUsed.length > 1 ? { agents: agentsUsed } : {}),
+      ...(files.length ? { attachments: files } : {}),
+    };
+  }
+
   return createServer(async (req: IncomingMessage, res: ServerResponse) => {
     res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PATCH, DELETE, OPTIONS");
     res.setHeader("Access-Control-Allow-Headers", "Content-Type");
 
     if (req.method === "OPTIONS") {
@@ -70,64 +273,338 @@ export function createHttpServer(
 
     try {
       if (pathname === "/api/sessions" && req.method === "GET") {
-        const list = await convStore.listConversations();
+        const u = new URL(url, "http://localhost");
+        const flag = (name: string) => {
+          const v = u.searchParams.get(name);
+          return v === "true" ? true : v === "false" ? false : undefined;
+        };
+        const sort = u.searchParams.get("sort") ?? "updated";
+        const order = u.searchParams.get("order") || undefined;
+        if (!["updated", "created", "title"].includes(sort) || (order && order !== "asc" && order !== "desc")) {
+          sendJson(res, 400, { error: "Invalid sort (updated|created|title) or order (asc|desc)" });
+          return;
+        }
+        const limit = Number(u.searchParams.get("limit") ?? NaN);
+        const offset = Number(u.searchParams.get("offset") ?? 0);
+        const list = await convStore.listConversations({
+          agent: u.searchParams.get("agent") || undefined,
+          tag: u.searchParams.get("tag") || undefined,
+          q: u.searchParams.get("q") || undefined,
+          pinned: flag("pinned"),
+          // archived conversations stay hidden unless asked for (archived=true, or archived=all for both)
+          archived: u.searchParams.get("archived") === "all" ? undefined : (flag("archived") ?? false),
+          sort: sort as ConversationQuery["sort"],
+          order: order as ConversationQuery["order"],
+          pinnedFirst: true,
+          // no limit lists everything; otherwise pages of 1-500 from offset
+          limit: Number.isFinite(limit) ? Math.min(Math.max(Math.floor(limit), 1), 500) : undefined,
+          offset: Number.isFinite(offset) ? Math.max(Math.floor(offset), 0) : 0,
+        });
         sendJson(res, 200, { sessions: list });
         return;
       }
 
-      if (pathname === "/api/chat" && req.method === "POST") {
-        const body = await parseBody(req);
-        const sessionId = body.sessionId as string | undefined;
-        const message = body.message as string | undefined;
-        if (!message || typeof message !== "string") {
-          sendJson(res, 400, { error: "Missing or invalid message" });
+      const sessionMatch = pathname.match(/^\/api\/sessions\/([^/]+)$/);
+      if (sessionMatch && (req.method === "PATCH" || req.method === "DELETE")) {
+        const convId = decodeURIComponent(sessionMatch[1]);
+        if (!(await convStore.exists(convId))) {
+          sendJson(res, 404, { error: "Not found" });
+          return;
+        }
+        if (req.method === "DELETE") {
+          // an answer in progress finishes first, so it cannot recreate the conversation
+          await convStore.withLock(convId, () => convStore.deleteConversation(convId));
+          sendJson(res, 200, { deleted: convId });
+          return;
+        }
+        let update: ReturnType<typeof validateMetaPatch>;
+        try {
+          update = validateMetaPatch(await parseBody(req));
+        } catch (e) {
+          sendJson(res, 400, { error: e instanceof Error ? e.message : String(e) });
           return;
         }
+        await convStore.updateMeta(convId, update);
+        // clearing the title asks for a generated one again
+        if (update.title === null) await titler?.ensureTitle(convId);
+        sendJson(res, 200, { session: await convStore.loadMeta(convId) });
+        return;
+      }
 
-        const agentId = (body.agentId as string) ?? cfg.defaultAgent;
-        const meta = sessionId
-          ? await convStore.ensureConversation(sessionId, agentId)
-          : await convStore.createConversation(agentId);
+      if (archive && pathname === "/api/sessions/export" && req.method === "GET") {
+        const stamp = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+        res.setHeader("Content-Type", "application/gzip");
+        res.setHeader("Content-Disposition", `attachment; filename="everybot-export-${stamp}.tar.gz"`);
+        res.writeHead(200);
+        await pipeline(Readable.from(archive.exportAll()), createGzip(), res);
+        return;
+      }
 
-        const effectiveAgent = agents.has(agentId) ? agentId : cfg.defaultAgent;
-        if (effectiveAgent !== meta.agentId) {
-          meta.agentId = effectiveAgent;
-          await convStore.saveMeta(meta);
+      if (archive && pathname === "/api/sessions/import" && req.method === "POST") {
+        const u = new URL(url, "http://localhost");
+        const onConflict = u.searchParams.get("onConflict") ?? "rename";
+        if (onConflict !== "rename" && onConflict !== "fail") {
+          sendJson(res, 400, { error: "Invalid onConflict (expected rename or fail)" });
+          return;
         }
+        let bundle: ReturnType<typeof validateBundle>;
+        try {
+          bundle = validateBundle(await parseBody(req));
+        } catch (e) {
+          sendJson(res, 400, { error: e instanceof Error ? e.message : String(e) });
+          return;
+        }
+        if (onConflict === "fail" && (await convStore.exists(bundle.meta.convId))) {
+          sendJson(res, 409, { error: `Conversation already exists: ${bundle.meta.convId}` });
+          return;
+        }
+        sendJson(res, 200, await archive.import(bundle, { onConflict: onConflict as ImportConflict }));
+        return;
+      }
 
-        await convStore.append(meta.convId, {
-          role: "user",
-          text: message,
-          at: new Date().toISOString(),
-        });
+      const exportMatch = pathname.match(/^\/api\/sessions\/([^/]+)\/export$/);
+      if (archive && exportMatch && req.method === "GET") {
+        const convId = decodeURIComponent(exportMatch[1]);
+        const format = (new URL(url, "http://localhost").searchParams.get("format") ?? "md") as ExportFormat;
+        const types: Record<ExportFormat, string> = {
+          md: "text/markdown; charset=utf-8",
+          json: "application/json; charset=utf-8",
+          mbox: "application/mbox",
+        };
+        if (!types[format]) {
+          sendJson(res, 400, { error: "Invalid format (expected md, json or mbox)" });
+          return;
+        }
+        if (!(await convStore.exists(convId))) {
+          sendJson(res, 404, { error: "Not found" });
+          return;
+        }
+        const body = await archive.export(convId, format);
+        res.setHeader("Content-Type", types[format]);
+        res.setHeader("Content-Disposition", `attachment; filename="${convId}.${format}"`);
+        res.writeHead(200);
+        res.end(body);
+        return;
+      }
 
-        const memory: MemoryPack = memoryEngine
-          ? await memoryEngine.buildMemoryPack(meta.convId)
-          : { summary: "", facts: {}, recentTurns: (await convStore.getThread(meta.convId)).map((t) => ({ role: t.role, text: t.text })) };
+      const branchesMatch = pathname.match(/^\/api\/sessions\/([^/]+)\/branches(?:\/([^/]+)\/activate)?$/);
+      if (branchesMatch && req.method === (branchesMatch[2] ? "POST" : "GET")) {
+        const convId = decodeURIComponent(branchesMatch[1]);
+        if (!(await convStore.exists(convId))) {
+          sendJson(res, 404, { error: "Not found" });
+          return;
+        }
+        if (branchesMatch[2]) {
+          await convStore.withLock(convId, async () => {
+            const before = await convStore.loadMeta(convId);
+            let meta: ConvMeta;
+            try {
+              meta = await convStore.setActiveBranch(convId, decodeURIComponent(branchesMatch[2]));
+            } catch (e) {
+              sendJson(res, 404, { error: e instanceof Error ? e.message : String(e) });
+              return;
+            }
+            const thread = await convStore.getThread(convId, Infinity);
+            await memoryEngine?.switchBranch(convId, before.activeBranch ?? "main", meta.activeBranch!, thread);
+            sendJson(res, 200, { activeBranch: meta.activeBranch, thread: thread.slice(-50) });
+          });
+          return;
+        }
+        sendJson(res, 200, await convStore.listBranches(convId));
+        return;
+      }
 
-        const agent = agents.get(effectiveAgent);
-        const replyText = await agent.handle(message, { convId: meta.convId, agentId: effectiveAgent }, memory);
+      const attachmentMatch = pathname.match(/^\/api\/sessions\/([^/]+)\/attachments\/([0-9a-f]{64})$/);
+      if (attachments && attachmentMatch && req.method === "GET") {
+        const convId = decodeURIComponent(attachmentMatch[1]);
+        const att = (await convStore.exists(convId))
+          ? (await convStore.getThread(convId, Infinity))
+              .flatMap((t) => t.attachments ?? [])
+              .find((a) => a.sha256 === attachmentMatch[2])
+          : undefined;
+        if (!att) {
+          sendJson(res, 404, { error: "Not found" });
+          return;
+        }
+        const data = await attachments.read(convId, att);
+        res.setHeader("Content-Type", att.mimeType);
+        res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(att.name)}`);
+        res.writeHead(200);
+        res.end(data);
+        return;
+      }
+
+      const turnMatch = pathname.match(/^\/api\/sessions\/([^/]+)\/turns\/([^/]+)\/(regenerate|edit)$/);
+      if (turnMatch && req.method === "POST") {
+        const convId = decodeURIComponent(turnMatch[1]);
+        const action = turnMatch[3] as "regenerate" | "edit";
+        const body = await parseBody(req);
+        if (action === "edit" && (typeof body.message !== "string" || !body.message)) {
+          sendJson(res, 400, { error: "Missing or invalid message" });
+          return;
+        }
+        if (!(await convStore.exists(convId))) {
+          sendJson(res, 404, { error: "Not found" });
+          return;
+        }
+        const budget = usageLedger?.checkBudget();
+        if (budget && !budget.ok) {
+          sendJson(res, 429, { error: budget.message, budget });
+          return;
+        }
+        await convStore.withLock(convId, async () => {
+          let started: Awaited<ReturnType<typeof convStore.startBranch>>;
+          try {
+            started = await convStore.startBranch(convId, decodeURIComponent(turnMatch[2]), action);
+          } catch (e) {
+            const message = e instanceof Error ? e.message : String(e);
+            sendJson(res, message.startsWith("Unknown turn") ? 404 : 400, { error: message });
+            return;
+          }
+          const { branch, userTurn, previous } = started;
 
-        const msgNo = await convStore.nextBotMsgNo(meta.convId);
-        await convStore.append(meta.convId, {
-          role: "bot",
-          text: replyText,
-          at: new Date().toISOString(),
-          msgNo,
-          agentId: effectiveAgent,
+          // Memory of the new branch covers the turns before the user turn it answers.
+          const before = await convStore.getThread(convId, Infinity);
+          await memoryEngine?.switchBranch(convId, previous, branch.id, action === "edit" ? before : before.slice(0, -1));
+          const message = action === "edit" ? (body.message as string) : userTurn.text;
+          // an edited turn keeps the files of the one it replaces
+          const files = userTurn.attachments ?? [];
+          if (action === "edit") {
+            await convStore.append(convId, {
+              role: "user",
+              text: message,
+              at: new Date().toISOString(),
+              channel: "web",
+              ...(files.length ? { attachments: files } : {}),
+            });
+          }
+          const input = attachments ? await attachments.agentInput(convId, message, files) : message;
+
+          const meta = await convStore.loadMeta(convId);
+          const requested = typeof body.agentId === "string" ? body.agentId : null;
+          const agentId =
+            [requested, meta.agentId].find((id): id is string => !!id && agents.has(id)) ?? cfg.defaultAgent;
+          const result = await reply(convId, agentId, input, await loadMemory(convId, agentId));
+          sendJson(res, 200, { sessionId: convId, branchId: branch.id, ...result });
         });
+        return;
+      }
 
-        if (memoryEngine) {
-          await memoryEngine.afterReply(meta.convId, [
-            { role: "user", text: message, at: new Date().toISOString() },
-            { role: "bot", text: replyText, at: new Date().toISOString(), msgNo, agentId: effectiveAgent },
-          ]);
+      if (pathname === "/api/chat" && req.method === "POST") {
+        const body = await parseBody(req);
+        const budget = usageLedger?.checkBudget();
+        if (budget && !budget.ok) {
+          sendJson(res, 429, { error: budget.message, budget });
+          return;
         }
+        const uploads = chatUploads(res, body);
+        if (!uploads) return;
+        const result = await lockedTurn(body, async () => {
+          const turn = await startTurn(body, uploads);
+          if (!turn) return null;
+          const { meta, input, memory, agentId: effectiveAgent, routing } = turn;
+          const replied = await reply(meta.convId, effectiveAgent, input, memory);
+          return { sessionId: meta.convId, ...replied, ...(routing ? { routing } : {}) };
+        });
+        if (!result) {
+          sendJson(res, 400, { error: "Missing or invalid message" });
+          return;
+        }
+        sendJson(res, 200, result);
+        return;
+      }
+
+      if (pathname === "/api/chat/stream" && req.method === "POST") {
+        const body = await parseBody(req);
+        const budget = usageLedger?.checkBudget();
+        if (budget && !budget.ok) {
+          sendJson(res, 429, { error: budget.message, budget });
+          return;
+        }
+        const uploads = chatUploads(res, body);
+        if (!uploads) return;
+        await lockedTurn(body, async () => {
+          const turn = await startTurn(body, uploads);
+          if (!turn) {
+            sendJson(res, 400, { error: "Missing or invalid message" });
+            return;
+          }
+          const { meta, input, memory, agentId: effectiveAgent, routing } = turn;
+
+          const abort = new AbortController();
+          res.on("close", () => {
+            if (!res.writableEnded) abort.abort();
+          });
+
+          res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+          res.setHeader("Cache-Control", "no-cache");
+          res.setHeader("Connection", "keep-alive");
+          res.writeHead(200);
+          writeSse(res, "start", { sessionId: meta.convId, agentId: effectiveAgent, ...(routing ? { routing } : {}) });
+
+          let streamed = "";
+          const toolSteps: ToolStep[] = [];
+          let replyText: string;
+          let partial = false;
+          let failure: string | null = null;
+          try {
+            const agent = agents.get(effectiveAgent);
+            replyText = await agent.handle(input, { convId: meta.convId, agentId: effectiveAgent }, memory, {
+              signal: abort.signal,
+              onToken: (delta) => {
+                streamed += delta;
+                if (!res.writableEnded) writeSse(res, "token", { delta });
+              },
+              onToolStep: (step) => {
+                toolSteps.push(step);
+                if (!res.writableEnded) writeSse(res, "tool", step);
+              },
+            });
+          } catch (e) {
+            if (!abort.signal.aborted) failure = e instanceof Error ? e.message : String(e);
+            replyText = streamed.trim();
+            partial = true;
+          }
+
+          const agentsUsed = participatingAgents(effectiveAgent, toolSteps);
+          const files = replyAttachments(toolSteps);
+          let msgNo: number | undefined;
+          if (replyText) {
+            msgNo = await convStore.nextBotMsgNo(meta.convId);
+            await convStore.append(meta.convId, {
+              role: "bot",
+              text: replyText,
+              at: new Date().toISOString(),
+              msgNo,
+              agentId: effectiveAgent,
+              channel: "web",
+              ...(partial ? { partial: true } : {}),
+              ...(toolSteps.length ? { tools: toolSteps } : {}),
+              ...(agentsUsed.length > 1 ? { agents: agentsUsed } : {}),
+              ...(files.length ? { attachments: files } : {}),
+            });
+
+            if (memoryEngine && !partial) {
+              await memoryEngine.afterReply(meta.convId, [
+                { role: "user", text: input, at: new Date().toISOString() },
+                { role: "bot", text: replyText, at: new Date().toISOString(), msgNo, agentId: effectiveAgent },
+              ]);
+            }
+          }
 
-        sendJson(res, 200, {
-          sessionId: meta.convId,
-          reply: replyText,
-          msgNo,
+          if (!res.writableEnded) {
+            if (failure) writeSse(res, "error", { error: failure, msgNo });
+            else {
+              writeSse(res, "done", {
+                sessionId: meta.convId,
+                reply: replyText,
+                msgNo,
+                ...(agentsUsed.length > 1 ? { agents: agentsUsed } : {}),
+                ...(files.length ? { attachments: files } : {}),
+              });
+            }
+            res.end();
+          }
         });
         return;
       }
@@ -139,16 +616,202 @@ export function createHttpServer(
           sendJson(res, 400, { error: "Missing sessionId" });
           return;
         }
-        const thread = await convStore.getThread(sessionId);
+        const limit = Number(u.searchParams.get("limit") ?? 50);
+        const thread = await convStore.getThread(
+          sessionId,
+          Number.isFinite(limit) ? Math.min(Math.max(Math.floor(limit), 1), 500) : 50
+        );
         sendJson(res, 200, { thread });
         return;
       }
 
+      if (searchIndex && pathname === "/api/search" && req.method === "GET") {
+        const u = new URL(url, "http://localhost");
+        const q = u.searchParams.get("q") ?? "";
+        if (!q.trim()) {
+          sendJson(res, 400, { error: "Missing q" });
+          return;
+        }
+        const channel = u.searchParams.get("channel") || undefined;
+        if (channel && channel !== "web" && channel !== "mail") {
+          sendJson(res, 400, { error: "Invalid channel (expected web or mail)" });
+          return;
+        }
+        const limit = Number(u.searchParams.get("limit") ?? 20);
+        const result = searchIndex.search(q, {
+          agent: u.searchParams.get("agent") || undefined,
+          channel: channel as SearchChannel | undefined,
+          from: u.searchParams.get("from") || undefined,
+          to: u.searchParams.get("to") || undefined,
+          limit: Number.isFinite(limit) ? Math.min(Math.max(Math.floor(limit), 1), 100) : 20,
+        });
+        sendJson(res, 200, result);
+        return;
+      }
+
+      if (workspaceIndex && pathname === "/api/workspace/reindex" && req.method === "POST") {
+        sendJson(res, 200, await workspaceIndex.reindex());
+        return;
+      }
+
+      if (memoryEngine && MEMORY_ROUTES[pathname]?.includes(req.method ?? "")) {
+        const u = new URL(url, "http://localhost");
+        const body = req.method === "PUT" || req.method === "POST" ? await parseBody(req) : {};
+        // PUT and POST take the scope from the body, GET and DELETE from the query
+        const param = (name: string) =>
+          (typeof body[name] === "string" ? (body[name] as string) : u.searchParams.get(name)) || undefined;
+        const scope = param("scope") ?? "global";
+        const convId = param("convId");
+        if (scope !== "global" && scope !== "conversation") {
+          sendJson(res, 400, { error: "Invalid scope (expected global or conversation)" });
+          return;
+        }
+        if (scope === "conversation" && !convId) {
+          sendJson(res, 400, { error: "Missing convId" });
+          return;
+        }
+        if (scope === "conversation" && !(await convStore.exists(convId!))) {
+          sendJson(res, 404, { error: "Not found" });
+          return;
+        }
+        const target = { scope, ...(scope === "conversation" ? { convId } : {}) };
+        const confirm = body.confirm === true || u.searchParams.get("confirm") === "true";
+
+        if (pathname === "/api/memory/history") {
+          sendJson(res, 200, { ...target, versions: await memoryEngine.factsHistory(scope as MemoryScope, convId) });
+          return;
+        }
+        if (pathname === "/api/memory/rollback") {
+          const version = body.version;
+          if (typeof version !== "number" || !Number.isInteger(version) || version < 0) {
+            sendJson(res, 400, { error: "version must be a non-negative integer" });
+            return;
+          }
+          try {
+            const rolledBack = await memoryEngine.rollbackFacts(scope as MemoryScope, convId, version);
+            sendJson(res, 200, { ...target, ...rolledBack });
+          } catch (e) {
+            if (!(e instanceof FactsVersionError)) throw e;
+            sendJson(res, 404, { error: e.message });
+          }
+          return;
+        }
+        if (req.method === "GET") {
+          sendJson(res, 200, { ...target, facts: await memoryEngine.getFacts(scope as MemoryScope, convId) });
+          return;
+        }
+        if (req.method === "PUT") {
+          let patch: Record<string, unknown>;
+          try {
+            patch = validateFactsPatch(body.facts);
+          } catch (e) {
+            sendJson(res, 400, { error: e instanceof Error ? e.message : String(e) });
+            return;
+          }
+          try {
+            const facts = await memoryEngine.changeFacts(scope as MemoryScope, convId, (f) => mergeFacts(f, patch), {
+              confirm,
+            });
+            sendJson(res, 200, { ...target, facts });
+          } catch (e) {
+            if (!(e instanceof FactsDeletionError)) throw e;
+            sendJson(res, 409, { error: e.message, removed: e.removed });
+          }
+          return;
+        }
+        // DELETE: one fact with ?key=, otherwise every fact of the scope (past the deletion limit with ?confirm=true)
+        const key = u.searchParams.get("key");
+        let found = true;
+        let facts: Record<string, unknown>;
+        try {
+          facts = await memoryEngine.changeFacts(
+            scope as MemoryScope,
+            convId,
+            (f) => {
+              if (key === null) return {};
+              found = Object.hasOwn(f, key);
+              return mergeFacts(f, { [key]: null });
+            },
+            { confirm }
+          );
+        } catch (e) {
+          if (!(e instanceof FactsDeletionError)) throw e;
+          sendJson(res, 409, { error: e.message, removed: e.removed });
+          return;
+        }
+        if (!found) {
+          sendJson(res, 404, { error: `Unknown fact: ${key}` });
+          return;
+        }
+        sendJson(res, 200, { ...target, facts });
+        return;
+      }
+
       if (pathname === "/health" && req.method === "GET") {
         sendJson(res, 200, { ok: true });
         return;
       }
 
+      if (usageLedger && pathname === "/api/usage" && req.method === "GET") {
+        const u = new URL(url, "http://localhost");
+        const from = u.searchParams.get("from") ?? undefined;
+        const to = u.searchParams.get("to") ?? undefined;
+        const groupBy = u.searchParams.get("groupBy");
+        const entries = await usageLedger.query({ from, to });
+        const totals = UsageLedger.aggregate(entries, "purpose").reduce(
+          (acc, g) => ({
+            calls: acc.calls + g.calls,
+            promptTokens: acc.promptTokens + g.promptTokens,
+            completionTokens: acc.completionTokens + g.completionTokens,
+            totalTokens: acc.totalTokens + g.totalTokens,
+          }),
+          { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+        );
+        const dims: UsageGroupBy[] = ["day", "agent", "model", "purpose"];
+        if (groupBy && !dims.includes(groupBy as UsageGroupBy)) {
+          sendJson(res, 400, { error: "Invalid groupBy" });
+          return;
+        }
+        const groups = Object.fromEntries(
+          (groupBy ? [groupBy as UsageGroupBy] : dims).map((d) => [d, UsageLedger.aggregate(entries, d)])
+        );
+        sendJson(res, 200, { totals, groups, budget: usageLedger.checkBudget() });
+        return;
+      }
+
+      if (pathname === "/api/agents" && req.method === "GET") {
+        sendJson(res, 200, { agents: agents.list(), errors: agents.loadErrors() });
+        return;
+      }
+
+      if (evalRunner && pathname === "/api/evals/run" && req.method === "POST") {
+        const body = await parseBody(req);
+        let suite: EvalSuite;
+        try {
+          if (typeof body.name === "string") {
+            if (!/^[\w-]+$/.test(body.name)) throw new Error("Invalid suite name");
+            suite = await loadEvalSuite(path.join(cfg.evalsDir, `${body.name}.json`));
+          } else {
+            suite = validateEvalSuite(body.suite);
+          }
+        } catch (e) {
+          sendJson(res, 400, { error: e instanceof Error ? e.message : String(e) });
+          return;
+        }
+        const agentId = typeof body.agentId === "string" && body.agentId ? body.agentId : undefined;
+        if (agentId && !agents.has(agentId)) {
+          sendJson(res, 400, { error: `Unknown agent: ${agentId}` });
+          return;
+        }
+        sendJson(res, 200, await evalRunner.run(suite, { agentId }));
+        return;
+      }
+
+      if (providerRouter && pathname === "/api/providers" && req.method === "GET") {
+        sendJson(res, 200, { providers: providerRouter.health() });
+        return;
+      }
+
       if (fileTools && pathname === "/api/tools/file/list" && req.method === "POST") {
         const body = await parseBody(req);
         const p = (body.path as string) ?? ".";
@@ -203,14 +866,22 @@ export function createHttpServer(
         const body = await parseBody(req);
         if (!body.cron || typeof body.cron !== "string") { sendJson(res, 400, { error: "Missing or invalid cron" }); return; }
         if (!body.action || typeof body.action !== "object" || Array.isArray(body.action)) { sendJson(res, 400, { error: "Missing or invalid action" }); return; }
-        const task = await schedulerEngine.addTask({
-          id: (body.id as string) ?? crypto.randomUUID(),
-          cron: body.cron,
-          timezone: body.timezone as string | undefined,
-          action: body.action as import("../scheduler/schedulerEngine.js").TaskAction,
-          enabled: (body.enabled as boolean) ?? true,
-        });
-        sendJson(res, 200, task);
+        let checked: ReturnType<typeof validateTask>;
+        try {
+          checked = validateTask(
+            { ...body, id: (body.id as string) ?? crypto.randomUUID() },
+            { toolNames: (toolRegistry?.names() ?? []).filter((n) => !n.startsWith("task.")) }
+          );
+        } catch (e) {
+          sendJson(res, 400, { error: e instanceof Error ? e.message : String(e) });
+          return;
+        }
+        if (schedulerEngine.getTask(checked.task.id)) {
+          sendJson(res, 409, { error: `Task already exists: ${checked.task.id}` });
+          return;
+        }
+        const task = await schedulerEngine.addTask(checked.task);
+        sendJson(res, 200, { ...task, nextRuns: checked.nextRuns });
         return;
       }
 
@@ -219,7 +890,7 @@ export function createHttpServer(
         return;
       }
 
-      if (fileTools && auditLogger && approvalManager && pathname.startsWith("/api/approvals/") && req.method === "POST") {
+      if (toolRegistry && auditLogger && approvalManager && pathname.startsWith("/api/approvals/") && req.method === "POST") {
         const parts = pathname.slice("/api/approvals/".length).split("/");
         const id = parts[0];
         const action = parts[1];
@@ -227,15 +898,29 @@ export function createHttpServer(
         if (action === "approve") {
           const p = approvalManager.approve(id);
           if (!p) { sendJson(res, 404, { error: "Not found" }); return; }
-          let out: { ok: boolean; data?: string | string[]; error?: string };
-          if (p.tool === "file.write") {
-            const args = p.args as { path: string; content: string };
-            out = await fileTools.write(args.path, args.content);
-          } else if (p.tool === "file.delete") {
-            const args = p.args as { path: string };
-            out = await fileTools.delete(args.path);
-          } else { sendJson(res, 400, { error: "Unknown tool" }); return; }
-          await auditLogger.log({ tool: p.tool, args: p.args, result: out.ok ? "ok" : "error", detail: out.ok ? undefined : (out as { error: string }).error });
+          const tool = toolRegistry.get(p.tool);
+          if (!tool) { sendJson(res, 400, { error: "Unknown tool" }); return; }
+          const args = (p.args ?? {}) as Record<string, unknown>;
+          let out: ToolOutput;
+          try {
+            out = await tool.run(args, p.ctx);
+          } catch (e) {
+            out = { ok: false, error: e instanceof Error ? e.message : String(e) };
+          }
+          await auditLogger.log({
+            tool: p.tool,
+            args: p.args,
+            result: out.ok ? "ok" : "error",
+            detail: out.ok ? undefined : out.error,
+            convId: p.ctx?.convId,
+            agentId: p.ctx?.agentId,
+          });
+          await recordApproval(p, {
+            tool: p.tool,
+            args,
+            pendingId: p.id,
+            ...(out.ok ? { result: "ok", output: out.data } : { result: "error", error: out.error }),
+          });
           sendJson(res, 200, out);
           return;
         }
@@ -259,6 +944,10 @@ export function createHttpServer(
       res.end("Not Found");
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
       sendJson(res, 500, { error: message });
     }
   });
@@ -0,0 +1,38 @@
+import { parseArgs } from "node:util";
+import path from "node:path";
+import { loadConfig } from "../config.js";
+import { openSqliteStorage } from "./sqliteStorage.js";
+import { migrateFiles } from "./storageSetup.js";
+
+const USAGE = "Usage: pnpm storage:migrate [--db <file>]";
+
+/** One-shot copy of the file layout in DATA_DIR into the SQLite database (SQLITE_PATH, or --db). */
+async function main(): Promise<number> {
+  const { values } = parseArgs({ options: { db: { type: "string" }, help: { type: "boolean" } } });
+  if (values.help) {
+    console.error(USAGE);
+    return 2;
+  }
+  const cfg = loadConfig();
+  const file = values.db ? path.resolve(values.db) : cfg.storage.sqlitePath;
+  const storage = await openSqliteStorage(file);
+  try {
+    const report = await migrateFiles(cfg.dataDir, storage);
+    console.log(
+      `Migrated ${report.conversations} conversations (${report.turns} turns), ${report.tasks} tasks, ` +
+        `${report.runs} task runs, ${report.processed} processed mails and ${report.audit} audit entries into ${file}.`
+    );
+    console.log("Set STORAGE_BACKEND=sqlite to use it; the old files are left in place.");
+  } finally {
+    storage.close();
+  }
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (e) => {
+    console.error(e instanceof Error ? e.message : e);
+    process.exit(2);
+  }
+);
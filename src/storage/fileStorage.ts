@@ -0,0 +1,258 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { writeFileAtomic } from "../core/atomicFile.js";
+import { KeyedMutex } from "../core/keyedMutex.js";
+import type { ConvMeta, ConversationQuery, ThreadItem } from "../conversation/types.js";
+import type { Task, TasksFile } from "../scheduler/schedulerEngine.js";
+import type { AuditEntry } from "../tools/audit.js";
+import type { AuditRepo, ConversationRepo, ProcessedKey, ProcessedRepo, Storage, TaskRepo, TaskRun } from "./types.js";
+
+/** Appends and rewrites of one JSONL file, by path, so a rewrite never loses a line appended meanwhile. */
+const fileLocks = new KeyedMutex();
+
+/** Parsed lines of a JSONL file, skipping malformed ones; [] when the file does not exist. */
+async function readJsonLines<T>(file: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf-8");
+  } catch {
+    return [];
+  }
+  const out: T[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    try {
+      out.push(JSON.parse(line) as T);
+    } catch {
+      // skip malformed
+    }
+  }
+  return out;
+}
+
+function newest<T>(items: T[], limit?: number): T[] {
+  return limit === undefined ? items : items.slice(-limit);
+}
+
+async function appendJsonLine(file: string, item: unknown): Promise<void> {
+  await fileLocks.run(file, () => fs.appendFile(file, JSON.stringify(item) + "\n", "utf-8"));
+}
+
+/** Rewrites a JSONL file with the lines `keep` returns; malformed lines are dropped too. Returns how many went. */
+async function rewriteJsonLines<T>(file: string, keep: (items: T[]) => T[]): Promise<number> {
+  return fileLocks.run(file, async () => {
+    const items = await readJsonLines<T>(file);
+    const kept = keep(items);
+    if (kept.length === items.length) return 0;
+    await writeFileAtomic(file, kept.map((item) => JSON.stringify(item) + "\n").join(""));
+    return items.length - kept.length;
+  });
+}
+
+/** Filters, sorts and pages metas the way the SQLite backend does in SQL. */
+export function queryMetas(metas: ConvMeta[], query: ConversationQuery): ConvMeta[] {
+  const tag = query.tag?.toLowerCase();
+  const q = query.q?.toLowerCase();
+  const key = (m: ConvMeta) =>
+    query.sort === "title" ? (m.title ?? m.convId) : query.sort === "created" ? m.createdAt : (m.updatedAt ?? "");
+  const matching = metas.filter(
+    (m) =>
+      (!query.agent || m.agentId === query.agent) &&
+      (!tag || m.tags?.some((t) => t.toLowerCase() === tag)) &&
+      (query.pinned === undefined || !!m.pinned === query.pinned) &&
+      (query.archived === undefined || !!m.archived === query.archived) &&
+      (!q || (m.title ?? "").toLowerCase().includes(q) || m.convId.toLowerCase().includes(q))
+  );
+  const dir = query.order === "asc" || (query.order === undefined && query.sort === "title") ? 1 : -1;
+  // convId breaks ties (metas written in the same millisecond), as in the SQL ORDER BY
+  matching.sort(
+    (a, b) =>
+      (query.pinnedFirst ? Number(!!b.pinned) - Number(!!a.pinned) : 0) ||
+      dir * key(a).localeCompare(key(b)) ||
+      dir * (a.convId < b.convId ? -1 : a.convId > b.convId ? 1 : 0)
+  );
+  const offset = query.offset ?? 0;
+  return matching.slice(offset, query.limit === undefined ? undefined : offset + query.limit);
+}
+
+/** data/conv/<convId>/meta.json and thread.jsonl. */
+export class FileConversationRepo implements ConversationRepo {
+  constructor(private dataDir: string) {}
+
+  private convDir(convId: string): string {
+    return path.join(this.dataDir, "conv", convId);
+  }
+
+  private metaPath(convId: string): string {
+    return path.join(this.convDir(convId), "meta.json");
+  }
+
+  private threadPath(convId: string): string {
+    return path.join(this.convDir(convId), "thread.jsonl");
+  }
+
+  async readMeta(convId: string): Promise<ConvMeta | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.metaPath(convId), "utf-8")) as ConvMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  async writeMeta(meta: ConvMeta): Promise<void> {
+    await fs.mkdir(this.convDir(meta.convId), { recursive: true });
+    await writeFileAtomic(this.metaPath(meta.convId), JSON.stringify(meta, null, 2));
+  }
+
+  /** Reads every meta.json; there is no index to narrow the search. */
+  async listMeta(query: ConversationQuery): Promise<ConvMeta[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(path.join(this.dataDir, "conv"));
+    } catch {
+      return [];
+    }
+    const metas: ConvMeta[] = [];
+    for (const id of ids) {
+      const meta = await this.readMeta(id);
+      if (meta) metas.push(meta);
+    }
+    return queryMetas(metas, query);
+  }
+
+  async appendTurn(convId: string, item: ThreadItem): Promise<void> {
+    await fs.mkdir(this.convDir(convId), { recursive: true });
+    await appendJsonLine(this.threadPath(convId), item);
+  }
+
+  async replaceTurns(convId: string, items: ThreadItem[]): Promise<void> {
+    const file = this.threadPath(convId);
+    await fileLocks.run(file, () => writeFileAtomic(file, items.map((item) => JSON.stringify(item) + "\n").join("")));
+  }
+
+  private async readLines(convId: string): Promise<string[]> {
+    try {
+      return (await fs.readFile(this.threadPath(convId), "utf-8")).split(/\r?\n/).filter(Boolean);
+    } catch {
+      return [];
+    }
+  }
+
+  async readTurns(convId: string): Promise<ThreadItem[]> {
+    return (await this.readLines(convId)).map((line) => JSON.parse(line) as ThreadItem);
+  }
+
+  /** Still reads the whole file, but parses only the lines asked for. */
+  async readTail(convId: string, count: number): Promise<{ firstLine: number; items: ThreadItem[] }> {
+    const lines = await this.readLines(convId);
+    const firstLine = Math.max(0, lines.length - count);
+    return { firstLine, items: lines.slice(firstLine).map((line) => JSON.parse(line) as ThreadItem) };
+  }
+
+  async threadBytes(convId: string): Promise<number> {
+    try {
+      return (await fs.stat(this.threadPath(convId))).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  async deleteConversation(convId: string): Promise<void> {
+    await fs.rm(this.convDir(convId), { recursive: true, force: true });
+  }
+}
+
+/** data/inbox_processed.jsonl */
+export class FileProcessedRepo implements ProcessedRepo {
+  private filePath: string;
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, "inbox_processed.jsonl");
+  }
+
+  async load(): Promise<ProcessedKey[]> {
+    const lines = await readJsonLines<Partial<ProcessedKey>>(this.filePath);
+    return lines.filter((l): l is ProcessedKey => !!l && typeof l.key === "string");
+  }
+
+  async addKey(key: string, at: string): Promise<void> {
+    await appendJsonLine(this.filePath, { key, at });
+  }
+
+  async pruneBefore(at: string): Promise<number> {
+    return rewriteJsonLines<Partial<ProcessedKey>>(this.filePath, (lines) => lines.filter((l) => !l?.at || l.at >= at));
+  }
+}
+
+/** data/tasks.json and data/runs.jsonl */
+export class FileTaskRepo implements TaskRepo {
+  private filePath: string;
+  private runsPath: string;
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, "tasks.json");
+    this.runsPath = path.join(dataDir, "runs.jsonl");
+  }
+
+  async loadTasks(): Promise<Task[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf-8")) as TasksFile;
+      return Array.isArray(data.tasks) ? data.tasks : [];
+    } catch {
+      return [];
+    }
+  }
+
+  async saveTasks(tasks: Task[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFileAtomic(this.filePath, JSON.stringify({ tasks }, null, 2));
+  }
+
+  async appendRun(run: TaskRun): Promise<void> {
+    await appendJsonLine(this.runsPath, run);
+  }
+
+  async readRuns(opts: { taskId?: string; limit?: number } = {}): Promise<TaskRun[]> {
+    const runs = await readJsonLines<TaskRun>(this.runsPath);
+    return newest(
+      runs.filter((r) => !opts.taskId || r.taskId === opts.taskId),
+      opts.limit
+    );
+  }
+
+  async dropOldestRuns(count: number): Promise<void> {
+    await rewriteJsonLines(this.runsPath, (runs) => runs.slice(count));
+  }
+}
+
+/** data/audit.jsonl */
+export class FileAuditRepo implements AuditRepo {
+  private filePath: string;
+
+  constructor(dataDir: string) {
+    this.filePath = path.join(dataDir, "audit.jsonl");
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await appendJsonLine(this.filePath, entry);
+  }
+
+  async read(opts: { limit?: number } = {}): Promise<AuditEntry[]> {
+    return newest(await readJsonLines<AuditEntry>(this.filePath), opts.limit);
+  }
+
+  async dropOldest(count: number): Promise<void> {
+    await rewriteJsonLines(this.filePath, (entries) => entries.slice(count));
+  }
+}
+
+export function openFileStorage(dataDir: string): Storage {
+  return {
+    backend: "files",
+    conversations: new FileConversationRepo(dataDir),
+    processed: new FileProcessedRepo(dataDir),
+    tasks: new FileTaskRepo(dataDir),
+    audit: new FileAuditRepo(dataDir),
+    close: () => {},
+  };
+}
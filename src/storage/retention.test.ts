@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { gunzipSync } from "node:zlib";
+import { ConversationStore } from "../conversation/store.js";
+import { ProcessedStore } from "../conversation/processedStore.js";
+import { openFileStorage } from "./fileStorage.js";
+import { RetentionCompactor, entriesToCut } from "./retention.js";
+import type { RetentionConfig, RetentionPolicy } from "./retention.js";
+import type { Storage } from "./types.js";
+
+const NONE: RetentionPolicy = { maxAgeDays: 0, maxBytes: 0, mode: "archive" };
+const NOW = new Date("2026-03-01T00:00:00Z");
+
+async function readSegments(dir: string): Promise<unknown[]> {
+  const out: unknown[] = [];
+  for (const name of await fs.readdir(dir)) {
+    const raw = gunzipSync(await fs.readFile(path.join(dir, name))).toString("utf-8");
+    out.push(
+      ...raw
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line))
+    );
+  }
+  return out;
+}
+
+describe("entriesToCut", () => {
+  it("cuts by age, then by size, but keeps the newest", () => {
+    const entries = ["2026-01-01", "2026-01-02", "2026-02-27", "2026-02-28"].map((at) => ({
+      at,
+      text: "x".repeat(80),
+    }));
+    expect(entriesToCut(entries, { ...NONE, maxAgeDays: 30 }, NOW)).toBe(2);
+    expect(entriesToCut(entries, { ...NONE, maxAgeDays: 30 }, NOW, 3)).toBe(1);
+    expect(entriesToCut(entries, { ...NONE, maxBytes: 250 }, NOW)).toBe(2);
+    expect(entriesToCut(entries, { ...NONE, maxBytes: 1 }, NOW, 1)).toBe(3);
+    expect(entriesToCut(entries, NONE, NOW)).toBe(0);
+  });
+});
+
+describe("RetentionCompactor", () => {
+  let dataDir: string;
+  let storage: Storage;
+  let convStore: ConversationStore;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-retention-"));
+    storage = openFileStorage(dataDir);
+    convStore = new ConversationStore(dataDir, storage.conversations);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  function compactor(cfg: Partial<RetentionConfig>, processed?: ProcessedStore): RetentionCompactor {
+    return new RetentionCompactor(
+      dataDir,
+      { intervalMs: 60_000, threads: NONE, runs: NONE, audit: NONE, processedMaxAgeDays: 0, ...cfg },
+      { convStore, tasks: storage.tasks, audit: storage.audit, processed }
+    );
+  }
+
+  it("archives old turns but keeps recent history, ids and the summary", async () => {
+    const { convId } = await convStore.createConversation("default");
+    // written before turns had ids
+    for (let i = 0; i < 55; i++) {
+      await storage.conversations.appendTurn(convId, { role: "user", text: `old ${i}`, at: "2025-12-01T00:00:00Z" });
+    }
+    for (let i = 0; i < 5; i++) {
+      await convStore.append(convId, { role: "bot", text: `new ${i}`, at: "2026-02-28T00:00:00Z" });
+    }
+    const summaryPath = path.join(dataDir, "conv", convId, "summary.md");
+    await fs.writeFile(summaryPath, "Talked about old things.");
+    const before = await convStore.getThread(convId, Infinity);
+    const compacted: number[] = [];
+    convStore.onCompact((_, kept) => compacted.push(kept.length));
+
+    const report = await compactor({ threads: { ...NONE, maxAgeDays: 30 } }).compact(NOW);
+    expect(report.threads).toEqual({ conversations: 1, turns: 10 });
+    expect(compacted).toEqual([50]);
+    expect(await convStore.getThread(convId, Infinity)).toEqual([
+      { ...before[10], parentId: null },
+      ...before.slice(11),
+    ]);
+    const archived = await readSegments(path.join(dataDir, "conv", convId, "archive"));
+    expect(archived.map((t) => (t as { text: string }).text)).toEqual(before.slice(0, 10).map((t) => t.text));
+    expect(await fs.readFile(summaryPath, "utf-8")).toBe("Talked about old things.");
+
+    // nothing left to do on the next pass
+    expect((await compactor({ threads: { ...NONE, maxAgeDays: 30 } }).compact(NOW)).threads.turns).toBe(0);
+  });
+
+  it("keeps the recent history of every branch, fork point included", async () => {
+    const { convId } = await convStore.createConversation("default");
+    for (let i = 0; i < 80; i++) {
+      await storage.conversations.appendTurn(convId, { role: "user", text: `old ${i}`, at: "2025-12-01T00:00:00Z" });
+    }
+    // edits L40, so the branch goes on from L39
+    const { branch } = await convStore.startBranch(convId, "L40", "edit");
+    for (let i = 0; i < 15; i++) {
+      await convStore.append(convId, { role: "bot", text: `new ${i}`, at: "2026-02-28T00:00:00Z" });
+    }
+    const before = await convStore.getThread(convId, Infinity);
+    expect(before).toHaveLength(55);
+
+    const report = await compactor({ threads: { ...NONE, maxAgeDays: 30 } }).compact(NOW);
+    expect(report.threads.turns).toBe(5);
+    expect(await convStore.getThread(convId, Infinity, branch.id)).toEqual([
+      { ...before[5], parentId: null },
+      ...before.slice(6),
+    ]);
+    expect((await convStore.getThread(convId, Infinity, "main")).map((t) => t.id)).toEqual(
+      Array.from({ length: 75 }, (_, i) => `L${i + 5}`)
+    );
+  });
+
+  it("rotates logs and forgets old dedupe keys", async () => {
+    for (const at of ["2026-01-01T00:00:00Z", "2026-01-02T00:00:00Z", "2026-02-28T00:00:00Z"]) {
+      await storage.tasks.appendRun({ taskId: "a", at, ok: true });
+      await storage.audit.append({ at, tool: "file.read", args: {}, result: "ok" });
+      await storage.processed.addKey(`mid:${at}`, at);
+    }
+    const processed = new ProcessedStore(dataDir, storage.processed);
+    await processed.load();
+
+    const report = await compactor(
+      {
+        runs: { maxAgeDays: 30, maxBytes: 0, mode: "delete" },
+        audit: { maxAgeDays: 0, maxBytes: 100, mode: "archive" },
+        processedMaxAgeDays: 14,
+      },
+      processed
+    ).compact(NOW);
+    expect(report).toMatchObject({ runs: 2, audit: 2, processed: 2 });
+
+    expect((await storage.tasks.readRuns()).map((r) => r.at)).toEqual(["2026-02-28T00:00:00Z"]);
+    await expect(fs.readdir(path.join(dataDir, "archive", "runs"))).rejects.toThrow();
+    expect((await storage.audit.read()).map((e) => e.at)).toEqual(["2026-02-28T00:00:00Z"]);
+    expect(await readSegments(path.join(dataDir, "archive", "audit"))).toHaveLength(2);
+    expect(processed.has("mid:2026-01-01T00:00:00Z")).toBe(false);
+    expect(processed.has("mid:2026-02-28T00:00:00Z")).toBe(true);
+    expect(await storage.processed.load()).toEqual([{ key: "mid:2026-02-28T00:00:00Z", at: "2026-02-28T00:00:00Z" }]);
+  });
+});
@@ -0,0 +1,209 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import { promisify } from "node:util";
+import { gzip } from "node:zlib";
+import type { ConversationStore } from "../conversation/store.js";
+import type { ConvMeta, ThreadItem } from "../conversation/types.js";
+import { MAIN_BRANCH, branchPath, resolveTurns } from "../conversation/branches.js";
+import type { ProcessedStore } from "../conversation/processedStore.js";
+import type { AuditRepo, TaskRepo } from "./types.js";
+
+const gzipAsync = promisify(gzip);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Newest turns of each branch that are never compacted: the recent history agents see next to the summary. */
+const KEEP_RECENT_TURNS = 50;
+
+/** What happens to entries past the limits: gzipped into data/archive (or the conversation's archive/), or dropped. */
+export type RetentionMode = "archive" | "delete";
+
+/** 0 means no limit. */
+export type RetentionPolicy = { maxAgeDays: number; maxBytes: number; mode: RetentionMode };
+
+export type RetentionConfig = {
+  intervalMs: number;
+  /** Per conversation thread. */
+  threads: RetentionPolicy;
+  runs: RetentionPolicy;
+  audit: RetentionPolicy;
+  /** Mail dedupe keys; at least as long as the mailbox keeps mail, or old unread mail is answered again. */
+  processedMaxAgeDays: number;
+};
+
+export type CompactionReport = {
+  /** Conversations compacted and turns taken out of them. */
+  threads: { conversations: number; turns: number };
+  runs: number;
+  audit: number;
+  processed: number;
+};
+
+function enabled(policy: RetentionPolicy): boolean {
+  return policy.maxAgeDays > 0 || policy.maxBytes > 0;
+}
+
+/**
+ * Lines of a thread file before the first of the newest `keep` turns of any branch path. The file holds every
+ * branch, so counting its lines alone could cut a fork point or older turns of a branch that is still short.
+ */
+export function linesBeforeRecent(items: ThreadItem[], meta: Pick<ConvMeta, "branches">, keep: number): number {
+  if (keep <= 0) return items.length;
+  const turns = resolveTurns(items, meta);
+  const lineOf = new Map(turns.map((t, i) => [t.id, i]));
+  let first = items.length;
+  for (const branchId of [MAIN_BRANCH, ...(meta.branches ?? []).map((b) => b.id)]) {
+    for (const t of branchPath(turns, meta, branchId).slice(-keep)) first = Math.min(first, lineOf.get(t.id)!);
+  }
+  return first;
+}
+
+/**
+ * How many of the oldest entries (oldest first) go: those older than the max age, then more until the rest fits
+ * in max bytes (as JSON lines). The newest `keep` always stay.
+ */
+export function entriesToCut(entries: Array<{ at?: string }>, policy: RetentionPolicy, now: Date, keep = 0): number {
+  const limit = Math.max(0, entries.length - keep);
+  let n = 0;
+  if (policy.maxAgeDays > 0) {
+    const cutoff = new Date(now.getTime() - policy.maxAgeDays * DAY_MS).toISOString();
+    while (n < limit && (entries[n].at ?? "") < cutoff) n++;
+  }
+  if (policy.maxBytes > 0) {
+    let bytes = 0;
+    for (let i = n; i < entries.length; i++) bytes += Buffer.byteLength(JSON.stringify(entries[i]) + "\n", "utf-8");
+    for (; n < limit && bytes > policy.maxBytes; n++) {
+      bytes -= Buffer.byteLength(JSON.stringify(entries[n]) + "\n", "utf-8");
+    }
+  }
+  return n;
+}
+
+/** e.g. "20260110T080000Z"; file names stay valid on Windows. */
+function stamp(at: string | undefined): string {
+  return (at ?? "unknown").replace(/\.\d+/, "").replace(/[-:]/g, "");
+}
+
+/** Writes entries as one gzipped JSONL segment named after the time range it covers. */
+async function writeSegment(dir: string, entries: Array<{ at?: string }>): Promise<string> {
+  await fs.mkdir(dir, { recursive: true });
+  const name = `${stamp(entries[0]?.at)}_${stamp(entries[entries.length - 1]?.at)}_${randomBytes(3).toString("hex")}`;
+  const file = path.join(dir, `${name}.jsonl.gz`);
+  await fs.writeFile(file, await gzipAsync(entries.map((e) => JSON.stringify(e) + "\n").join("")));
+  return file;
+}
+
+/**
+ * Applies the retention policies in the background: old thread turns, task runs and audit entries are moved
+ * into gzipped segments (or dropped), and old mail dedupe keys are forgotten. Summaries and facts are not
+ * touched, so a conversation keeps what it learned from the turns that were archived.
+ */
+export class RetentionCompactor {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<CompactionReport> | null = null;
+
+  constructor(
+    private dataDir: string,
+    private cfg: RetentionConfig,
+    private deps: { convStore: ConversationStore; tasks: TaskRepo; audit: AuditRepo; processed?: ProcessedStore }
+  ) {}
+
+  /** Whether any policy has a limit. */
+  get active(): boolean {
+    return (
+      enabled(this.cfg.threads) || enabled(this.cfg.runs) || enabled(this.cfg.audit) || this.cfg.processedMaxAgeDays > 0
+    );
+  }
+
+  /** Compacts now and then every `intervalMs`; does nothing when no policy has a limit. */
+  start(): void {
+    if (!this.active || this.timer) return;
+    const run = () => void this.compact().catch((e) => console.error("[EveryBot] retention compaction failed:", e));
+    this.timer = setInterval(run, this.cfg.intervalMs);
+    this.timer.unref();
+    run();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** One pass over everything; a call while a pass is running waits for that one. */
+  compact(now = new Date()): Promise<CompactionReport> {
+    this.running ??= this.compactAll(now).finally(() => (this.running = null));
+    return this.running;
+  }
+
+  private async compactAll(now: Date): Promise<CompactionReport> {
+    const report: CompactionReport = { threads: { conversations: 0, turns: 0 }, runs: 0, audit: 0, processed: 0 };
+    const { convStore, tasks, audit, processed } = this.deps;
+
+    const threads = this.cfg.threads;
+    if (enabled(threads)) {
+      for (const listed of await convStore.listConversations()) {
+        const { convId } = listed;
+        // waits for a running turn, so the archive never splits a user turn from its reply mid-write
+        const removed = await convStore.withLock(convId, async () => {
+          // read under the lock, so a branch started since the listing keeps its history
+          const meta = await convStore.loadMeta(convId).catch(() => listed);
+          return convStore.compactThread(
+            convId,
+            (items) =>
+              Math.min(
+                entriesToCut(items, threads, now, KEEP_RECENT_TURNS),
+                linesBeforeRecent(items, meta, KEEP_RECENT_TURNS)
+              ),
+            threads.mode === "archive"
+              ? async (items) => {
+                  await writeSegment(path.join(this.dataDir, "conv", convId, "archive"), items);
+                }
+              : undefined
+          );
+        });
+        if (!removed.length) continue;
+        report.threads.conversations += 1;
+        report.threads.turns += removed.length;
+      }
+    }
+
+    report.runs = await this.compactLog(
+      "runs",
+      this.cfg.runs,
+      now,
+      () => tasks.readRuns(),
+      (n) => tasks.dropOldestRuns(n)
+    );
+    report.audit = await this.compactLog(
+      "audit",
+      this.cfg.audit,
+      now,
+      () => audit.read(),
+      (n) => audit.dropOldest(n)
+    );
+
+    if (processed && this.cfg.processedMaxAgeDays > 0) {
+      report.processed = await processed.prune(
+        new Date(now.getTime() - this.cfg.processedMaxAgeDays * DAY_MS).toISOString()
+      );
+    }
+    return report;
+  }
+
+  /** Archives (data/archive/<name>/) or drops the oldest log entries past the policy; returns how many went. */
+  private async compactLog(
+    name: string,
+    policy: RetentionPolicy,
+    now: Date,
+    read: () => Promise<Array<{ at?: string }>>,
+    drop: (count: number) => Promise<void>
+  ): Promise<number> {
+    if (!enabled(policy)) return 0;
+    const entries = await read();
+    const n = entriesToCut(entries, policy, now);
+    if (!n) return 0;
+    if (policy.mode === "archive") await writeSegment(path.join(this.dataDir, "archive", name), entries.slice(0, n));
+    await drop(n);
+    return n;
+  }
+}
@@ -0,0 +1,310 @@
+import fs from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import type { DatabaseSync, SQLInputValue } from "node:sqlite";
+import type { ConvMeta, ConversationQuery, ThreadItem } from "../conversation/types.js";
+import type { Task } from "../scheduler/schedulerEngine.js";
+import type { AuditEntry } from "../tools/audit.js";
+import type { AuditRepo, ConversationRepo, ProcessedKey, ProcessedRepo, Storage, TaskRepo, TaskRun } from "./types.js";
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS conversations (
+  conv_id TEXT PRIMARY KEY,
+  agent_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  title TEXT,
+  tags TEXT NOT NULL DEFAULT '[]',
+  pinned INTEGER NOT NULL DEFAULT 0,
+  archived INTEGER NOT NULL DEFAULT 0,
+  meta TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS conversations_updated ON conversations (archived, updated_at);
+CREATE INDEX IF NOT EXISTS conversations_created ON conversations (archived, created_at);
+CREATE INDEX IF NOT EXISTS conversations_agent ON conversations (agent_id, updated_at);
+
+CREATE TABLE IF NOT EXISTS turns (
+  conv_id TEXT NOT NULL,
+  line INTEGER NOT NULL,
+  item TEXT NOT NULL,
+  PRIMARY KEY (conv_id, line)
+) WITHOUT ROWID;
+
+CREATE TABLE IF NOT EXISTS processed (
+  key TEXT PRIMARY KEY,
+  at TEXT NOT NULL
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS processed_at ON processed (at);
+
+CREATE TABLE IF NOT EXISTS tasks (
+  id TEXT PRIMARY KEY,
+  position INTEGER NOT NULL,
+  task TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS task_runs (
+  id INTEGER PRIMARY KEY,
+  task_id TEXT NOT NULL,
+  at TEXT NOT NULL,
+  run TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS task_runs_task ON task_runs (task_id, id);
+
+CREATE TABLE IF NOT EXISTS audit (
+  id INTEGER PRIMARY KEY,
+  at TEXT NOT NULL,
+  tool TEXT NOT NULL,
+  entry TEXT NOT NULL
+);
+`;
+
+function transaction(db: DatabaseSync, fn: () => void): void {
+  db.exec("BEGIN IMMEDIATE");
+  try {
+    fn();
+    db.exec("COMMIT");
+  } catch (e) {
+    db.exec("ROLLBACK");
+    throw e;
+  }
+}
+
+/** SQLite's LIMIT for "no limit". */
+function limitOf(limit?: number): number {
+  return limit === undefined || !Number.isFinite(limit) ? -1 : limit;
+}
+
+/** Rows come back newest first for the LIMIT; callers want them oldest first. */
+function parseColumn<T>(rows: Array<Record<string, unknown>>, column: string): T[] {
+  return rows.map((r) => JSON.parse(r[column] as string) as T).reverse();
+}
+
+export class SqliteConversationRepo implements ConversationRepo {
+  constructor(private db: DatabaseSync) {}
+
+  async readMeta(convId: string): Promise<ConvMeta | null> {
+    const row = this.db.prepare("SELECT meta FROM conversations WHERE conv_id = ?").get(convId);
+    return row ? (JSON.parse(row.meta as string) as ConvMeta) : null;
+  }
+
+  async writeMeta(meta: ConvMeta): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO conversations (conv_id, agent_id, created_at, updated_at, title, tags, pinned, archived, meta)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (conv_id) DO UPDATE SET agent_id = excluded.agent_id, created_at = excluded.created_at,
+           updated_at = excluded.updated_at, title = excluded.title, tags = excluded.tags,
+           pinned = excluded.pinned, archived = excluded.archived, meta = excluded.meta`
+      )
+      .run(
+        meta.convId,
+        meta.agentId,
+        meta.createdAt,
+        meta.updatedAt ?? meta.createdAt,
+        meta.title ?? null,
+        JSON.stringify(meta.tags ?? []),
+        meta.pinned ? 1 : 0,
+        meta.archived ? 1 : 0,
+        JSON.stringify(meta)
+      );
+  }
+
+  /** Same results as the file backend, except that `q`, `tag` and title sorting fold case for ASCII only. */
+  async listMeta(query: ConversationQuery): Promise<ConvMeta[]> {
+    const where: string[] = [];
+    const params: SQLInputValue[] = [];
+    if (query.agent) {
+      where.push("agent_id = ?");
+      params.push(query.agent);
+    }
+    if (query.tag) {
+      where.push("EXISTS (SELECT 1 FROM json_each(conversations.tags) WHERE lower(value) = lower(?))");
+      params.push(query.tag);
+    }
+    if (query.pinned !== undefined) {
+      where.push("pinned = ?");
+      params.push(query.pinned ? 1 : 0);
+    }
+    if (query.archived !== undefined) {
+      where.push("archived = ?");
+      params.push(query.archived ? 1 : 0);
+    }
+    if (query.q) {
+      where.push("(instr(lower(coalesce(title, '')), lower(?)) > 0 OR instr(lower(conv_id), lower(?)) > 0)");
+      params.push(query.q, query.q);
+    }
+    const key =
+      query.sort === "title"
+        ? "coalesce(title, conv_id) COLLATE NOCASE"
+        : query.sort === "created"
+          ? "created_at"
+          : "updated_at";
+    const dir = query.order === "asc" || (query.order === undefined && query.sort === "title") ? "ASC" : "DESC";
+    const sql = [
+      "SELECT meta FROM conversations",
+      where.length ? `WHERE ${where.join(" AND ")}` : "",
+      `ORDER BY ${query.pinnedFirst ? "pinned DESC, " : ""}${key} ${dir}, conv_id ${dir}`,
+      "LIMIT ? OFFSET ?",
+    ].join(" ");
+    const rows = this.db.prepare(sql).all(...params, limitOf(query.limit), query.offset ?? 0);
+    return rows.map((r) => JSON.parse(r.meta as string) as ConvMeta);
+  }
+
+  async appendTurn(convId: string, item: ThreadItem): Promise<void> {
+    this.db
+      .prepare(
+        `INSERT INTO turns (conv_id, line, item)
+         VALUES (?, (SELECT coalesce(max(line) + 1, 0) FROM turns WHERE conv_id = ?), ?)`
+      )
+      .run(convId, convId, JSON.stringify(item));
+  }
+
+  async replaceTurns(convId: string, items: ThreadItem[]): Promise<void> {
+    transaction(this.db, () => {
+      this.db.prepare("DELETE FROM turns WHERE conv_id = ?").run(convId);
+      const insert = this.db.prepare("INSERT INTO turns (conv_id, line, item) VALUES (?, ?, ?)");
+      items.forEach((item, line) => insert.run(convId, line, JSON.stringify(item)));
+    });
+  }
+
+  async readTurns(convId: string): Promise<ThreadItem[]> {
+    const rows = this.db.prepare("SELECT item FROM turns WHERE conv_id = ? ORDER BY line").all(convId);
+    return rows.map((r) => JSON.parse(r.item as string) as ThreadItem);
+  }
+
+  async readTail(convId: string, count: number): Promise<{ firstLine: number; items: ThreadItem[] }> {
+    const rows = this.db
+      .prepare("SELECT line, item FROM turns WHERE conv_id = ? ORDER BY line DESC LIMIT ?")
+      .all(convId, limitOf(count));
+    return { firstLine: rows.length ? Number(rows[rows.length - 1].line) : 0, items: parseColumn(rows, "item") };
+  }
+
+  /** Bytes the thread would take as JSON lines, so the search index can compare it like a file size. */
+  async threadBytes(convId: string): Promise<number> {
+    const row = this.db
+      .prepare("SELECT coalesce(sum(length(CAST(item AS BLOB)) + 1), 0) AS bytes FROM turns WHERE conv_id = ?")
+      .get(convId);
+    return Number(row?.bytes ?? 0);
+  }
+
+  async deleteConversation(convId: string): Promise<void> {
+    transaction(this.db, () => {
+      this.db.prepare("DELETE FROM turns WHERE conv_id = ?").run(convId);
+      this.db.prepare("DELETE FROM conversations WHERE conv_id = ?").run(convId);
+    });
+  }
+}
+
+export class SqliteProcessedRepo implements ProcessedRepo {
+  constructor(private db: DatabaseSync) {}
+
+  async load(): Promise<ProcessedKey[]> {
+    return this.db.prepare("SELECT key, at FROM processed").all() as ProcessedKey[];
+  }
+
+  async addKey(key: string, at: string): Promise<void> {
+    this.db.prepare("INSERT OR IGNORE INTO processed (key, at) VALUES (?, ?)").run(key, at);
+  }
+
+  async pruneBefore(at: string): Promise<number> {
+    return Number(this.db.prepare("DELETE FROM processed WHERE at < ?").run(at).changes);
+  }
+}
+
+export class SqliteTaskRepo implements TaskRepo {
+  constructor(private db: DatabaseSync) {}
+
+  async loadTasks(): Promise<Task[]> {
+    const rows = this.db.prepare("SELECT task FROM tasks ORDER BY position").all();
+    return rows.map((r) => JSON.parse(r.task as string) as Task);
+  }
+
+  async saveTasks(tasks: Task[]): Promise<void> {
+    transaction(this.db, () => {
+      this.db.exec("DELETE FROM tasks");
+      const insert = this.db.prepare("INSERT INTO tasks (id, position, task) VALUES (?, ?, ?)");
+      tasks.forEach((t, i) => insert.run(t.id, i, JSON.stringify(t)));
+    });
+  }
+
+  async appendRun(run: TaskRun): Promise<void> {
+    this.db
+      .prepare("INSERT INTO task_runs (task_id, at, run) VALUES (?, ?, ?)")
+      .run(run.taskId, run.at, JSON.stringify(run));
+  }
+
+  async readRuns(opts: { taskId?: string; limit?: number } = {}): Promise<TaskRun[]> {
+    const rows = opts.taskId
+      ? this.db
+          .prepare("SELECT run FROM task_runs WHERE task_id = ? ORDER BY id DESC LIMIT ?")
+          .all(opts.taskId, limitOf(opts.limit))
+      : this.db.prepare("SELECT run FROM task_runs ORDER BY id DESC LIMIT ?").all(limitOf(opts.limit));
+    return parseColumn(rows, "run");
+  }
+
+  async dropOldestRuns(count: number): Promise<void> {
+    this.db.prepare("DELETE FROM task_runs WHERE id IN (SELECT id FROM task_runs ORDER BY id LIMIT ?)").run(count);
+  }
+}
+
+export class SqliteAuditRepo implements AuditRepo {
+  constructor(private db: DatabaseSync) {}
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.db
+      .prepare("INSERT INTO audit (at, tool, entry) VALUES (?, ?, ?)")
+      .run(entry.at, entry.tool, JSON.stringify(entry));
+  }
+
+  async read(opts: { limit?: number } = {}): Promise<AuditEntry[]> {
+    const rows = this.db.prepare("SELECT entry FROM audit ORDER BY id DESC LIMIT ?").all(limitOf(opts.limit));
+    return parseColumn(rows, "entry");
+  }
+
+  async dropOldest(count: number): Promise<void> {
+    this.db.prepare("DELETE FROM audit WHERE id IN (SELECT id FROM audit ORDER BY id LIMIT ?)").run(count);
+  }
+}
+
+/**
+ * `node:sqlite` (Node 22.5 and newer), or null. Loaded with require, not import: Vite, and so vitest, drops
+ * the `node:` prefix, and there is no bare "sqlite" builtin.
+ */
+function loadSqlite(): typeof import("node:sqlite") | null {
+  try {
+    return createRequire(import.meta.url)("node:sqlite") as typeof import("node:sqlite");
+  } catch {
+    return null;
+  }
+}
+
+export function sqliteAvailable(): boolean {
+  return loadSqlite() !== null;
+}
+
+/** Opens (and creates) the database at `file`. Only this needs `node:sqlite`; Node 20 fails here, not at startup. */
+export async function openSqliteStorage(file: string): Promise<Storage> {
+  const sqlite = loadSqlite();
+  if (!sqlite)
+    throw new Error(`SQLite storage needs Node 22.5 or newer (node:sqlite); this is Node ${process.version}`);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const db = new sqlite.DatabaseSync(file);
+  db.exec("PRAGMA journal_mode = WAL; PRAGMA synchronous = NORMAL; PRAGMA busy_timeout = 5000;");
+  const version = Number(db.prepare("PRAGMA user_version").get()?.user_version ?? 0);
+  if (version > SCHEMA_VERSION) {
+    db.close();
+    throw new Error(`${file} has schema version ${version}; this build knows up to ${SCHEMA_VERSION}`);
+  }
+  db.exec(SCHEMA);
+  db.exec(`PRAGMA user_version = ${SCHEMA_VERSION}`);
+  return {
+    backend: "sqlite",
+    conversations: new SqliteConversationRepo(db),
+    processed: new SqliteProcessedRepo(db),
+    tasks: new SqliteTaskRepo(db),
+    audit: new SqliteAuditRepo(db),
+    close: () => db.close(),
+  };
+}
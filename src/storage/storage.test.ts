@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { ConversationStore } from "../conversation/store.js";
+import { ProcessedStore } from "../conversation/processedStore.js";
+import { SchedulerEngine } from "../scheduler/schedulerEngine.js";
+import { AuditLogger } from "../tools/audit.js";
+import { openFileStorage } from "./fileStorage.js";
+import { openSqliteStorage, sqliteAvailable } from "./sqliteStorage.js";
+import { migrateFiles } from "./storageSetup.js";
+import type { Storage } from "./types.js";
+
+const hasSqlite = sqliteAvailable();
+
+const backends: Array<[string, (dataDir: string) => Promise<Storage>]> = [
+  ["files", async (dataDir) => openFileStorage(dataDir)],
+];
+if (hasSqlite) backends.push(["sqlite", (dataDir) => openSqliteStorage(path.join(dataDir, "everybot.db"))]);
+
+describe.each(backends)("%s storage", (_name, open) => {
+  let dataDir: string;
+  let storage: Storage;
+  let convStore: ConversationStore;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-storage-"));
+    storage = await open(dataDir);
+    convStore = new ConversationStore(dataDir, storage.conversations);
+  });
+
+  afterEach(async () => {
+    storage.close();
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("filters, sorts and pages conversations", async () => {
+    for (const [i, title] of ["beta", "Alpha", "gamma", "delta"].entries()) {
+      const { convId } = await convStore.createConversation(i % 2 ? "files" : "default", `C${i}`);
+      await convStore.updateMeta(convId, { title, tags: i < 2 ? ["Work"] : [], pinned: i === 3 });
+    }
+    const ids = (metas: Array<{ convId: string }>) => metas.map((m) => m.convId);
+
+    expect(ids(await convStore.listConversations({ sort: "title" }))).toEqual(["C1", "C0", "C3", "C2"]);
+    expect(ids(await convStore.listConversations({ sort: "title", limit: 2, offset: 1 }))).toEqual(["C0", "C3"]);
+    expect(ids(await convStore.listConversations({ pinnedFirst: true, sort: "title", limit: 2 }))).toEqual([
+      "C3",
+      "C1",
+    ]);
+    expect(ids(await convStore.listConversations({ tag: "work", agent: "files" }))).toEqual(["C1"]);
+    expect(ids(await convStore.listConversations({ q: "MMA" }))).toEqual(["C2"]);
+    expect(await convStore.listConversations({ offset: 10 })).toEqual([]);
+  });
+
+  it("reads the tail of a thread with the same ids and parents as the whole", async () => {
+    const { convId } = await convStore.createConversation("default");
+    // turns written before ids existed read back as L<line>
+    for (let i = 0; i < 5; i++) {
+      await storage.conversations.appendTurn(convId, { role: "user", text: `old ${i}`, at: "2026-01-01T00:00:00Z" });
+    }
+    await convStore.append(convId, { role: "bot", text: "new", at: "2026-01-02T00:00:00Z" });
+
+    const all = await convStore.getThread(convId, Infinity);
+    expect(all.map((t) => t.id).slice(0, 2)).toEqual(["L0", "L1"]);
+    expect(await convStore.getThread(convId, 3)).toEqual(all.slice(-3));
+    expect(await convStore.getThread(convId, 50)).toEqual(all);
+    expect(await convStore.threadBytes(convId)).toBe(
+      (await storage.conversations.readTurns(convId)).reduce(
+        (n, item) => n + Buffer.byteLength(JSON.stringify(item) + "\n"),
+        0
+      )
+    );
+
+    await storage.conversations.replaceTurns(convId, all.slice(4));
+    expect((await storage.conversations.readTurns(convId)).map((t) => t.text)).toEqual(["old 4", "new"]);
+    expect((await storage.conversations.readTail(convId, 1)).firstLine).toBe(1);
+
+    expect(await convStore.deleteConversation(convId)).toBe(true);
+    expect(await convStore.exists(convId)).toBe(false);
+    expect(await convStore.getThread(convId)).toEqual([]);
+  });
+
+  it("keeps tasks, runs, processed keys and audit entries", async () => {
+    const scheduler = new SchedulerEngine(dataDir, storage.tasks);
+    await scheduler.addTask({
+      id: "b",
+      cron: "0 9 * * *",
+      enabled: true,
+      action: { type: "runChat", promptTemplate: "hi" },
+    });
+    await scheduler.addTask({
+      id: "a",
+      cron: "0 8 * * *",
+      enabled: false,
+      action: { type: "runChat", promptTemplate: "yo" },
+    });
+    await scheduler.removeTask("b");
+    await scheduler.appendRun({ taskId: "a", at: "2026-01-01T08:00:00Z", ok: true });
+    await scheduler.appendRun({ taskId: "b", at: "2026-01-01T09:00:00Z", ok: false, detail: "boom" });
+    await scheduler.appendRun({ taskId: "a", at: "2026-01-02T08:00:00Z", ok: true });
+
+    const reloaded = new SchedulerEngine(dataDir, storage.tasks);
+    await reloaded.load();
+    expect(reloaded.getTasks().map((t) => t.id)).toEqual(["a"]);
+    expect(await storage.tasks.readRuns({ taskId: "a", limit: 1 })).toEqual([
+      { taskId: "a", at: "2026-01-02T08:00:00Z", ok: true },
+    ]);
+    expect((await storage.tasks.readRuns()).map((r) => r.ok)).toEqual([true, false, true]);
+    await storage.tasks.dropOldestRuns(2);
+    expect((await storage.tasks.readRuns()).map((r) => r.at)).toEqual(["2026-01-02T08:00:00Z"]);
+
+    const processed = new ProcessedStore(dataDir, storage.processed);
+    await processed.add("<m1>");
+    await processed.add("<m1>");
+    const processedAgain = new ProcessedStore(dataDir, storage.processed);
+    await processedAgain.load();
+    expect(processedAgain.has("<m1>")).toBe(true);
+    expect((await storage.processed.load()).map((k) => k.key)).toEqual(["<m1>"]);
+    expect(await storage.processed.pruneBefore("2000-01-01T00:00:00Z")).toBe(0);
+    expect(await storage.processed.pruneBefore("2100-01-01T00:00:00Z")).toBe(1);
+    expect(await storage.processed.load()).toEqual([]);
+
+    const audit = new AuditLogger(dataDir, storage.audit);
+    await audit.log({ tool: "file.read", args: { path: "a" }, result: "ok" });
+    await audit.log({ tool: "file.write", args: { path: "b" }, result: "pending" });
+    expect((await storage.audit.read({ limit: 1 })).map((e) => e.tool)).toEqual(["file.write"]);
+    await storage.audit.dropOldest(1);
+    expect((await storage.audit.read()).map((e) => e.tool)).toEqual(["file.write"]);
+  });
+});
+
+describe.skipIf(!hasSqlite)("migrateFiles", () => {
+  let dataDir: string;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-migrate-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("copies the file layout into an empty database once", async () => {
+    const files = new ConversationStore(dataDir);
+    const { convId } = await files.createConversation("default");
+    await files.append(convId, { role: "user", text: "hello", at: "2026-01-01T00:00:00Z" });
+    await files.append(convId, { role: "bot", text: "hi", at: "2026-01-01T00:00:01Z", msgNo: 1 });
+    const [bot] = (await files.getThread(convId)).slice(-1);
+    await files.startBranch(convId, bot.id!, "regenerate");
+    await files.append(convId, { role: "bot", text: "hi again", at: "2026-01-01T00:00:02Z", msgNo: 2 });
+    await files.updateMeta(convId, { title: "Greeting", tags: ["t"] });
+    const scheduler = new SchedulerEngine(dataDir);
+    await scheduler.addTask({
+      id: "a",
+      cron: "0 8 * * *",
+      enabled: true,
+      action: { type: "runChat", promptTemplate: "x" },
+    });
+    await scheduler.appendRun({ taskId: "a", at: "2026-01-01T08:00:00Z", ok: true });
+    await new ProcessedStore(dataDir).add("<m1>");
+    await new AuditLogger(dataDir).log({ tool: "file.read", args: {}, result: "ok" });
+
+    const db = await openSqliteStorage(path.join(dataDir, "everybot.db"));
+    try {
+      expect(await migrateFiles(dataDir, db)).toEqual({
+        conversations: 1,
+        turns: 3,
+        tasks: 1,
+        runs: 1,
+        processed: 1,
+        audit: 1,
+      });
+      const migrated = new ConversationStore(dataDir, db.conversations);
+      expect(await migrated.listConversations()).toEqual(await files.listConversations());
+      expect(await migrated.allTurns(convId)).toEqual(await files.allTurns(convId));
+      expect((await migrated.getThread(convId)).map((t) => t.text)).toEqual(["hello", "hi again"]);
+      expect(await migrated.threadBytes(convId)).toBe(await files.threadBytes(convId));
+
+      await expect(migrateFiles(dataDir, db)).rejects.toThrow(/already has data/);
+    } finally {
+      db.close();
+    }
+  });
+});
@@ -0,0 +1,57 @@
+import type { AppConfig } from "../config.js";
+import { openFileStorage } from "./fileStorage.js";
+import { openSqliteStorage } from "./sqliteStorage.js";
+import type { Storage } from "./types.js";
+
+/** The STORAGE_BACKEND in use: loose files under the data directory, or one SQLite database. */
+export async function openStorage(cfg: Pick<AppConfig, "dataDir" | "storage">): Promise<Storage> {
+  return cfg.storage.backend === "sqlite" ? openSqliteStorage(cfg.storage.sqlitePath) : openFileStorage(cfg.dataDir);
+}
+
+export type MigrationReport = {
+  conversations: number;
+  turns: number;
+  tasks: number;
+  runs: number;
+  processed: number;
+  audit: number;
+};
+
+/**
+ * Copies conversations, tasks, task runs, processed mail keys and the audit log from the file layout in
+ * `dataDir` into `target`, which must be empty. The files are left where they are; summaries, facts and
+ * branch memory stay files with either backend.
+ */
+export async function migrateFiles(dataDir: string, target: Storage): Promise<MigrationReport> {
+  if ((await target.conversations.listMeta({ limit: 1 })).length || (await target.tasks.loadTasks()).length) {
+    throw new Error("Target storage already has data; migrate into an empty database");
+  }
+  const files = openFileStorage(dataDir);
+  const report: MigrationReport = { conversations: 0, turns: 0, tasks: 0, runs: 0, processed: 0, audit: 0 };
+
+  for (const meta of await files.conversations.listMeta({ sort: "created", order: "asc" })) {
+    // turns first: a conversation only shows up in the target once its thread is complete
+    const turns = await files.conversations.readTurns(meta.convId);
+    for (const item of turns) await target.conversations.appendTurn(meta.convId, item);
+    await target.conversations.writeMeta(meta);
+    report.conversations += 1;
+    report.turns += turns.length;
+  }
+  const tasks = await files.tasks.loadTasks();
+  await target.tasks.saveTasks(tasks);
+  report.tasks = tasks.length;
+  for (const run of await files.tasks.readRuns()) {
+    await target.tasks.appendRun(run);
+    report.runs += 1;
+  }
+  const now = new Date().toISOString();
+  // a key seen twice counts once; lines from before keys had a time get the migration's
+  const processed = new Map((await files.processed.load()).map(({ key, at }) => [key, at ?? now]));
+  for (const [key, at] of processed) await target.processed.addKey(key, at);
+  report.processed = processed.size;
+  for (const entry of await files.audit.read()) {
+    await target.audit.append(entry);
+    report.audit += 1;
+  }
+  return report;
+}
@@ -0,0 +1,62 @@
+import type { ConvMeta, ConversationQuery, ThreadItem } from "../conversation/types.js";
+import type { Task } from "../scheduler/schedulerEngine.js";
+import type { AuditEntry } from "../tools/audit.js";
+
+export type StorageBackend = "files" | "sqlite";
+
+/** Meta and thread of every conversation. Ids, branches and locking are ConversationStore's business. */
+export interface ConversationRepo {
+  /** null when the conversation does not exist. */
+  readMeta(convId: string): Promise<ConvMeta | null>;
+  /** Creates or replaces the conversation's meta. */
+  writeMeta(meta: ConvMeta): Promise<void>;
+  /** Conversations matching the query, sorted, from `offset` up to `limit` of them. */
+  listMeta(query: ConversationQuery): Promise<ConvMeta[]>;
+  appendTurn(convId: string, item: ThreadItem): Promise<void>;
+  /** Replaces the whole thread, e.g. after its oldest turns were archived. */
+  replaceTurns(convId: string, items: ThreadItem[]): Promise<void>;
+  /** Thread items as stored, oldest first. */
+  readTurns(convId: string): Promise<ThreadItem[]>;
+  /** The newest `count` items and the line number of the first one. */
+  readTail(convId: string, count: number): Promise<{ firstLine: number; items: ThreadItem[] }>;
+  /** Size of the thread as JSON lines; changes whenever a turn is appended. */
+  threadBytes(convId: string): Promise<number>;
+  deleteConversation(convId: string): Promise<void>;
+}
+
+export type ProcessedKey = { key: string; at: string };
+
+/** Keys of mail already handled by the inbox. */
+export interface ProcessedRepo {
+  load(): Promise<ProcessedKey[]>;
+  addKey(key: string, at: string): Promise<void>;
+  /** Forgets keys added before `at`; returns how many. */
+  pruneBefore(at: string): Promise<number>;
+}
+
+export type TaskRun = { taskId: string; at: string; ok: boolean; detail?: string };
+
+export interface TaskRepo {
+  loadTasks(): Promise<Task[]>;
+  saveTasks(tasks: Task[]): Promise<void>;
+  appendRun(run: TaskRun): Promise<void>;
+  /** Runs oldest first; with `limit`, only the newest ones. */
+  readRuns(opts?: { taskId?: string; limit?: number }): Promise<TaskRun[]>;
+  dropOldestRuns(count: number): Promise<void>;
+}
+
+export interface AuditRepo {
+  append(entry: AuditEntry): Promise<void>;
+  /** Entries oldest first; with `limit`, only the newest ones. */
+  read(opts?: { limit?: number }): Promise<AuditEntry[]>;
+  dropOldest(count: number): Promise<void>;
+}
+
+export type Storage = {
+  backend: StorageBackend;
+  conversations: ConversationRepo;
+  processed: ProcessedRepo;
+  tasks: TaskRepo;
+  audit: AuditRepo;
+  close(): void;
+};
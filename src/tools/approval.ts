@@ -1,10 +1,13 @@
 import { randomUUID } from "node:crypto";
+import type { ToolContext } from "./registry.js";
 
 export type PendingTool = {
   id: string;
   tool: string;
   args: unknown;
   at: string;
+  /** Conversation and agent of the call; the tool runs with it once approved. */
+  ctx?: ToolContext;
 };
 
 export type ApprovalManagerListener = (id: string, approved: boolean) => void;
@@ -13,13 +16,14 @@ export class ApprovalManager {
   private pending = new Map<string, PendingTool>();
   private listeners: Array<(id: string, approved: boolean) => void> = [];
 
-  add(tool: string, args: unknown): string {
+  add(tool: string, args: unknown, ctx?: ToolContext): string {
     const id = randomUUID();
     this.pending.set(id, {
       id,
       tool,
       args,
       at: new Date().toISOString(),
+      ...(ctx ? { ctx } : {}),
     });
     return id;
   }
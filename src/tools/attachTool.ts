@@ -0,0 +1,40 @@
+import type { AttachmentStore } from "../conversation/attachments.js";
+import type { Attachment } from "../conversation/types.js";
+import type { DelegationResult } from "./delegateTool.js";
+import type { ToolDefinition, ToolStep } from "./registry.js";
+
+/** Workspace files the agent attached with `file.attach`, directly or through delegates, without duplicates. */
+export function replyAttachments(steps: ToolStep[]): Attachment[] {
+  const out: Attachment[] = [];
+  const add = (att: Attachment) => {
+    if (!out.some((a) => a.path === att.path && a.sha256 === att.sha256)) out.push(att);
+  };
+  for (const s of steps) {
+    if (s.result !== "ok") continue;
+    if (s.tool === "file.attach") add(s.output as Attachment);
+    if (s.tool === "agent.delegate") for (const att of (s.output as DelegationResult).attachments ?? []) add(att);
+  }
+  return out;
+}
+
+/** `file.attach`: sends a workspace file with the reply; mail replies carry it as an attachment. */
+export function createAttachToolDefinition(attachments: AttachmentStore): ToolDefinition {
+  return {
+    name: "file.attach",
+    description: "Attach a workspace file to your reply, e.g. to send it back by mail.",
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string", description: "File path relative to the workspace root" } },
+      required: ["path"],
+    },
+    mutating: false,
+    run: async (args) => {
+      const p = typeof args.path === "string" ? args.path : "";
+      try {
+        return { ok: true, data: await attachments.fromWorkspace(p) };
+      } catch (e) {
+        return { ok: false, error: e instanceof Error ? e.message : String(e) };
+      }
+    },
+  };
+}
@@ -1,5 +1,5 @@
-import fs from "node:fs/promises";
-import path from "node:path";
+import { FileAuditRepo } from "../storage/fileStorage.js";
+import type { AuditRepo } from "../storage/types.js";
 
 export type AuditEntry = {
   at: string;
@@ -7,17 +7,18 @@ export type AuditEntry = {
   args: unknown;
   result: "ok" | "error" | "pending";
   detail?: string;
+  convId?: string;
+  agentId?: string;
 };
 
 export class AuditLogger {
-  private filePath: string;
-
-  constructor(dataDir: string) {
-    this.filePath = path.join(dataDir, "audit.jsonl");
-  }
+  constructor(
+    dataDir: string,
+    private repo: AuditRepo = new FileAuditRepo(dataDir)
+  ) {}
 
   async log(entry: Omit<AuditEntry, "at">): Promise<void> {
     const full: AuditEntry = { ...entry, at: new Date().toISOString() };
-    await fs.appendFile(this.filePath, JSON.stringify(full) + "\n", "utf-8");
+    await this.repo.append(full);
   }
 }
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createDelegateToolDefinition, participatingAgents } from "./delegateTool.js";
+import { ToolRegistry } from "./registry.js";
+import type { ToolStep } from "./registry.js";
+import { ApprovalManager } from "./approval.js";
+import { AgentRegistry, createAgentFromDefinition } from "../core/agents.js";
+import { MockProvider } from "../core/fixtureProviders.js";
+import type { ChatResponse } from "../core/llmProvider.js";
+import { ConversationStore } from "../conversation/store.js";
+
+const emptyMemory = { summary: "", facts: {}, recentTurns: [] };
+
+function delegateCall(agent: string, task: string): ChatResponse {
+  return {
+    text: "",
+    toolCalls: [
+      {
+        id: `d-${agent}`,
+        type: "function",
+        function: { name: "agent_delegate", arguments: JSON.stringify({ agent, task }) },
+      },
+    ],
+  };
+}
+
+describe("agent.delegate", () => {
+  let dataDir: string;
+  let convStore: ConversationStore;
+  let registry: ToolRegistry;
+  let agents: AgentRegistry;
+  let provider: MockProvider;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-delegate-"));
+    convStore = new ConversationStore(dataDir);
+    await convStore.ensureConversation("C1", "default");
+    registry = new ToolRegistry({ approvalManager: new ApprovalManager() });
+    agents = new AgentRegistry();
+    registry.register(createDelegateToolDefinition({ agents, convStore, maxDepth: 1 }));
+    provider = new MockProvider();
+    const deps = { provider, models: { default: "m" }, tools: registry };
+    for (const id of ["default", "research", "writer"]) {
+      agents.register(
+        createAgentFromDefinition(
+          {
+            id,
+            description: `${id} agent`,
+            modelSlot: "default",
+            systemPrompt: `You are ${id}.`,
+            tools: ["agent.delegate"],
+          },
+          deps
+        )
+      );
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("records each hop in the thread and returns the delegate's answer", async () => {
+    provider.add({
+      match: { system: "You are default", user: "^compare" },
+      response: delegateCall("research", "find prices"),
+      times: 1,
+    });
+    provider.add({ match: { system: "You are research" }, response: { text: "Prices: 3 and 5." } });
+    provider.add({ match: { system: "You are default" }, response: { text: "The second one costs more." } });
+
+    const steps: ToolStep[] = [];
+    const reply = await agents
+      .get("default")
+      .handle("compare the two offers", { convId: "C1", agentId: "default" }, emptyMemory, {
+        onToolStep: (s) => steps.push(s),
+      });
+
+    expect(reply).toBe("The second one costs more.");
+    expect(steps[0]).toMatchObject({
+      tool: "agent.delegate",
+      result: "ok",
+      output: { agent: "research", reply: "Prices: 3 and 5." },
+    });
+    expect(participatingAgents("default", steps)).toEqual(["default", "research"]);
+
+    const thread = await convStore.getThread("C1");
+    expect(thread).toHaveLength(1);
+    expect(thread[0]).toMatchObject({
+      role: "bot",
+      agentId: "research",
+      text: "Prices: 3 and 5.",
+      delegation: { from: "default", task: "find prices", depth: 1 },
+    });
+  });
+
+  it("refuses loops, deep chains and unknown agents", async () => {
+    const tool = registry.get("agent.delegate")!;
+    const loop = await tool.run({ agent: "default", task: "x" }, { convId: "C1", chain: ["default", "research"] });
+    expect(loop).toEqual({ ok: false, error: "Delegation loop: default -> research -> default" });
+
+    const deep = await tool.run({ agent: "writer", task: "x" }, { convId: "C1", chain: ["default", "research"] });
+    expect(deep).toEqual({ ok: false, error: "Delegation depth limit (1) reached" });
+
+    expect(await tool.run({ agent: "nobody", task: "x" }, { convId: "C1", agentId: "default" })).toEqual({
+      ok: false,
+      error: "Unknown agent: nobody",
+    });
+    expect(await convStore.getThread("C1")).toEqual([]);
+  });
+
+  it("lets a delegate hand off further but not back", async () => {
+    provider.add({
+      match: { system: "You are research", user: "^find" },
+      response: delegateCall("default", "again"),
+      times: 1,
+    });
+    provider.add({ match: { system: "You are research" }, response: { text: "Could not go back." } });
+
+    const out = await registry.invoke(
+      "agent.delegate",
+      { agent: "research", task: "find prices" },
+      { convId: "C1", agentId: "default" }
+    );
+    expect(out.result).toBe("ok");
+    const thread = await convStore.getThread("C1");
+    expect(thread[0].tools?.[0]).toMatchObject({ tool: "agent.delegate", result: "error" });
+    expect(thread[0].tools?.[0].error).toContain("Delegation loop");
+  });
+});
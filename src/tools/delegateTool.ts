@@ -0,0 +1,107 @@
+import type { AgentRegistry, MemoryPack } from "../core/agents.js";
+import type { Attachment, ConversationStore } from "../conversation/store.js";
+import type { MemoryEngine } from "../memory/memoryEngine.js";
+import { replyAttachments } from "./attachTool.js";
+import type { ToolDefinition, ToolStep } from "./registry.js";
+
+export type DelegationResult = {
+  agent: string;
+  reply: string;
+  /** The delegate and every agent it delegated to in turn. */
+  agents: string[];
+  /** Approvals queued by the delegate's own tool calls. */
+  pendingIds?: string[];
+  /** Files the delegate attached, passed on to the reply. */
+  attachments?: Attachment[];
+};
+
+/** The answering agent followed by every agent reached through its `agent.delegate` steps, without duplicates. */
+export function participatingAgents(agentId: string, steps: ToolStep[]): string[] {
+  const out: string[] = [agentId];
+  for (const s of steps) {
+    if (s.tool !== "agent.delegate" || s.result !== "ok") continue;
+    for (const id of (s.output as DelegationResult).agents) if (!out.includes(id)) out.push(id);
+  }
+  return out;
+}
+
+/**
+ * `agent.delegate`: hands a sub-task to another registered agent and returns its answer to the caller.
+ * Each hop is written to the thread as a bot turn of the delegate. Loops (an agent already in the chain)
+ * and chains deeper than `maxDepth` hops are refused.
+ */
+export function createDelegateToolDefinition(deps: {
+  agents: AgentRegistry;
+  convStore: ConversationStore;
+  memoryEngine?: MemoryEngine | null;
+  maxDepth?: number;
+}): ToolDefinition {
+  const { agents, convStore, memoryEngine } = deps;
+  const maxDepth = deps.maxDepth ?? 2;
+
+  return {
+    name: "agent.delegate",
+    get description() {
+      const list = agents
+        .list()
+        .map((a) => `${a.id}${a.description ? ` (${a.description})` : ""}`)
+        .join(", ");
+      return `Hand a sub-task to another agent and get its answer back. Agents: ${list}.`;
+    },
+    parameters: {
+      type: "object",
+      properties: {
+        agent: { type: "string", description: "Id of the agent to ask" },
+        task: { type: "string", description: "Self-contained instruction for that agent" },
+      },
+      required: ["agent", "task"],
+    },
+    mutating: false,
+    run: async (args, ctx) => {
+      const target = typeof args.agent === "string" ? args.agent.trim() : "";
+      const task = typeof args.task === "string" ? args.task.trim() : "";
+      if (!task) return { ok: false, error: "task is required" };
+      if (!agents.has(target)) return { ok: false, error: `Unknown agent: ${target}` };
+      if (!ctx?.convId) return { ok: false, error: "Delegation needs a conversation" };
+
+      const chain = ctx.chain ?? (ctx.agentId ? [ctx.agentId] : []);
+      if (chain.includes(target)) return { ok: false, error: `Delegation loop: ${[...chain, target].join(" -> ")}` };
+      if (chain.length > maxDepth) return { ok: false, error: `Delegation depth limit (${maxDepth}) reached` };
+
+      const agent = agents.get(target);
+      const memory: MemoryPack = memoryEngine
+        ? await memoryEngine.buildMemoryPack(ctx.convId, agent.definition?.memory)
+        : { summary: "", facts: {}, recentTurns: [] };
+      const steps: ToolStep[] = [];
+      const reply = await agent.handle(
+        task,
+        { convId: ctx.convId, agentId: target, chain: [...chain, target] },
+        memory,
+        {
+          onToolStep: (s) => steps.push(s),
+        }
+      );
+
+      const attachments = replyAttachments(steps);
+      await convStore.append(ctx.convId, {
+        role: "bot",
+        text: reply,
+        at: new Date().toISOString(),
+        agentId: target,
+        delegation: { from: chain.at(-1) ?? "", task, depth: chain.length },
+        ...(steps.length ? { tools: steps } : {}),
+        ...(attachments.length ? { attachments } : {}),
+      });
+
+      const pendingIds = steps.filter((s) => s.result === "pending").map((s) => s.pendingId!);
+      const result: DelegationResult = {
+        agent: target,
+        reply,
+        agents: participatingAgents(target, steps),
+        ...(pendingIds.length ? { pendingIds } : {}),
+        ...(attachments.length ? { attachments } : {}),
+      };
+      return { ok: true, data: result };
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import type { WorkspaceFS } from "../core/workspaceFs.js";
+import type { ToolDefinition } from "./registry.js";
 
 export type FileToolResult = { ok: true; data: string | string[] } | { ok: false; error: string };
 
@@ -48,3 +49,59 @@ export function createFileTools(workspaceFs: WorkspaceFS): FileToolsApi {
     },
   };
 }
+
+/** Exposes the file tools to agents; write and delete are mutating and go through approval. */
+export function createFileToolDefinitions(fileTools: FileToolsApi): ToolDefinition[] {
+  const str = (v: unknown, fallback = ""): string => (typeof v === "string" ? v : fallback);
+  return [
+    {
+      name: "file.list",
+      description: "List entries of a workspace directory. Directories end with '/'.",
+      parameters: {
+        type: "object",
+        properties: { path: { type: "string", description: "Directory relative to the workspace root", default: "." } },
+      },
+      mutating: false,
+      run: (args) => fileTools.list(str(args.path, ".")),
+    },
+    {
+      name: "file.read",
+      description: "Read a UTF-8 text file from the workspace.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "File path relative to the workspace root" },
+          maxBytes: { type: "number", description: "Refuse files larger than this (default 1000000)" },
+        },
+        required: ["path"],
+      },
+      mutating: false,
+      run: (args) => fileTools.read(str(args.path), typeof args.maxBytes === "number" ? args.maxBytes : 1_000_000),
+    },
+    {
+      name: "file.write",
+      description: "Create or overwrite a text file in the workspace. Requires user approval.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "File path relative to the workspace root" },
+          content: { type: "string", description: "Full new file content" },
+        },
+        required: ["path", "content"],
+      },
+      mutating: true,
+      run: (args) => fileTools.write(str(args.path), str(args.content)),
+    },
+    {
+      name: "file.delete",
+      description: "Delete a file or directory in the workspace. Requires user approval.",
+      parameters: {
+        type: "object",
+        properties: { path: { type: "string", description: "Path relative to the workspace root" } },
+        required: ["path"],
+      },
+      mutating: true,
+      run: (args) => fileTools.delete(str(args.path)),
+    },
+  ];
+}
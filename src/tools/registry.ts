@@ -0,0 +1,140 @@
+import type { ToolSpec } from "../core/llmProvider.js";
+import type { ApprovalManager } from "./approval.js";
+import type { AuditLogger } from "./audit.js";
+
+export type ToolOutput = { ok: true; data: unknown } | { ok: false; error: string };
+
+/** Who is calling; `chain` lists the agents of a delegation, outermost first. */
+export type ToolContext = { convId?: string; agentId?: string; chain?: string[] };
+
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  /** JSON Schema for the arguments object. */
+  parameters: Record<string, unknown>;
+  /** Mutating tools are never run directly; they are queued in ApprovalManager. */
+  mutating: boolean;
+  run(args: Record<string, unknown>, ctx?: ToolContext): Promise<ToolOutput>;
+  /** Mutating tools only: checks args before they are queued; the data is shown with the pending step. */
+  preview?(args: Record<string, unknown>): Promise<ToolOutput>;
+};
+
+/** One tool invocation as recorded on the bot turn. */
+export type ToolStep = {
+  tool: string;
+  args: Record<string, unknown>;
+  result: "ok" | "error" | "pending";
+  output?: unknown;
+  error?: string;
+  pendingId?: string;
+};
+
+/** OpenAI function names may not contain dots, so `file.list` travels as `file_list`. */
+export function toWireName(name: string): string {
+  return name.replace(/\./g, "_");
+}
+
+export class ToolRegistry {
+  private map = new Map<string, ToolDefinition>();
+
+  constructor(private deps: { approvalManager?: ApprovalManager; auditLogger?: AuditLogger } = {}) {}
+
+  register(tool: ToolDefinition): void {
+    this.map.set(tool.name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.map.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.map.get(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.map.keys());
+  }
+
+  /** Resolves a wire name from a model tool call back to the registered tool name. */
+  fromWireName(wire: string): string | null {
+    if (this.map.has(wire)) return wire;
+    for (const name of this.map.keys()) {
+      if (toWireName(name) === wire) return name;
+    }
+    return null;
+  }
+
+  specs(names?: string[]): ToolSpec[] {
+    const selected = names ? names.filter((n) => this.map.has(n)) : this.names();
+    return selected.map((n) => {
+      const t = this.map.get(n)!;
+      return {
+        type: "function",
+        function: { name: toWireName(t.name), description: t.description, parameters: t.parameters },
+      };
+    });
+  }
+
+  /**
+   * Runs a read-only tool, or queues a mutating one for approval.
+   * Every invocation is written to the audit log.
+   */
+  async invoke(
+    name: string,
+    args: Record<string, unknown>,
+    ctx?: ToolContext
+  ): Promise<ToolStep> {
+    const { approvalManager, auditLogger } = this.deps;
+    const tool = this.map.get(name);
+    let step: ToolStep;
+
+    if (!tool) {
+      step = { tool: name, args, result: "error", error: `Unknown tool: ${name}` };
+    } else if (tool.mutating) {
+      if (!approvalManager) {
+        step = { tool: name, args, result: "error", error: "Approval is not available; mutating tools are disabled" };
+      } else {
+        const preview = tool.preview ? await runSafely(() => tool.preview!(args)) : null;
+        if (preview && !preview.ok) {
+          step = { tool: name, args, result: "error", error: preview.error };
+        } else {
+          const pendingId = approvalManager.add(name, args, ctx);
+          step = { tool: name, args, result: "pending", pendingId, ...(preview ? { output: preview.data } : {}) };
+        }
+      }
+    } else {
+      const out = await runSafely(() => tool.run(args, ctx));
+      step = out.ok
+        ? { tool: name, args, result: "ok", output: out.data }
+        : { tool: name, args, result: "error", error: out.error };
+    }
+
+    if (auditLogger) {
+      await auditLogger.log({
+        tool: name,
+        args: tool?.mutating ? redactContent(args) : args,
+        result: step.result,
+        detail: step.result === "pending" ? step.pendingId : step.error,
+        convId: ctx?.convId,
+        agentId: ctx?.agentId,
+      });
+    }
+
+    return step;
+  }
+}
+
+async function runSafely(fn: () => Promise<ToolOutput>): Promise<ToolOutput> {
+  try {
+    return await fn();
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+function redactContent(args: Record<string, unknown>): Record<string, unknown> {
+  if (typeof args.content !== "string") return args;
+  const rest = { ...args };
+  delete rest.content;
+  return rest;
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createTaskToolDefinitions } from "./taskTools.js";
+import { ToolRegistry } from "./registry.js";
+import { ApprovalManager } from "./approval.js";
+import { SchedulerEngine } from "../scheduler/schedulerEngine.js";
+import { validateTask } from "../scheduler/taskSpec.js";
+
+describe("validateTask", () => {
+  const opts = { toolNames: ["file.list"], now: new Date("2026-01-05T00:00:00Z") };
+
+  it("normalizes a task and previews its next runs", () => {
+    const { task, nextRuns } = validateTask(
+      { cron: "0 9 * * 1-5", timezone: "Asia/Shanghai", action: { type: "runChat", promptTemplate: "report" } },
+      opts
+    );
+    expect(task).toMatchObject({ cron: "0 9 * * 1-5", enabled: true, action: { type: "runChat" } });
+    expect(task.id).toMatch(/^task-[0-9a-f]{8}$/);
+    expect(nextRuns).toEqual(["2026-01-05T01:00:00.000Z", "2026-01-06T01:00:00.000Z", "2026-01-07T01:00:00.000Z"]);
+  });
+
+  it("rejects bad patterns, timezones, tools and channels", () => {
+    const action = { type: "runChat", promptTemplate: "x" };
+    expect(() => validateTask({ cron: "61 * * * *", action }, opts)).toThrow(/Invalid schedule/);
+    expect(() => validateTask({ cron: "0 9 * * *", timezone: "Mars/Base", action }, opts)).toThrow(/time zone/);
+    expect(() =>
+      validateTask({ cron: "0 9 * * *", action: { type: "runTool", toolName: "file.write", args: {} } }, opts)
+    ).toThrow("Unknown tool: file.write");
+    expect(() =>
+      validateTask({ cron: "0 9 * * *", action: { type: "sendMessage", channel: "sms", textTemplate: "x" } }, opts)
+    ).toThrow("Unsupported channel");
+  });
+});
+
+describe("task tools", () => {
+  let dataDir: string;
+  let engine: SchedulerEngine;
+  let approvalManager: ApprovalManager;
+  let registry: ToolRegistry;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-tasktools-"));
+    engine = new SchedulerEngine(dataDir);
+    approvalManager = new ApprovalManager();
+    registry = new ToolRegistry({ approvalManager });
+    for (const t of createTaskToolDefinitions(engine, () => registry.names())) registry.register(t);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dataDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("queues valid tasks with a preview and registers them on approval", async () => {
+    const onChange = vi.fn();
+    engine.onChange(onChange);
+
+    const bad = await registry.invoke("task.create", { cron: "every day", action: { type: "runChat" } });
+    expect(bad.result).toBe("error");
+    expect(approvalManager.list()).toHaveLength(0);
+
+    const args = { id: "water", cron: "0 9 * * *", action: { type: "runChat", promptTemplate: "Remind me to drink" } };
+    const step = await registry.invoke("task.create", args);
+    expect(step.result).toBe("pending");
+    expect((step.output as { nextRuns: string[] }).nextRuns).toHaveLength(3);
+    expect(engine.getTasks()).toEqual([]);
+
+    const pending = approvalManager.approve(step.pendingId!)!;
+    const out = await registry.get(pending.tool)!.run(pending.args as Record<string, unknown>);
+    expect(out.ok).toBe(true);
+    expect(engine.getTask("water")?.enabled).toBe(true);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    const dup = await registry.invoke("task.create", args);
+    expect(dup.error).toBe("Task already exists: water");
+  });
+
+  it("lists, pauses and deletes tasks by id", async () => {
+    await engine.addTask({
+      id: "a",
+      cron: "*/5 * * * *",
+      action: { type: "runChat", promptTemplate: "x" },
+      enabled: true,
+    });
+
+    const listed = await registry.invoke("task.list", {});
+    expect((listed.output as Array<{ id: string; nextRuns: string[] }>)[0].nextRuns).toHaveLength(3);
+
+    expect((await registry.invoke("task.pause", { id: "a" })).result).toBe("ok");
+    expect(engine.getTask("a")?.enabled).toBe(false);
+    expect((await registry.invoke("task.pause", { id: "nope" })).error).toBe("Unknown task: nope");
+
+    const del = await registry.invoke("task.delete", { id: "a" });
+    expect(del.result).toBe("pending");
+    expect((await registry.invoke("task.delete", { id: "nope" })).result).toBe("error");
+    await registry.get("task.delete")!.run({ id: "a" });
+    expect(engine.getTasks()).toEqual([]);
+  });
+});
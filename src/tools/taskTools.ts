@@ -0,0 +1,127 @@
+import type { SchedulerEngine } from "../scheduler/schedulerEngine.js";
+import { nextRunTimes, validateTask } from "../scheduler/taskSpec.js";
+import type { ToolDefinition, ToolOutput } from "./registry.js";
+
+const ACTION_SCHEMA = {
+  type: "object",
+  description:
+    'One of: {"type":"sendMessage","channel":"mail","target"?:string,"textTemplate":string}, ' +
+    '{"type":"runTool","toolName":string,"args":object}, {"type":"runChat","promptTemplate":string}',
+  properties: {
+    type: { type: "string", enum: ["sendMessage", "runTool", "runChat"] },
+    channel: { type: "string", enum: ["mail"] },
+    target: { type: "string", description: "Mail address; defaults to the owner mailbox" },
+    textTemplate: { type: "string" },
+    toolName: { type: "string" },
+    args: { type: "object" },
+    promptTemplate: {
+      type: "string",
+      description: "Prompt for the default agent; its reply is kept as a conversation and mailed to the owner",
+    },
+  },
+  required: ["type"],
+};
+
+const ID_PARAMS = {
+  type: "object",
+  properties: { id: { type: "string", description: "Task id from task.list" } },
+  required: ["id"],
+};
+
+/**
+ * Chat tools over SchedulerEngine. Creating and deleting go through approval; pausing and resuming are
+ * reversible and run directly. `toolNames` lists the tools a runTool action may call.
+ */
+export function createTaskToolDefinitions(engine: SchedulerEngine, toolNames: () => string[]): ToolDefinition[] {
+  const schedulable = () => toolNames().filter((n) => !n.startsWith("task."));
+  const idOf = (args: Record<string, unknown>) => (typeof args.id === "string" ? args.id : "");
+
+  const previewCreate = async (args: Record<string, unknown>): Promise<ToolOutput> => {
+    let checked: ReturnType<typeof validateTask>;
+    try {
+      checked = validateTask(args, { toolNames: schedulable() });
+    } catch (e) {
+      return { ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+    if (engine.getTask(checked.task.id)) return { ok: false, error: `Task already exists: ${checked.task.id}` };
+    return { ok: true, data: checked };
+  };
+
+  const setEnabled = async (args: Record<string, unknown>, enabled: boolean): Promise<ToolOutput> => {
+    const task = await engine.updateTask(idOf(args), { enabled });
+    return task ? { ok: true, data: task } : { ok: false, error: `Unknown task: ${idOf(args)}` };
+  };
+
+  return [
+    {
+      name: "task.list",
+      description: "List scheduled tasks with their next run times.",
+      parameters: { type: "object", properties: {} },
+      mutating: false,
+      run: async () => ({
+        ok: true,
+        data: engine.getTasks().map((t) => {
+          let nextRuns: string[] = [];
+          try {
+            nextRuns = t.enabled ? nextRunTimes(t.cron, t.timezone, 3) : [];
+          } catch {
+            // stored pattern no longer parses; show the task anyway
+          }
+          return { ...t, nextRuns };
+        }),
+      }),
+    },
+    {
+      name: "task.create",
+      description:
+        "Create a scheduled task from a 5-field cron pattern (minute first) and an action. Requires user approval; " +
+        "the result shows the next run times.",
+      parameters: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Short id, e.g. daily-report (optional)" },
+          cron: { type: "string", description: "Cron pattern, e.g. '0 9 * * 1-5' for weekdays at 09:00" },
+          timezone: { type: "string", description: "IANA timezone, e.g. Asia/Shanghai (optional)" },
+          action: ACTION_SCHEMA,
+        },
+        required: ["cron", "action"],
+      },
+      mutating: true,
+      preview: previewCreate,
+      run: async (args) => {
+        const preview = await previewCreate(args);
+        if (!preview.ok) return preview;
+        const { task, nextRuns } = preview.data as ReturnType<typeof validateTask>;
+        return { ok: true, data: { task: await engine.addTask(task), nextRuns } };
+      },
+    },
+    {
+      name: "task.pause",
+      description: "Pause a scheduled task (it stays listed and can be resumed).",
+      parameters: ID_PARAMS,
+      mutating: false,
+      run: (args) => setEnabled(args, false),
+    },
+    {
+      name: "task.resume",
+      description: "Resume a paused task.",
+      parameters: ID_PARAMS,
+      mutating: false,
+      run: (args) => setEnabled(args, true),
+    },
+    {
+      name: "task.delete",
+      description: "Delete a scheduled task. Requires user approval.",
+      parameters: ID_PARAMS,
+      mutating: true,
+      preview: async (args) => {
+        const task = engine.getTask(idOf(args));
+        return task ? { ok: true, data: task } : { ok: false, error: `Unknown task: ${idOf(args)}` };
+      },
+      run: async (args) =>
+        (await engine.removeTask(idOf(args)))
+          ? { ok: true, data: { deleted: idOf(args) } }
+          : { ok: false, error: `Unknown task: ${idOf(args)}` },
+    },
+  ];
+}
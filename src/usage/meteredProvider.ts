@@ -0,0 +1,67 @@
+import type {
+  ChatAttribution,
+  ChatRequest,
+  ChatResponse,
+  ChatStreamChunk,
+  ChatUsage,
+  EmbeddingRequest,
+  EmbeddingResponse,
+  LLMProvider,
+} from "../core/llmProvider.js";
+import type { UsageLedger } from "./usageLedger.js";
+
+/** Wraps a provider and records the reported token usage of every call in the ledger. */
+export class MeteredProvider implements LLMProvider {
+  constructor(
+    private inner: LLMProvider,
+    private ledger: UsageLedger
+  ) {}
+
+  async chat(req: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+    const res = await this.inner.chat(req, signal);
+    await this.recordSafe(req, res.usage);
+    return res;
+  }
+
+  async *chatStream(req: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamChunk> {
+    let usage: ChatUsage | undefined;
+    try {
+      for await (const chunk of this.inner.chatStream(req, signal)) {
+        if (chunk.usage) usage = chunk.usage;
+        yield chunk;
+      }
+    } finally {
+      // Aborted streams are still billed for what was generated, if the server said so.
+      await this.recordSafe(req, usage);
+    }
+  }
+
+  async embed(req: EmbeddingRequest, signal?: AbortSignal): Promise<EmbeddingResponse> {
+    if (!this.inner.embed) throw new Error("LLM provider does not serve embeddings");
+    const res = await this.inner.embed(req, signal);
+    await this.recordSafe({ ...req, attribution: { purpose: "embedding", ...req.attribution } }, res.usage);
+    return res;
+  }
+
+  private async recordSafe(
+    req: { model: string; attribution?: ChatAttribution },
+    usage: ChatUsage | undefined
+  ): Promise<void> {
+    if (!usage) return;
+    const promptTokens = usage.prompt_tokens ?? 0;
+    const completionTokens = usage.completion_tokens ?? 0;
+    try {
+      await this.ledger.record({
+        convId: req.attribution?.convId,
+        agentId: req.attribution?.agentId,
+        model: req.model,
+        purpose: req.attribution?.purpose ?? "reply",
+        promptTokens,
+        completionTokens,
+        totalTokens: usage.total_tokens ?? promptTokens + completionTokens,
+      });
+    } catch {
+      // accounting must never break a reply
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { UsageLedger } from "./usageLedger.js";
+import { MeteredProvider } from "./meteredProvider.js";
+import type { LLMProvider } from "../core/llmProvider.js";
+
+describe("UsageLedger", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "everybot-usage-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tmpDir, { recursive: true, force: true }).catch(() => {});
+  });
+
+  it("records metered calls with attribution and aggregates them", async () => {
+    const ledger = new UsageLedger(tmpDir);
+    const inner: LLMProvider = {
+      async chat() {
+        return { text: "ok", usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } };
+      },
+      async *chatStream() {
+        yield { delta: "o" };
+        yield { delta: "k", usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } };
+      },
+    };
+    const provider = new MeteredProvider(inner, ledger);
+
+    await provider.chat({ model: "m1", messages: [], attribution: { convId: "C1", agentId: "default" } });
+    await provider.chat({ model: "m2", messages: [], attribution: { convId: "C1", purpose: "summary" } });
+    const chunks = [];
+    for await (const chunk of provider.chatStream({ model: "m1", messages: [], attribution: { agentId: "files" } })) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toHaveLength(2);
+
+    const entries = await ledger.query();
+    expect(entries.map((e) => [e.model, e.purpose, e.totalTokens])).toEqual([
+      ["m1", "reply", 15],
+      ["m2", "summary", 15],
+      ["m1", "reply", 6],
+    ]);
+    expect(UsageLedger.aggregate(entries, "model").map((g) => [g.key, g.calls, g.totalTokens])).toEqual([
+      ["m1", 2, 21],
+      ["m2", 1, 15],
+    ]);
+    expect(UsageLedger.aggregate(entries, "agent").map((g) => g.key)).toEqual(["(none)", "default", "files"]);
+  });
+
+  it("includes the whole day of a date-only `to`", async () => {
+    const at = [
+      "2026-10-18T23:00:00.000Z",
+      "2026-10-19T00:00:00.000Z",
+      "2026-10-19T21:30:00.000Z",
+      "2026-10-20T00:00:00.000Z",
+    ];
+    const lines = at.map((t) =>
+      JSON.stringify({ at: t, model: "m", purpose: "reply", promptTokens: 1, completionTokens: 1, totalTokens: 2 })
+    );
+    await fs.writeFile(path.join(tmpDir, "usage.jsonl"), lines.join("\n") + "\n");
+    const ledger = new UsageLedger(tmpDir);
+
+    const day = await ledger.query({ from: "2026-10-19", to: "2026-10-19" });
+    expect(day.map((e) => e.at)).toEqual([at[1], at[2]]);
+    expect((await ledger.query({ to: "2026-10-19T12:00:00.000Z" })).map((e) => e.at)).toEqual([at[0], at[1]]);
+  });
+
+  it("refuses once the daily budget is used up, including after reload", async () => {
+    const ledger = new UsageLedger(tmpDir, { dailyTokens: 100, monthlyTokens: 0 });
+    expect(ledger.checkBudget().ok).toBe(true);
+    await ledger.record({ model: "m", purpose: "reply", promptTokens: 80, completionTokens: 30, totalTokens: 110 });
+
+    const status = ledger.checkBudget();
+    expect(status.ok).toBe(false);
+    expect(status.message).toMatch(/today's token budget/);
+
+    const reloaded = new UsageLedger(tmpDir, { dailyTokens: 100, monthlyTokens: 0 });
+    await reloaded.load();
+    expect(reloaded.checkBudget().day.used).toBe(110);
+    expect(reloaded.checkBudget(new Date(Date.now() + 86_400_000)).ok).toBe(true);
+  });
+});
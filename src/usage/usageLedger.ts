@@ -0,0 +1,147 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { UsagePurpose } from "../core/llmProvider.js";
+
+export type UsageEntry = {
+  at: string;
+  convId?: string;
+  agentId?: string;
+  model: string;
+  purpose: UsagePurpose;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type UsageGroup = {
+  key: string;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type UsageGroupBy = "day" | "agent" | "model" | "purpose";
+
+export type UsageBudgets = {
+  /** 0 means unlimited. */
+  dailyTokens: number;
+  monthlyTokens: number;
+};
+
+export type BudgetStatus = {
+  ok: boolean;
+  day: { used: number; limit: number };
+  month: { used: number; limit: number };
+  /** Human-readable refusal, set when `ok` is false. */
+  message?: string;
+};
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function dayKey(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+function monthKey(iso: string): string {
+  return iso.slice(0, 7);
+}
+
+/** Append-only record of every LLM call under DATA_DIR/usage.jsonl, with day/month totals kept in memory for budget checks. */
+export class UsageLedger {
+  private filePath: string;
+  private dayTotals = new Map<string, number>();
+  private monthTotals = new Map<string, number>();
+
+  constructor(
+    dataDir: string,
+    private budgets: UsageBudgets = { dailyTokens: 0, monthlyTokens: 0 }
+  ) {
+    this.filePath = path.join(dataDir, "usage.jsonl");
+  }
+
+  async load(): Promise<void> {
+    this.dayTotals.clear();
+    this.monthTotals.clear();
+    for (const e of await this.readAll()) this.count(e);
+  }
+
+  async record(entry: Omit<UsageEntry, "at">): Promise<UsageEntry> {
+    const full: UsageEntry = { ...entry, at: new Date().toISOString() };
+    this.count(full);
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, JSON.stringify(full) + "\n", "utf-8");
+    return full;
+  }
+
+  checkBudget(now = new Date()): BudgetStatus {
+    const iso = now.toISOString();
+    const day = { used: this.dayTotals.get(dayKey(iso)) ?? 0, limit: this.budgets.dailyTokens };
+    const month = { used: this.monthTotals.get(monthKey(iso)) ?? 0, limit: this.budgets.monthlyTokens };
+
+    if (day.limit > 0 && day.used >= day.limit) {
+      return {
+        ok: false,
+        day,
+        month,
+        message: `Sorry, today's token budget is used up (${day.used}/${day.limit} tokens). Please try again tomorrow.`,
+      };
+    }
+    if (month.limit > 0 && month.used >= month.limit) {
+      return {
+        ok: false,
+        day,
+        month,
+        message: `Sorry, this month's token budget is used up (${month.used}/${month.limit} tokens). Please try again next month.`,
+      };
+    }
+    return { ok: true, day, month };
+  }
+
+  /** `from` and `to` are ISO times or dates; a date-only `to` includes that whole day. */
+  async query(range: { from?: string; to?: string } = {}): Promise<UsageEntry[]> {
+    const all = await this.readAll();
+    const to = range.to && DATE_ONLY_RE.test(range.to) ? `${range.to}T23:59:59.999Z` : range.to;
+    return all.filter((e) => (!range.from || e.at >= range.from) && (!to || e.at <= to));
+  }
+
+  static aggregate(entries: UsageEntry[], by: UsageGroupBy): UsageGroup[] {
+    const groups = new Map<string, UsageGroup>();
+    for (const e of entries) {
+      const key =
+        by === "day" ? dayKey(e.at) : by === "agent" ? (e.agentId ?? "(none)") : by === "model" ? e.model : e.purpose;
+      const g = groups.get(key) ?? { key, calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      g.calls += 1;
+      g.promptTokens += e.promptTokens;
+      g.completionTokens += e.completionTokens;
+      g.totalTokens += e.totalTokens;
+      groups.set(key, g);
+    }
+    return Array.from(groups.values()).sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  private count(e: UsageEntry): void {
+    const d = dayKey(e.at);
+    const m = monthKey(e.at);
+    this.dayTotals.set(d, (this.dayTotals.get(d) ?? 0) + e.totalTokens);
+    this.monthTotals.set(m, (this.monthTotals.get(m) ?? 0) + e.totalTokens);
+  }
+
+  private async readAll(): Promise<UsageEntry[]> {
+    try {
+      const raw = await fs.readFile(this.filePath, "utf-8");
+      const out: UsageEntry[] = [];
+      for (const line of raw.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        try {
+          out.push(JSON.parse(line) as UsageEntry);
+        } catch {
+          // skip malformed
+        }
+      }
+      return out;
+    } catch {
+      return [];
+    }
+  }
+}